@@ -0,0 +1,87 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { AutoModService } from "@/services/autoModService";
+import {
+  autoModDryRunSchema,
+  createAutoModRuleSchema,
+  updateAutoModRuleSchema,
+} from "@/types/community/automod";
+
+export const autoModRouter = new Elysia({ prefix: "/communities" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .get("/:slug/automod/rules", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await AutoModService.listRules(authenticatedUser.id, params.slug);
+  })
+
+  .post(
+    "/:slug/automod/rules",
+    async ({ params, body, set, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const rule = await AutoModService.createRule(
+        authenticatedUser.id,
+        params.slug,
+        body
+      );
+
+      set.status = 201;
+      return rule;
+    },
+    {
+      body: createAutoModRuleSchema,
+    }
+  )
+
+  .patch(
+    "/:slug/automod/rules/:ruleId",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await AutoModService.updateRule(
+        authenticatedUser.id,
+        params.slug,
+        params.ruleId,
+        body
+      );
+    },
+    {
+      body: updateAutoModRuleSchema,
+    }
+  )
+
+  .delete(
+    "/:slug/automod/rules/:ruleId",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await AutoModService.deleteRule(
+        authenticatedUser.id,
+        params.slug,
+        params.ruleId
+      );
+    }
+  )
+
+  // Tests a saved or draft rule against recent posts and comments
+  .post(
+    "/:slug/automod/dry-run",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await AutoModService.dryRun(
+        authenticatedUser.id,
+        params.slug,
+        body
+      );
+    },
+    {
+      body: autoModDryRunSchema,
+    }
+  );
+
+export default autoModRouter;
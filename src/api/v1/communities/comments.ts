@@ -0,0 +1,103 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { CommentService } from "@/services/commentService";
+import { VoteService } from "@/services/voteService";
+import { voteSchema } from "@/types/community/vote";
+import {
+  MAX_COMMENT_DEPTH,
+  createCommentSchema,
+  updateCommentSchema,
+} from "@/types/community/comment";
+
+export const commentsRouter = new Elysia()
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  // Top-level comment or, with parentId, a reply
+  .post(
+    "/posts/:id/comments",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommentService.createComment(
+        authenticatedUser.id,
+        params.id,
+        body
+      );
+    },
+    {
+      body: createCommentSchema,
+    }
+  )
+
+  // Pass parentId and cursor from a "moreReplies" entry to continue a thread
+  .get("/posts/:id/comments", async ({ params, query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommentService.getCommentTree(
+      authenticatedUser.id,
+      params.id,
+      {
+        depth: Math.min(
+          Math.max(Number(query.depth ?? 3) || 0, 0),
+          MAX_COMMENT_DEPTH
+        ),
+        limit: Math.min(Number(query.limit) || 20, 100),
+        cursor: query.cursor as string | undefined,
+        parentId: query.parentId as string | undefined,
+      }
+    );
+  })
+
+  .patch(
+    "/comments/:id",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommentService.updateComment(
+        authenticatedUser.id,
+        params.id,
+        body.content
+      );
+    },
+    {
+      body: updateCommentSchema,
+    }
+  )
+
+  .delete("/comments/:id", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommentService.removeComment(authenticatedUser.id, params.id);
+  })
+
+  .post(
+    "/comments/:id/vote",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await VoteService.castVote(
+        authenticatedUser.id,
+        "comment",
+        params.id,
+        body.value
+      );
+    },
+    {
+      body: voteSchema,
+    }
+  )
+
+  .delete("/comments/:id/vote", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await VoteService.castVote(
+      authenticatedUser.id,
+      "comment",
+      params.id,
+      0
+    );
+  });
+
+export default commentsRouter;
@@ -0,0 +1,82 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { CommunityService } from "@/services/communityService";
+import {
+  CommunitySort,
+  createCommunitySchema,
+  updateCommunitySchema,
+} from "@/types/community/community";
+
+export const communitiesRouter = new Elysia({ prefix: "/communities" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  // List communities with optional filters
+  .get("/", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    const page = Number(query.page) || 1;
+    const limit = Math.min(Number(query.limit) || 20, 100);
+    const tags = query.tags
+      ? (query.tags as string).split(",").filter(Boolean)
+      : undefined;
+
+    return await CommunityService.listCommunities(authenticatedUser.id, {
+      page,
+      limit,
+      category: query.category as string | undefined,
+      tags,
+      isNSFW: query.isNSFW === undefined ? undefined : query.isNSFW === "true",
+      sort: (query.sort === "new" ? "new" : "members") as CommunitySort,
+    });
+  })
+
+  .post(
+    "/",
+    async ({ body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityService.createCommunity(authenticatedUser.id, body);
+    },
+    {
+      body: createCommunitySchema,
+    }
+  )
+
+  .get("/:slug", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommunityService.getVisibleCommunity(
+      authenticatedUser.id,
+      params.slug
+    );
+  })
+
+  .patch(
+    "/:slug",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityService.updateCommunity(
+        authenticatedUser.id,
+        params.slug,
+        body
+      );
+    },
+    {
+      body: updateCommunitySchema,
+    }
+  )
+
+  // Communities are archived rather than deleted to keep their history
+  .delete("/:slug", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommunityService.archiveCommunity(
+      authenticatedUser.id,
+      params.slug
+    );
+  });
+
+export default communitiesRouter;
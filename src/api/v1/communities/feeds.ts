@@ -0,0 +1,82 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { FeedService } from "@/services/feedService";
+import {
+  FEED_SORTS,
+  FEED_WINDOWS,
+  FeedOptions,
+  FeedSort,
+  FeedWindow,
+  feedSignalSchema,
+} from "@/types/community/feed";
+
+const parseFeedOptions = (
+  query: Record<string, string | undefined>
+): FeedOptions => ({
+  sort: FEED_SORTS.includes(query.sort as FeedSort)
+    ? (query.sort as FeedSort)
+    : "hot",
+  window: FEED_WINDOWS.includes(query.window as FeedWindow)
+    ? (query.window as FeedWindow)
+    : "day",
+  limit: Math.min(Number(query.limit) || 25, 100),
+  cursor: query.cursor,
+});
+
+export const feedsRouter = new Elysia()
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  // ?sort=hot|new|top|controversial&window=day|week|month|all&cursor=
+  .get("/feed", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await FeedService.getGlobalFeed(
+      authenticatedUser.id,
+      parseFeedOptions(query)
+    );
+  })
+
+  // Personalized feed from joined communities and followed users and orgs
+  .get("/feed/home", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    const { limit, cursor } = parseFeedOptions(query);
+
+    return await FeedService.getHomeFeed(authenticatedUser.id, {
+      limit,
+      cursor,
+    });
+  })
+
+  .post(
+    "/feed/signals",
+    async ({ body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await FeedService.recordDwell(
+        authenticatedUser.id,
+        body.postId,
+        body.durationMs
+      );
+    },
+    {
+      body: feedSignalSchema,
+    }
+  )
+
+  .get(
+    "/communities/:slug/feed",
+    async ({ params, query, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await FeedService.getCommunityFeed(
+        authenticatedUser.id,
+        params.slug,
+        parseFeedOptions(query)
+      );
+    }
+  );
+
+export default feedsRouter;
@@ -0,0 +1,138 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { CommunityMembershipService } from "@/services/communityMembershipService";
+import {
+  COMMUNITY_MEMBER_ROLES,
+  CommunityMemberRole,
+  JoinRequestStatus,
+  joinCommunitySchema,
+} from "@/types/community/community";
+
+export const communityMembersRouter = new Elysia({ prefix: "/communities" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .post(
+    "/:slug/join",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityMembershipService.joinCommunity(
+        authenticatedUser.id,
+        params.slug,
+        body?.message
+      );
+    },
+    {
+      body: joinCommunitySchema,
+    }
+  )
+
+  .post("/:slug/leave", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommunityMembershipService.leaveCommunity(
+      authenticatedUser.id,
+      params.slug
+    );
+  })
+
+  // Re-verifies the caller's token balance against the community gate
+  .post("/:slug/token-gate/verify", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommunityMembershipService.verifyTokenAccess(
+      authenticatedUser.id,
+      params.slug
+    );
+  })
+
+  .get("/:slug/members", async ({ params, query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    const role = COMMUNITY_MEMBER_ROLES.includes(
+      query.role as CommunityMemberRole
+    )
+      ? (query.role as CommunityMemberRole)
+      : undefined;
+
+    return await CommunityMembershipService.listMembers(
+      authenticatedUser.id,
+      params.slug,
+      {
+        page: Number(query.page) || 1,
+        limit: Math.min(Number(query.limit) || 50, 100),
+        role,
+      }
+    );
+  })
+
+  // Pending join requests for private communities (moderators only)
+  .get("/:slug/join-requests", async ({ params, query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommunityMembershipService.listJoinRequests(
+      authenticatedUser.id,
+      params.slug,
+      (query.status as JoinRequestStatus) || "pending"
+    );
+  })
+
+  .post(
+    "/:slug/join-requests/:requestId/approve",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityMembershipService.reviewJoinRequest(
+        authenticatedUser.id,
+        params.slug,
+        params.requestId,
+        true
+      );
+    }
+  )
+
+  .post(
+    "/:slug/join-requests/:requestId/reject",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityMembershipService.reviewJoinRequest(
+        authenticatedUser.id,
+        params.slug,
+        params.requestId,
+        false
+      );
+    }
+  )
+
+  .post(
+    "/:slug/members/:userId/promote",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityMembershipService.changeMemberRole(
+        authenticatedUser.id,
+        params.slug,
+        params.userId,
+        "promote"
+      );
+    }
+  )
+
+  .post(
+    "/:slug/members/:userId/demote",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityMembershipService.changeMemberRole(
+        authenticatedUser.id,
+        params.slug,
+        params.userId,
+        "demote"
+      );
+    }
+  );
+
+export default communityMembersRouter;
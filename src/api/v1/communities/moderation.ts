@@ -0,0 +1,209 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { ModerationService } from "@/services/moderationService";
+import {
+  MODERATION_ACTION_TYPES,
+  ModerationActionType,
+  moderationReasonSchema,
+  optionalModerationReasonSchema,
+} from "@/types/community/moderation";
+
+export const moderationRouter = new Elysia({ prefix: "/moderation" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  // Audit log for the communities the caller moderates
+  .get("/actions", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    const type = MODERATION_ACTION_TYPES.includes(
+      query.type as ModerationActionType
+    )
+      ? (query.type as ModerationActionType)
+      : undefined;
+
+    return await ModerationService.listActions(authenticatedUser.id, {
+      page: Number(query.page) || 1,
+      limit: Math.min(Number(query.limit) || 20, 100),
+      communitySlug: query.community || undefined,
+      type,
+      targetId: query.targetId || undefined,
+    });
+  })
+
+  .post("/actions/:id/undo", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await ModerationService.undoAction(authenticatedUser.id, params.id);
+  })
+
+  // Review queues for the communities the caller moderates; approving
+  // publishes a held post or restores a spam false positive
+  .get("/posts/pending", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await ModerationService.listPostQueue(
+      authenticatedUser.id,
+      "pending",
+      {
+        page: Number(query.page) || 1,
+        limit: Math.min(Number(query.limit) || 20, 100),
+        communitySlug: query.community || undefined,
+      }
+    );
+  })
+
+  .get("/posts/spam", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await ModerationService.listPostQueue(authenticatedUser.id, "spam", {
+      page: Number(query.page) || 1,
+      limit: Math.min(Number(query.limit) || 20, 100),
+      communitySlug: query.community || undefined,
+    });
+  })
+
+  .get("/comments/spam", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await ModerationService.listSpamComments(authenticatedUser.id, {
+      page: Number(query.page) || 1,
+      limit: Math.min(Number(query.limit) || 20, 100),
+      communitySlug: query.community || undefined,
+    });
+  })
+
+  .post(
+    "/posts/:id/approve",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.approvePost(
+        authenticatedUser.id,
+        params.id,
+        body?.reason
+      );
+    },
+    {
+      body: optionalModerationReasonSchema,
+    }
+  )
+
+  .post(
+    "/posts/:id/remove",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.removePost(
+        authenticatedUser.id,
+        params.id,
+        body.reason
+      );
+    },
+    {
+      body: moderationReasonSchema,
+    }
+  )
+
+  .post(
+    "/comments/:id/approve",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.approveComment(
+        authenticatedUser.id,
+        params.id,
+        body?.reason
+      );
+    },
+    {
+      body: optionalModerationReasonSchema,
+    }
+  )
+
+  .post(
+    "/comments/:id/remove",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.removeComment(
+        authenticatedUser.id,
+        params.id,
+        body.reason
+      );
+    },
+    {
+      body: moderationReasonSchema,
+    }
+  )
+
+  .post(
+    "/posts/:id/lock",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.lockPost(
+        authenticatedUser.id,
+        params.id,
+        true,
+        body?.reason
+      );
+    },
+    {
+      body: optionalModerationReasonSchema,
+    }
+  )
+
+  .post(
+    "/posts/:id/unlock",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.lockPost(
+        authenticatedUser.id,
+        params.id,
+        false,
+        body?.reason
+      );
+    },
+    {
+      body: optionalModerationReasonSchema,
+    }
+  )
+
+  .post(
+    "/posts/:id/pin",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.pinPost(
+        authenticatedUser.id,
+        params.id,
+        true,
+        body?.reason
+      );
+    },
+    {
+      body: optionalModerationReasonSchema,
+    }
+  )
+
+  .post(
+    "/posts/:id/unpin",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ModerationService.pinPost(
+        authenticatedUser.id,
+        params.id,
+        false,
+        body?.reason
+      );
+    },
+    {
+      body: optionalModerationReasonSchema,
+    }
+  );
+
+export default moderationRouter;
@@ -0,0 +1,109 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { checkCommunityPermission } from "@/middleware/rolePermission";
+import { CommunityModeratorService } from "@/services/communityModeratorService";
+import {
+  CommunityService,
+  normalizePermissions,
+} from "@/services/communityService";
+import {
+  addModeratorSchema,
+  updateModeratorSchema,
+} from "@/types/community/community";
+
+export const communityModeratorsRouter = new Elysia({
+  prefix: "/communities",
+})
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .get("/:slug/moderators", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await CommunityModeratorService.listModerators(params.slug);
+  })
+
+  // Outside the guard so moderators without canManageModerators can still
+  // step down; removing anyone else needs the permission
+  .delete(
+    "/:slug/moderators/:userId",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const community = await CommunityService.getCommunityBySlug(params.slug);
+      const permissions = await CommunityService.getPermissions(
+        authenticatedUser.id,
+        community
+      );
+
+      if (
+        params.userId !== authenticatedUser.id &&
+        !permissions?.canManageModerators
+      ) {
+        throw new AuthError(
+          403,
+          "Missing required permission: canManageModerators"
+        );
+      }
+
+      return await CommunityModeratorService.removeModerator(
+        authenticatedUser.id,
+        permissions ?? normalizePermissions(null),
+        community,
+        params.userId
+      );
+    }
+  )
+
+  // Routes below require the canManageModerators permission
+  .use(checkCommunityPermission("canManageModerators"))
+
+  .post(
+    "/:slug/moderators",
+    async ({
+      body,
+      set,
+      authenticatedUser,
+      community,
+      communityPermissions,
+    }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const moderator = await CommunityModeratorService.addModerator(
+        authenticatedUser.id,
+        communityPermissions,
+        community,
+        body
+      );
+      set.status = 201;
+      return moderator;
+    },
+    {
+      body: addModeratorSchema,
+    }
+  )
+
+  .patch(
+    "/:slug/moderators/:userId",
+    async ({
+      params,
+      body,
+      authenticatedUser,
+      community,
+      communityPermissions,
+    }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await CommunityModeratorService.updateModeratorPermissions(
+        authenticatedUser.id,
+        communityPermissions,
+        community,
+        params.userId,
+        body.permissions
+      );
+    },
+    {
+      body: updateModeratorSchema,
+    }
+  );
@@ -0,0 +1,134 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { PostService } from "@/services/postService";
+import { PollService } from "@/services/pollService";
+import { VoteService } from "@/services/voteService";
+import { SavedPostService } from "@/services/savedPostService";
+import { voteSchema } from "@/types/community/vote";
+import { savePostSchema } from "@/types/community/savedPost";
+import {
+  createPostSchema,
+  pollVoteSchema,
+  updatePostSchema,
+} from "@/types/community/post";
+
+export const postsRouter = new Elysia({ prefix: "/posts" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .post(
+    "/",
+    async ({ body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await PostService.createPost(authenticatedUser.id, body);
+    },
+    {
+      body: createPostSchema,
+    }
+  )
+
+  .get("/:id", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await PostService.getPost(authenticatedUser.id, params.id);
+  })
+
+  .patch(
+    "/:id",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await PostService.updatePost(
+        authenticatedUser.id,
+        params.id,
+        body
+      );
+    },
+    {
+      body: updatePostSchema,
+    }
+  )
+
+  .delete("/:id", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await PostService.deletePost(authenticatedUser.id, params.id);
+  })
+
+  // Casting the opposite value switches an existing vote
+  .post(
+    "/:id/vote",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await VoteService.castVote(
+        authenticatedUser.id,
+        "post",
+        params.id,
+        body.value
+      );
+    },
+    {
+      body: voteSchema,
+    }
+  )
+
+  .delete("/:id/vote", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await VoteService.castVote(
+      authenticatedUser.id,
+      "post",
+      params.id,
+      0
+    );
+  })
+
+  .post(
+    "/:id/save",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await SavedPostService.savePost(
+        authenticatedUser.id,
+        params.id,
+        body?.category
+      );
+    },
+    {
+      body: savePostSchema,
+    }
+  )
+
+  .delete("/:id/save", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await SavedPostService.unsavePost(authenticatedUser.id, params.id);
+  })
+
+  // Live tallies; hidden until the deadline when the poll asks for it
+  .get("/:id/poll", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await PollService.getResults(authenticatedUser.id, params.id);
+  })
+
+  .post(
+    "/:id/poll/vote",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await PollService.castVote(
+        authenticatedUser.id,
+        params.id,
+        body.optionIds
+      );
+    },
+    {
+      body: pollVoteSchema,
+    }
+  );
+
+export default postsRouter;
@@ -0,0 +1,85 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { ReportService } from "@/services/reportService";
+import {
+  createReportSchema,
+  ReportStatus,
+  reviewReportSchema,
+} from "@/types/community/moderation";
+
+const REPORT_STATUSES: ReportStatus[] = ["pending", "resolved", "rejected"];
+
+export const reportsRouter = new Elysia()
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .post(
+    "/reports",
+    async ({ body, set, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const report = await ReportService.submitReport(
+        authenticatedUser.id,
+        body
+      );
+
+      set.status = 201;
+      return report;
+    },
+    {
+      body: createReportSchema,
+    }
+  )
+
+  // Queue for the communities the caller moderates; ?community=slug narrows it
+  .get("/moderation/reports", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    const status = REPORT_STATUSES.includes(query.status as ReportStatus)
+      ? (query.status as ReportStatus)
+      : "pending";
+
+    return await ReportService.getQueue(authenticatedUser.id, {
+      page: Number(query.page) || 1,
+      limit: Math.min(Number(query.limit) || 20, 100),
+      status,
+      communitySlug: query.community || undefined,
+    });
+  })
+
+  .post(
+    "/moderation/reports/:id/resolve",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ReportService.reviewReport(
+        authenticatedUser.id,
+        params.id,
+        "resolved",
+        body.resolution
+      );
+    },
+    {
+      body: reviewReportSchema,
+    }
+  )
+
+  .post(
+    "/moderation/reports/:id/reject",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await ReportService.reviewReport(
+        authenticatedUser.id,
+        params.id,
+        "rejected",
+        body.resolution
+      );
+    },
+    {
+      body: reviewReportSchema,
+    }
+  );
+
+export default reportsRouter;
@@ -0,0 +1,125 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { CommunityError, CommunityService } from "@/services/communityService";
+import { ModerationService } from "@/services/moderationService";
+import { sanctionService } from "@/services/sanctionService";
+import { banUserSchema, muteUserSchema } from "@/types/community/moderation";
+import { validation } from "@/utils/security";
+
+export const communitySanctionsRouter = new Elysia({ prefix: "/communities" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .get("/:slug/bans", async ({ params, query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await sanctionService.listSanctions(
+      authenticatedUser.id,
+      params.slug,
+      "ban",
+      {
+        page: Number(query.page) || 1,
+        limit: Math.min(Number(query.limit) || 20, 100),
+      }
+    );
+  })
+
+  .post(
+    "/:slug/bans",
+    async ({ params, body, set, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const community = await CommunityService.getCommunityBySlug(params.slug);
+      const result = await ModerationService.banUser(
+        authenticatedUser.id,
+        community,
+        body.userId,
+        body.reason,
+        body.expiresAt ? new Date(body.expiresAt) : null
+      );
+
+      set.status = 201;
+      return result;
+    },
+    {
+      body: banUserSchema,
+    }
+  )
+
+  // ?reason= is recorded in the moderation log
+  .delete(
+    "/:slug/bans/:userId",
+    async ({ params, query, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      if (!validation.isValidObjectId(params.userId)) {
+        throw new CommunityError(400, "Invalid user id");
+      }
+
+      const community = await CommunityService.getCommunityBySlug(params.slug);
+      return await ModerationService.unbanUser(
+        authenticatedUser.id,
+        community,
+        params.userId,
+        query.reason || undefined
+      );
+    }
+  )
+
+  .get("/:slug/mutes", async ({ params, query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await sanctionService.listSanctions(
+      authenticatedUser.id,
+      params.slug,
+      "mute",
+      {
+        page: Number(query.page) || 1,
+        limit: Math.min(Number(query.limit) || 20, 100),
+      }
+    );
+  })
+
+  .post(
+    "/:slug/mutes",
+    async ({ params, body, set, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const community = await CommunityService.getCommunityBySlug(params.slug);
+      const result = await ModerationService.muteUser(
+        authenticatedUser.id,
+        community,
+        body.userId,
+        body.reason,
+        new Date(body.expiresAt)
+      );
+
+      set.status = 201;
+      return result;
+    },
+    {
+      body: muteUserSchema,
+    }
+  )
+
+  .delete(
+    "/:slug/mutes/:userId",
+    async ({ params, query, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      if (!validation.isValidObjectId(params.userId)) {
+        throw new CommunityError(400, "Invalid user id");
+      }
+
+      const community = await CommunityService.getCommunityBySlug(params.slug);
+      return await ModerationService.unmuteUser(
+        authenticatedUser.id,
+        community,
+        params.userId,
+        query.reason || undefined
+      );
+    }
+  );
+
+export default communitySanctionsRouter;
@@ -3,8 +3,17 @@ import { authPlugin } from "@/middleware/authPlugin";
 import { s3DatasetService } from "@/services/s3DatasetService";
 import { logger } from "@/utils/monitor";
 import prisma from "@/middleware/prismaclient";
-import { Prisma } from "@prisma/client";
 import DatasetVersioningService from "@/services/datasetVersioningService";
+import { datasetSearchIndex } from "@/services/datasetSearchIndex";
+import { datasetProfiler } from "@/services/datasetProfiler";
+import { DatasetPreviewService } from "@/services/datasetPreviewService";
+import { previewQuerySchema } from "@/types/dataset/preview";
+import { DatasetQueryService } from "@/services/datasetQueryService";
+import { DatasetQueryInput, datasetQuerySchema } from "@/types/dataset/query";
+import { DatasetCardService } from "@/services/datasetCardService";
+import { datasetCardSchema } from "@/types/dataset/card";
+import { validation } from "@/utils/security";
+import { AppError } from "@/utils/errorHandler";
 
 interface AuthenticatedUser {
   id: string;
@@ -15,9 +24,25 @@ interface RequestParams {
   id: string;
 }
 
+interface FileParams extends RequestParams {
+  fileId: string;
+}
+
+interface PreviewQuery {
+  offset?: string;
+  limit?: string;
+  columns?: string;
+  sample?: string;
+}
+
 interface SearchQuery {
   q?: string;
+  fileType?: string;
+  // Older name for fileType
   type?: string;
+  tag?: string;
+  license?: string;
+  accessibility?: string;
   page?: string;
   limit?: string;
 }
@@ -76,11 +101,30 @@ async function checkDatasetAccess(
   }
 }
 
+// Public datasets are readable by anyone, private ones only by their owner
+async function checkDatasetReadAccess(
+  datasetId: string,
+  viewerAddress?: string
+) {
+  const dataset = validation.isValidObjectId(datasetId)
+    ? await prisma.dataset.findUnique({ where: { id: datasetId } })
+    : null;
+  if (!dataset) throw new AppError("Dataset not found", 404);
+  if (
+    dataset.accessibility.toLowerCase() !== "public" &&
+    dataset.userWalletAddress !== viewerAddress
+  ) {
+    throw new AppError("Access denied", 403);
+  }
+  return dataset;
+}
+
 const createDatasetSchema = t.Object({
   title: t.String(),
   description: t.Optional(t.String()),
   accessibility: t.String(),
   tags: t.Array(t.String()),
+  card: t.Optional(datasetCardSchema),
 });
 
 const updateDatasetSchema = t.Object({
@@ -88,6 +132,8 @@ const updateDatasetSchema = t.Object({
   description: t.Optional(t.String({ maxLength: 1000 })),
   tags: t.Optional(t.Array(t.String())),
   accessibility: t.Optional(t.String()),
+  // Replaces the whole card; omitted card fields are cleared
+  card: t.Optional(datasetCardSchema),
 });
 
 export const datasetsRouter = new Elysia({ prefix: "/datasets" })
@@ -142,13 +188,16 @@ export const datasetsRouter = new Elysia({ prefix: "/datasets" })
       body: typeof createDatasetSchema._type;
       authenticatedUser: AuthenticatedUser;
     }) => {
-      return await prisma.$transaction(async (tx) => {
+      const created = await prisma.$transaction(async (tx) => {
         const dataset = await tx.dataset.create({
           data: {
             title: body.title,
             description: body.description,
             accessibility: body.accessibility,
             tags: body.tags,
+            card: body.card
+              ? DatasetCardService.toJson(DatasetCardService.normalize(body.card))
+              : undefined,
             userWalletAddress: authenticatedUser.walletAddress,
           },
         });
@@ -163,15 +212,21 @@ export const datasetsRouter = new Elysia({ prefix: "/datasets" })
 
         return dataset;
       });
+
+      await datasetSearchIndex.indexDataset(created.id);
+      return created;
     }
   )
   .post("/:id/versions", async ({ params, body, authenticatedUser }) => {
     const service = new DatasetVersioningService();
-    return await service.createVersion(
+    const version = await service.createVersion(
       authenticatedUser.walletAddress,
       params.id,
       body
     );
+
+    await datasetSearchIndex.indexDataset(params.id);
+    return version;
   }, {
     body: createVersionSchema
   })
@@ -257,11 +312,14 @@ export const datasetsRouter = new Elysia({ prefix: "/datasets" })
   })
   .post("/:id/fork", async ({ params, body, authenticatedUser }) => {
     const service = new DatasetVersioningService();
-    return await service.forkDataset(
+    const fork = await service.forkDataset(
       authenticatedUser.walletAddress,
       params.id,
       body.version
     );
+
+    await datasetSearchIndex.indexDataset(fork.id);
+    return fork;
   }, {
     body: t.Object({
       version: t.String()
@@ -313,6 +371,19 @@ export const datasetsRouter = new Elysia({ prefix: "/datasets" })
           },
         });
 
+        // File names and types feed the search index
+        await datasetSearchIndex.indexDataset(dataset.id);
+
+        const files = await prisma.file.findMany({
+          where: {
+            datasetId: dataset.id,
+            storageKey: { in: body.files.map((file) => file.storageKey) },
+          },
+          select: { id: true },
+        });
+        // Profiling runs in the background; results land in File.metadata
+        void datasetProfiler.enqueue(files.map((file) => file.id));
+
         return dataset;
       } catch (error) {
         logger.error("Error completing dataset upload:", error);
@@ -403,54 +474,143 @@ export const datasetsRouter = new Elysia({ prefix: "/datasets" })
     }
   })
 
-  .get("/search", async ({ query }: { query: SearchQuery }) => {
-    try {
-      const search = query.q || "";
-      const type = query.type;
-      const page = Number(query.page) || 1;
-      const limit = Number(query.limit) || 10;
+  .get(
+    "/:id/card",
+    async ({
+      params,
+      authenticatedUser,
+    }: {
+      params: RequestParams;
+      authenticatedUser?: AuthenticatedUser;
+    }) => {
+      const dataset = await checkDatasetReadAccess(
+        params.id,
+        authenticatedUser?.walletAddress
+      );
+      return DatasetCardService.parse(dataset.card);
+    }
+  )
 
-      const where: Prisma.DatasetWhereInput = {
-        OR: [
-          { title: { contains: search, mode: "insensitive" } },
-          { description: { contains: search, mode: "insensitive" } },
-          { tags: { hasSome: [search] } },
-        ],
-        ...(type && {
-          files: { some: { contentType: { startsWith: type } } },
-        }),
-      };
+  .get(
+    "/:id/files/:fileId/schema",
+    async ({
+      params,
+      authenticatedUser,
+      set,
+    }: {
+      params: FileParams;
+      authenticatedUser?: AuthenticatedUser;
+      set: { status?: number | string };
+    }) => {
+      await checkDatasetReadAccess(params.id, authenticatedUser?.walletAddress);
 
-      const [datasets, total] = await Promise.all([
-        prisma.dataset.findMany({
-          where,
-          include: {
-            user: {
-              select: {
-                name: true,
-                walletAddress: true,
-              },
-            },
-          },
-          take: limit,
-          skip: (page - 1) * limit,
-        }),
-        prisma.dataset.count({ where }),
-      ]);
+      const profile = validation.isValidObjectId(params.fileId)
+        ? await datasetProfiler.getProfile(params.id, params.fileId)
+        : null;
+      if (!profile) throw new AppError("File not found", 404);
 
-      return {
-        datasets,
-        pagination: {
-          total,
-          page,
-          pages: Math.ceil(total / limit),
-        },
-      };
-    } catch (error) {
-      logger.error("Error searching datasets:", error);
-      throw error;
+      if (profile.status === "pending") set.status = 202;
+      return profile;
     }
-  })
+  )
+
+  .get(
+    "/:id/files/:fileId/preview",
+    async ({
+      params,
+      query,
+      authenticatedUser,
+    }: {
+      params: FileParams;
+      query: PreviewQuery;
+      authenticatedUser?: AuthenticatedUser;
+    }) => {
+      await checkDatasetReadAccess(params.id, authenticatedUser?.walletAddress);
+
+      const file = validation.isValidObjectId(params.fileId)
+        ? await prisma.file.findFirst({
+            where: { id: params.fileId, datasetId: params.id },
+          })
+        : null;
+      if (!file) throw new AppError("File not found", 404);
+
+      const columns = query.columns
+        ?.split(",")
+        .map((column) => column.trim())
+        .filter(Boolean);
+
+      return await DatasetPreviewService.previewFile(file, {
+        offset: Math.max(Number(query.offset) || 0, 0),
+        limit: Math.max(Number(query.limit) || 50, 1),
+        columns: columns?.length ? columns : undefined,
+        sample: query.sample === "true",
+      });
+    },
+    {
+      query: previewQuerySchema,
+    }
+  )
+
+  .post(
+    "/:id/query",
+    async ({
+      params,
+      body,
+      authenticatedUser,
+      set,
+    }: {
+      params: RequestParams;
+      body: DatasetQueryInput;
+      authenticatedUser?: AuthenticatedUser;
+      set: { headers: Record<string, string> };
+    }) => {
+      await checkDatasetReadAccess(params.id, authenticatedUser?.walletAddress);
+
+      const result = await DatasetQueryService.runQuery(
+        params.id,
+        body.sql,
+        body.version
+      );
+
+      if (body.format === "csv") {
+        set.headers["content-type"] = "text/csv; charset=utf-8";
+        return DatasetQueryService.toCsv(result);
+      }
+      return result;
+    },
+    {
+      body: datasetQuerySchema,
+    }
+  )
+
+  .get(
+    "/search",
+    async ({
+      query,
+      authenticatedUser,
+    }: {
+      query: SearchQuery;
+      authenticatedUser?: AuthenticatedUser;
+    }) => {
+      try {
+        return await datasetSearchIndex.search({
+          query: query.q || "",
+          viewerAddress: authenticatedUser?.walletAddress,
+          filters: {
+            fileType: query.fileType || query.type,
+            tag: query.tag,
+            license: query.license,
+            accessibility: query.accessibility,
+          },
+          page: Number(query.page) || 1,
+          limit: Math.min(Number(query.limit) || 10, 100),
+        });
+      } catch (error) {
+        logger.error("Error searching datasets:", error);
+        throw error;
+      }
+    }
+  )
 
   .delete(
     "/:id",
@@ -462,10 +622,13 @@ export const datasetsRouter = new Elysia({ prefix: "/datasets" })
       authenticatedUser: AuthenticatedUser;
     }) => {
       await checkDatasetAccess(params.id, authenticatedUser.walletAddress);
-      return prisma.$transaction([
+      const result = await prisma.$transaction([
         prisma.file.deleteMany({ where: { datasetId: params.id } }),
         prisma.dataset.delete({ where: { id: params.id } }),
       ]);
+
+      await datasetSearchIndex.removeDataset(params.id);
+      return result;
     }
   )
 
@@ -481,10 +644,19 @@ export const datasetsRouter = new Elysia({ prefix: "/datasets" })
       authenticatedUser: AuthenticatedUser;
     }) => {
       await checkDatasetAccess(params.id, authenticatedUser.walletAddress);
-      return prisma.dataset.update({
+      const { card, ...fields } = body;
+      const dataset = await prisma.dataset.update({
         where: { id: params.id },
-        data: body,
+        data: {
+          ...fields,
+          card: card
+            ? DatasetCardService.toJson(DatasetCardService.normalize(card))
+            : undefined,
+        },
       });
+
+      await datasetSearchIndex.indexDataset(dataset.id);
+      return dataset;
     },
     {
       body: updateDatasetSchema,
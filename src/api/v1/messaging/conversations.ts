@@ -1,6 +1,7 @@
 import { Elysia, t } from "elysia";
 import { MessagingService } from "@/services/messagingService";
 import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { CommunityError } from "@/services/communityService";
 import { logger } from "@/utils/monitor";
 import {
   AuthenticatedRequest,
@@ -29,7 +30,10 @@ export const messagingRouter = new Elysia({ prefix: "/messages" })
           authenticatedUser.walletAddress,
           body.participants,
           body.isGroup,
-          body.groupName
+          body.groupName,
+          undefined,
+          undefined,
+          body.communityId
         );
       } catch (error) {
         requestLogger.error("Error creating conversation:", error);
@@ -41,6 +45,8 @@ export const messagingRouter = new Elysia({ prefix: "/messages" })
         participants: t.Array(t.String()),
         isGroup: t.Optional(t.Boolean()),
         groupName: t.Optional(t.String()),
+        // Makes the conversation subject to the community's bans and mutes
+        communityId: t.Optional(t.String({ pattern: "^[a-f0-9]{24}$" })),
       }),
     }
   )
@@ -171,6 +177,16 @@ export const messagingRouter = new Elysia({ prefix: "/messages" })
       return { error: error.message };
     }
 
+    // Community sanctions on community-linked conversations
+    if (error instanceof CommunityError) {
+      errorLogger.warn("Community error in messaging", {
+        statusCode: error.statusCode,
+        message: error.message,
+      });
+      set.status = error.statusCode;
+      return { error: error.message };
+    }
+
     errorLogger.error("Unexpected error in messaging router", {
       error:
         error instanceof Error
@@ -0,0 +1,77 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { SearchService } from "@/services/searchService";
+import {
+  autocompleteQuerySchema,
+  searchQuerySchema,
+} from "@/types/search/search";
+
+export const searchRouter = new Elysia({ prefix: "/search" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  // ?q=&type=posts,users&community=slug&from=&to=&tags=a,b
+  .get(
+    "/",
+    async ({ query, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await SearchService.search(authenticatedUser.id, {
+        query: query.q,
+        types: SearchService.parseTypes(query.type),
+        communitySlug: query.community || undefined,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+        tags: query.tags
+          ?.split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+        page: Number(query.page) || 1,
+        limit: Math.min(Number(query.limit) || 20, 100),
+      });
+    },
+    {
+      query: searchQuerySchema,
+    }
+  )
+
+  .get(
+    "/autocomplete",
+    async ({ query, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await SearchService.autocomplete(
+        authenticatedUser.id,
+        query.q,
+        Math.min(Number(query.limit) || 10, 25)
+      );
+    },
+    {
+      query: autocompleteQuerySchema,
+    }
+  )
+
+  .get("/history", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await SearchService.listHistory(authenticatedUser.id, {
+      page: Number(query.page) || 1,
+      limit: Math.min(Number(query.limit) || 20, 100),
+    });
+  })
+
+  .delete("/history", async ({ authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await SearchService.clearHistory(authenticatedUser.id);
+  })
+
+  .delete("/history/:id", async ({ params, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await SearchService.deleteHistoryEntry(
+      authenticatedUser.id,
+      params.id
+    );
+  });
@@ -0,0 +1,48 @@
+import { Elysia, t } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { BlockService } from "@/services/blockService";
+import { blockUserSchema } from "@/types/userProfile/block";
+
+export const blocksRouter = new Elysia({ prefix: "/user" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .get("/blocked", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await BlockService.listBlocked(authenticatedUser.id, {
+      page: Number(query.page) || 1,
+      limit: Math.min(Number(query.limit) || 20, 100),
+    });
+  })
+
+  .post(
+    "/profile/:walletAddress/block",
+    async ({ params, body, set, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const block = await BlockService.blockUser(
+        authenticatedUser.id,
+        params.walletAddress,
+        body?.reason
+      );
+      set.status = 201;
+      return block;
+    },
+    {
+      body: t.Optional(blockUserSchema),
+    }
+  )
+
+  .delete(
+    "/profile/:walletAddress/block",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await BlockService.unblockUser(
+        authenticatedUser.id,
+        params.walletAddress
+      );
+    }
+  );
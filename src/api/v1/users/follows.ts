@@ -0,0 +1,84 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { FollowService } from "@/services/followService";
+
+export const followsRouter = new Elysia({ prefix: "/user" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  .get("/suggestions", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await FollowService.getSuggestions(
+      authenticatedUser.id,
+      Math.min(Number(query.limit) || 10, 50)
+    );
+  })
+
+  .get(
+    "/profile/:walletAddress/followers",
+    async ({ params, query, authenticatedUser }) => {
+      return await FollowService.listFollowers(
+        authenticatedUser?.id,
+        params.walletAddress,
+        {
+          page: Number(query.page) || 1,
+          limit: Math.min(Number(query.limit) || 20, 100),
+        }
+      );
+    }
+  )
+
+  .get(
+    "/profile/:walletAddress/following",
+    async ({ params, query, authenticatedUser }) => {
+      return await FollowService.listFollowing(
+        authenticatedUser?.id,
+        params.walletAddress,
+        {
+          page: Number(query.page) || 1,
+          limit: Math.min(Number(query.limit) || 20, 100),
+        }
+      );
+    }
+  )
+
+  // Whether the viewer and the profile follow each other
+  .get(
+    "/profile/:walletAddress/relationship",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await FollowService.getRelationship(
+        authenticatedUser.id,
+        params.walletAddress
+      );
+    }
+  )
+
+  .post(
+    "/profile/:walletAddress/follow",
+    async ({ params, set, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      const follow = await FollowService.follow(
+        authenticatedUser.id,
+        params.walletAddress
+      );
+      set.status = 201;
+      return follow;
+    }
+  )
+
+  .delete(
+    "/profile/:walletAddress/follow",
+    async ({ params, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await FollowService.unfollow(
+        authenticatedUser.id,
+        params.walletAddress
+      );
+    }
+  );
@@ -0,0 +1,79 @@
+import { Elysia } from "elysia";
+import { authPlugin, AuthError } from "@/middleware/authPlugin";
+import { communityErrorHandler } from "@/middleware/communityErrorHandler";
+import { SavedPostService } from "@/services/savedPostService";
+import {
+  mergeSavedCategoriesSchema,
+  renameSavedCategorySchema,
+} from "@/types/community/savedPost";
+
+export const savedPostsRouter = new Elysia({ prefix: "/saved" })
+  .use(authPlugin)
+  .use(communityErrorHandler)
+
+  // ?category=name, or ?category= for uncategorized bookmarks
+  .get("/", async ({ query, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await SavedPostService.listSaved(authenticatedUser.id, {
+      page: Number(query.page) || 1,
+      limit: Math.min(Number(query.limit) || 20, 100),
+      category:
+        query.category === undefined ? undefined : query.category || null,
+    });
+  })
+
+  .get("/categories", async ({ authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    return await SavedPostService.listCategories(authenticatedUser.id);
+  })
+
+  .patch(
+    "/categories/:name",
+    async ({ params, body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await SavedPostService.renameCategory(
+        authenticatedUser.id,
+        decodeURIComponent(params.name),
+        body.name
+      );
+    },
+    {
+      body: renameSavedCategorySchema,
+    }
+  )
+
+  .post(
+    "/categories/merge",
+    async ({ body, authenticatedUser }) => {
+      if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+      return await SavedPostService.mergeCategories(
+        authenticatedUser.id,
+        body.sources,
+        body.target
+      );
+    },
+    {
+      body: mergeSavedCategoriesSchema,
+    }
+  )
+
+  // Downloads every bookmark as JSON (default) or CSV
+  .get("/export", async ({ query, set, authenticatedUser }) => {
+    if (!authenticatedUser) throw new AuthError(401, "Unauthorized");
+
+    const format = query.format === "csv" ? "csv" : "json";
+
+    set.headers["content-type"] =
+      format === "csv" ? "text/csv; charset=utf-8" : "application/json";
+    set.headers[
+      "content-disposition"
+    ] = `attachment; filename="saved-posts.${format}"`;
+
+    return await SavedPostService.exportSaved(authenticatedUser.id, format);
+  });
+
+export default savedPostsRouter;
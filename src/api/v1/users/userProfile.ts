@@ -255,10 +255,21 @@ export const userProfileRouter = new Elysia({ prefix: "/user" })
       });
 
       try {
+        // Users blocked by the profile owner only get the basic profile
+        const isBlocked = authenticatedUser
+          ? !!(await prisma.blockedUser.findFirst({
+              where: {
+                blocker: { walletAddress: params.walletAddress },
+                blockedId: authenticatedUser.id,
+              },
+              select: { id: true },
+            }))
+          : false;
+
         // Check cache for public profile
         const cacheKey = `public_${params.walletAddress}`;
         const cached = profileCache.get(cacheKey);
-        if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+        if (!isBlocked && cached && Date.now() - cached.timestamp < CACHE_TTL) {
           const duration = perf.end();
           requestLogger.info("User public profile GET - Cache hit", {
             duration,
@@ -304,6 +315,8 @@ export const userProfileRouter = new Elysia({ prefix: "/user" })
                 projects: true,
                 posts: true,
                 comments: true,
+                followers: true,
+                following: true,
               },
             },
           },
@@ -333,11 +346,13 @@ export const userProfileRouter = new Elysia({ prefix: "/user" })
             projects: profileUser._count.projects,
             posts: profileUser._count.posts,
             comments: profileUser._count.comments,
+            followers: profileUser._count.followers,
+            following: profileUser._count.following,
           },
         };
 
         let profile;
-        if (isOwnProfile || isPublic) {
+        if (!isBlocked && (isOwnProfile || isPublic)) {
           profile = {
             ...publicProfile,
             chainId: profileUser.chainId,
@@ -368,10 +383,12 @@ export const userProfileRouter = new Elysia({ prefix: "/user" })
         });
 
         // Update cache
-        profileCache.set(cacheKey, {
-          data: redactedProfile,
-          timestamp: Date.now(),
-        });
+        if (!isBlocked) {
+          profileCache.set(cacheKey, {
+            data: redactedProfile,
+            timestamp: Date.now(),
+          });
+        }
 
         const duration = perf.end();
         requestLogger.info("User public profile GET - Success", {
@@ -197,6 +197,16 @@ const validateUserSettings = (input: unknown): UserSettingsInput => {
     }
   }
 
+  if ("showNSFW" in inputObj) {
+    const showNSFW = inputObj.showNSFW;
+    if (showNSFW !== undefined) {
+      if (typeof showNSFW !== "boolean") {
+        throw new Error("showNSFW must be a boolean");
+      }
+      result.showNSFW = showNSFW;
+    }
+  }
+
   // Handle twoFactorEnabled
   if ("twoFactorEnabled" in inputObj) {
     const twoFactor = inputObj.twoFactorEnabled;
@@ -260,6 +270,7 @@ export const userSettingsRouter = new Elysia()
           chainId: true,
           language: true,
           theme: true,
+          showNSFW: true,
           githubProfileLink: true,
           xProfileLink: true,
           notificationPreferences: true,
@@ -361,6 +372,7 @@ export const userSettingsRouter = new Elysia()
             chainId: true,
             language: true,
             theme: true,
+            showNSFW: true,
             githubProfileLink: true,
             xProfileLink: true,
             discordProfileLink: true,
@@ -482,6 +494,7 @@ export const userSettingsRouter = new Elysia()
             chainId: true,
             language: true,
             theme: true,
+            showNSFW: true,
             githubProfileLink: true,
             xProfileLink: true,
             discordProfileLink: true,
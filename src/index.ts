@@ -19,6 +19,23 @@ import { publicOrganizationRouter } from "./api/v1/organization/organization";
 import { organizationSettingsRouter } from "./api/v1/organization/organizationSettings";
 import { userNotificationsRouter } from "./api/v1/users/notifications";
 import messagingRouter from "./api/v1/messaging/conversations";
+import { communitiesRouter } from "./api/v1/communities/communities";
+import { communityMembersRouter } from "./api/v1/communities/members";
+import { postsRouter } from "./api/v1/communities/posts";
+import { commentsRouter } from "./api/v1/communities/comments";
+import { feedsRouter } from "./api/v1/communities/feeds";
+import { savedPostsRouter } from "./api/v1/users/savedPosts";
+import { reportsRouter } from "./api/v1/communities/reports";
+import { moderationRouter } from "./api/v1/communities/moderation";
+import { communitySanctionsRouter } from "./api/v1/communities/sanctions";
+import { autoModRouter } from "./api/v1/communities/automod";
+import { communityModeratorsRouter } from "./api/v1/communities/moderators";
+import { followsRouter } from "./api/v1/users/follows";
+import { blocksRouter } from "./api/v1/users/blocks";
+import { searchRouter } from "./api/v1/search/search";
+import { tokenGateService } from "./services/tokenGateService";
+import { sanctionService } from "./services/sanctionService";
+import { datasetSearchIndex } from "./services/datasetSearchIndex";
 
 dotenv.config();
 
@@ -121,6 +138,10 @@ async function startServer() {
   });
 
   await connectPrisma();
+  tokenGateService.startPeriodicVerification();
+  sanctionService.startSweeper();
+  // Loads in the background; searches wait for it to finish
+  datasetSearchIndex.load();
 
   const app = new Elysia()
     .use(cors())
@@ -183,6 +204,20 @@ async function startServer() {
         .use(organizationSettingsRouter)
         .use(userNotificationsRouter)
         .use(messagingRouter)
+        .use(communitiesRouter)
+        .use(communityMembersRouter)
+        .use(postsRouter)
+        .use(commentsRouter)
+        .use(feedsRouter)
+        .use(savedPostsRouter)
+        .use(reportsRouter)
+        .use(moderationRouter)
+        .use(communitySanctionsRouter)
+        .use(autoModRouter)
+        .use(communityModeratorsRouter)
+        .use(followsRouter)
+        .use(blocksRouter)
+        .use(searchRouter)
     )
     .onError(({ code, error, request, store }) => {
       const errorLogger = (store as any)?.requestLogger || logger;
@@ -259,6 +294,8 @@ const shutdown = async (signal: string) => {
   logger.info(`Received ${signal}, starting graceful shutdown`);
 
   try {
+    tokenGateService.stopPeriodicVerification();
+    sanctionService.stopSweeper();
     await prisma.$disconnect();
     const duration = shutdownPerf.end();
 
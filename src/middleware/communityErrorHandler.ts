@@ -0,0 +1,31 @@
+import { Elysia } from "elysia";
+import { logger } from "@/utils/monitor";
+import { AuthError } from "./authPlugin";
+import { CommunityError } from "@/services/communityService";
+
+// Shared by every community-facing router so domain errors keep their status
+export const communityErrorHandler = new Elysia().onError(
+  { as: "scoped" },
+  ({ code, error, set }) => {
+    if (code === "VALIDATION") {
+      set.status = 400;
+      return { error: error.message };
+    }
+
+    if (error instanceof CommunityError || error instanceof AuthError) {
+      set.status = error.statusCode;
+      return { error: error.message };
+    }
+
+    logger.error("Unexpected error in community router", {
+      error:
+        error instanceof Error
+          ? { name: error.name, message: error.message, stack: error.stack }
+          : error,
+    });
+    set.status = 500;
+    return { error: "Internal Server Error" };
+  }
+);
+
+export default communityErrorHandler;
@@ -2,6 +2,8 @@ import { Elysia } from "elysia";
 import prisma from "./prismaclient";
 import { logger } from "../utils/monitor";
 import { AuthError } from "./authPlugin";
+import { CommunityService } from "@/services/communityService";
+import { CommunityPermission } from "@/types/community/community";
 
 type Permission =
   | "canInviteMembers"
@@ -65,3 +67,45 @@ export const checkPermission = (permission: Permission) => {
     };
   });
 };
+
+/**
+ * Community counterpart of checkPermission. Resolves the community from the
+ * `:slug` param and applies to the routes registered after it.
+ */
+export const checkCommunityPermission = (permission: CommunityPermission) => {
+  return new Elysia({
+    name: "checkCommunityPermission",
+    seed: permission,
+  }).derive({ as: "scoped" }, async (ctx) => {
+    const slug = (ctx.params as Record<string, string> | undefined)?.slug;
+
+    if (!slug) {
+      throw new AuthError(400, "Community slug is required");
+    }
+
+    const authenticatedUser = (ctx as any).authenticatedUser;
+    if (!authenticatedUser) {
+      throw new AuthError(401, "Authentication required");
+    }
+
+    const community = await CommunityService.getCommunityBySlug(slug);
+    const communityPermissions = await CommunityService.getPermissions(
+      authenticatedUser.id,
+      community
+    );
+
+    if (!communityPermissions?.[permission]) {
+      logger.warn("Community permission denied", {
+        userId: authenticatedUser.id,
+        communityId: community.id,
+        permission,
+      });
+      throw new AuthError(403, `Missing required permission: ${permission}`);
+    }
+
+    return {
+      community,
+      communityPermissions,
+    };
+  });
+};
@@ -0,0 +1,757 @@
+import { AutoModRule, Comment, Community, Post, Prisma } from "@prisma/client";
+import { RE2JS } from "re2js";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { validation } from "@/utils/security";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { ModerationService } from "./moderationService";
+import { NotificationType, SourceType } from "./userNotificationService";
+import { notificationService } from "@/types/notifications/notificaitons";
+import {
+  AUTOMOD_RULE_TYPES,
+  AutoModCondition,
+  AutoModDryRunInput,
+  AutoModField,
+  AutoModRuleType,
+  AutoModSubject,
+  CreateAutoModRuleInput,
+  UpdateAutoModRuleInput,
+} from "@/types/community/automod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CONDITION_DEPTH = 5;
+const MAX_COMBINATOR_CONDITIONS = 20;
+const MAX_KEYWORDS = 200;
+const MAX_PATTERN_LENGTH = 500;
+const ALLOWED_REGEX_FLAGS = /^[imsu]*$/;
+// Matching cost grows with the text, so only this much of it is checked
+const MAX_MATCH_TEXT_LENGTH = 50_000;
+const AUTOMOD_FIELDS: AutoModField[] = ["title", "content", "url"];
+const DEFAULT_FIELDS: AutoModField[] = ["title", "content"];
+const DEFAULT_DRY_RUN_LIMIT = 50;
+
+type AutoModTarget =
+  | { kind: "post"; post: Post }
+  | { kind: "comment"; comment: Comment };
+
+type RuleCommunity = Pick<Community, "id" | "name" | "slug" | "creatorId">;
+
+const escapeRegex = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const compiledPatterns = new Map<string, RE2JS>();
+
+/**
+ * Compiles a moderator-supplied pattern with RE2, which matches in linear
+ * time, so a pattern cannot stall the event loop with catastrophic
+ * backtracking. RE2 has no backreferences or lookaround; such patterns are
+ * rejected when the rule is saved. The u flag is accepted but RE2 always
+ * matches Unicode.
+ */
+const compilePattern = (pattern: string, flags = "") => {
+  const key = `${flags}/${pattern}`;
+  let compiled = compiledPatterns.get(key);
+  if (!compiled) {
+    compiled = RE2JS.compile(
+      RE2JS.translateRegExp(pattern),
+      (flags.includes("i") ? RE2JS.CASE_INSENSITIVE : 0) |
+        (flags.includes("m") ? RE2JS.MULTILINE : 0) |
+        (flags.includes("s") ? RE2JS.DOTALL : 0)
+    );
+    if (compiledPatterns.size > 1000) compiledPatterns.clear();
+    compiledPatterns.set(key, compiled);
+  }
+  return compiled;
+};
+
+const invalid = (message: string): never => {
+  throw new CommunityError(400, `Invalid AutoMod rule: ${message}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseFields = (value: unknown): AutoModField[] | undefined => {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    !value.length ||
+    !value.every((field) => AUTOMOD_FIELDS.includes(field))
+  ) {
+    return invalid(`fields must be a list of ${AUTOMOD_FIELDS.join(", ")}`);
+  }
+  return Array.from(new Set(value as AutoModField[]));
+};
+
+const parseBoolean = (value: unknown, name: string) => {
+  if (value !== undefined && typeof value !== "boolean") {
+    invalid(`${name} must be a boolean`);
+  }
+  return value as boolean | undefined;
+};
+
+export class AutoModService {
+  /**
+   * Validates a rule's type and untyped Json config into a condition tree,
+   * so stored rules can be trusted by the evaluator.
+   */
+  static parseCondition(
+    type: string,
+    config: unknown,
+    depth = 0
+  ): AutoModCondition {
+    if (depth > MAX_CONDITION_DEPTH) {
+      return invalid("conditions are nested too deeply");
+    }
+
+    if (!AUTOMOD_RULE_TYPES.includes(type as AutoModRuleType)) {
+      return invalid(`unknown rule type "${type}"`);
+    }
+
+    if (!isObject(config)) {
+      return invalid(`${type} config must be an object`);
+    }
+
+    switch (type as AutoModRuleType) {
+      case "keyword": {
+        const keywords = config.keywords;
+        if (
+          !Array.isArray(keywords) ||
+          !keywords.length ||
+          keywords.length > MAX_KEYWORDS ||
+          !keywords.every(
+            (keyword) =>
+              typeof keyword === "string" &&
+              keyword.trim().length > 0 &&
+              keyword.length <= 100
+          )
+        ) {
+          return invalid(
+            `keywords must be 1-${MAX_KEYWORDS} non-empty strings`
+          );
+        }
+        return {
+          type: "keyword",
+          config: {
+            keywords: (keywords as string[]).map((keyword) => keyword.trim()),
+            fields: parseFields(config.fields),
+            caseSensitive: parseBoolean(config.caseSensitive, "caseSensitive"),
+            wholeWord: parseBoolean(config.wholeWord, "wholeWord"),
+          },
+        };
+      }
+      case "regex": {
+        const { pattern, flags } = config;
+        if (
+          typeof pattern !== "string" ||
+          !pattern ||
+          pattern.length > MAX_PATTERN_LENGTH
+        ) {
+          return invalid(
+            `pattern must be a string of 1-${MAX_PATTERN_LENGTH} characters`
+          );
+        }
+        if (
+          flags !== undefined &&
+          (typeof flags !== "string" || !ALLOWED_REGEX_FLAGS.test(flags))
+        ) {
+          return invalid("flags may only contain i, m, s and u");
+        }
+        try {
+          compilePattern(pattern, flags as string | undefined);
+        } catch (error) {
+          return invalid(
+            `pattern is not supported (backreferences and lookaround are not allowed): ${
+              error instanceof Error ? error.message : error
+            }`
+          );
+        }
+        return {
+          type: "regex",
+          config: {
+            pattern,
+            flags: flags as string | undefined,
+            fields: parseFields(config.fields),
+          },
+        };
+      }
+      case "user_age": {
+        const { minDays } = config;
+        if (typeof minDays !== "number" || !(minDays >= 0)) {
+          return invalid("minDays must be a non-negative number");
+        }
+        return { type: "user_age", config: { minDays } };
+      }
+      case "karma_threshold": {
+        const { minKarma, scope } = config;
+        if (typeof minKarma !== "number" || !Number.isFinite(minKarma)) {
+          return invalid("minKarma must be a number");
+        }
+        if (
+          scope !== undefined &&
+          scope !== "global" &&
+          scope !== "community"
+        ) {
+          return invalid('scope must be "global" or "community"');
+        }
+        return { type: "karma_threshold", config: { minKarma, scope } };
+      }
+      case "all":
+      case "any": {
+        const { conditions } = config;
+        if (
+          !Array.isArray(conditions) ||
+          !conditions.length ||
+          conditions.length > MAX_COMBINATOR_CONDITIONS
+        ) {
+          return invalid(
+            `${type} needs 1-${MAX_COMBINATOR_CONDITIONS} conditions`
+          );
+        }
+        return {
+          type: type as "all" | "any",
+          config: {
+            conditions: conditions.map((condition) =>
+              isObject(condition)
+                ? this.parseCondition(
+                    String(condition.type),
+                    condition.config,
+                    depth + 1
+                  )
+                : invalid("each condition needs a type and config")
+            ),
+          },
+        };
+      }
+      case "not": {
+        const { condition } = config;
+        if (!isObject(condition)) {
+          return invalid("not needs a condition");
+        }
+        return {
+          type: "not",
+          config: {
+            condition: this.parseCondition(
+              String(condition.type),
+              condition.config,
+              depth + 1
+            ),
+          },
+        };
+      }
+    }
+  }
+
+  private static getText(subject: AutoModSubject, fields?: AutoModField[]) {
+    return (fields ?? DEFAULT_FIELDS)
+      .map((field) => subject[field] ?? "")
+      .join("\n")
+      .slice(0, MAX_MATCH_TEXT_LENGTH);
+  }
+
+  static matches(
+    condition: AutoModCondition,
+    subject: AutoModSubject
+  ): boolean {
+    switch (condition.type) {
+      case "keyword": {
+        const { keywords, fields, caseSensitive, wholeWord } = condition.config;
+        const text = this.getText(subject, fields);
+        return keywords.some((keyword) => {
+          const source = escapeRegex(keyword);
+          return new RegExp(
+            wholeWord ? `\\b${source}\\b` : source,
+            caseSensitive ? "u" : "iu"
+          ).test(text);
+        });
+      }
+      case "regex": {
+        const { pattern, flags, fields } = condition.config;
+        return compilePattern(pattern, flags).test(
+          this.getText(subject, fields)
+        );
+      }
+      case "user_age":
+        // Account age when the content was written, so dry runs over
+        // older content give the same answer the live run did
+        return (
+          subject.createdAt.getTime() - subject.author.createdAt.getTime() <
+          condition.config.minDays * DAY_MS
+        );
+      case "karma_threshold": {
+        const karma =
+          condition.config.scope === "community"
+            ? subject.author.communityReputation
+            : subject.author.reputation;
+        return karma < condition.config.minKarma;
+      }
+      case "all":
+        return condition.config.conditions.every((c) =>
+          this.matches(c, subject)
+        );
+      case "any":
+        return condition.config.conditions.some((c) =>
+          this.matches(c, subject)
+        );
+      case "not":
+        return !this.matches(condition.config.condition, subject);
+    }
+  }
+
+  private static async loadAuthors(communityId: string, authorIds: string[]) {
+    const ids = Array.from(new Set(authorIds));
+    const [users, members] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, createdAt: true, reputation: true },
+      }),
+      prisma.communityMember.findMany({
+        where: { communityId, userId: { in: ids } },
+        select: { userId: true, reputation: true },
+      }),
+    ]);
+
+    const memberReputation = new Map(
+      members.map((member) => [member.userId, member.reputation])
+    );
+
+    return new Map(
+      users.map((user) => [
+        user.id,
+        {
+          createdAt: user.createdAt,
+          reputation: user.reputation,
+          communityReputation: memberReputation.get(user.id) ?? 0,
+        },
+      ])
+    );
+  }
+
+  private static toSubject(
+    target: AutoModTarget,
+    communityId: string,
+    author: AutoModSubject["author"]
+  ): AutoModSubject {
+    if (target.kind === "post") {
+      const { post } = target;
+      return {
+        kind: "post",
+        id: post.id,
+        communityId,
+        authorId: post.authorId,
+        title: post.title,
+        content: post.content,
+        url: post.url,
+        createdAt: post.createdAt,
+        author,
+      };
+    }
+
+    const { comment } = target;
+    return {
+      kind: "comment",
+      id: comment.id,
+      communityId,
+      authorId: comment.authorId,
+      content: comment.content,
+      createdAt: comment.createdAt,
+      author,
+    };
+  }
+
+  private static async notifyModerators(
+    community: RuleCommunity,
+    rule: AutoModRule,
+    subject: AutoModSubject
+  ) {
+    const moderators = await prisma.communityModerator.findMany({
+      where: { communityId: community.id },
+      select: { userId: true },
+    });
+    const recipients = new Set([
+      community.creatorId,
+      ...moderators.map((m) => m.userId),
+    ]);
+
+    for (const userId of recipients) {
+      try {
+        await notificationService.createNotification(
+          userId,
+          NotificationType.COMMUNITY_UPDATE,
+          "AutoMod rule triggered",
+          `"${rule.name}" matched a ${subject.kind} in ${community.name}`,
+          SourceType.COMMUNITY,
+          community.id,
+          {
+            slug: community.slug,
+            ruleId: rule.id,
+            targetType: subject.kind,
+            targetId: subject.id,
+          }
+        );
+      } catch (error) {
+        logger.warn("Failed to notify moderator of AutoMod match", {
+          userId,
+          ruleId: rule.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+  }
+
+  // AutoMod acts on behalf of the community creator in the moderation log
+  private static async executeAction(
+    rule: AutoModRule,
+    target: AutoModTarget,
+    subject: AutoModSubject,
+    community: RuleCommunity
+  ) {
+    const reason = `AutoMod: ${rule.name}`;
+    const metadata = { automod: true, ruleId: rule.id, ruleName: rule.name };
+
+    switch (rule.action) {
+      case "remove":
+        if (target.kind === "post") {
+          await ModerationService.applyPostRemoval(
+            community.creatorId,
+            target.post,
+            reason,
+            metadata
+          );
+        } else {
+          await ModerationService.applyCommentRemoval(
+            community.creatorId,
+            target.comment,
+            community.id,
+            reason,
+            metadata
+          );
+        }
+        return;
+      case "flag":
+      case "notify_mods":
+        await ModerationService.logAction({
+          type: rule.action === "flag" ? "automod_flag" : "automod_notify",
+          moderatorId: community.creatorId,
+          targetId: subject.id,
+          targetType: subject.kind,
+          reason,
+          communityId: community.id,
+          metadata,
+        });
+        if (rule.action === "notify_mods") {
+          await this.notifyModerators(community, rule, subject);
+        }
+        return;
+      default:
+        logger.warn("Unknown AutoMod action", {
+          ruleId: rule.id,
+          action: rule.action,
+        });
+    }
+  }
+
+  /**
+   * Evaluates the community's enabled rules against new content and runs
+   * the actions of every rule that matches. Failures are logged rather than
+   * thrown so content creation never depends on AutoMod.
+   */
+  private static async run(target: AutoModTarget, communityId: string) {
+    const perf = createPerformanceTracker("automod-run");
+    const targetId =
+      target.kind === "post" ? target.post.id : target.comment.id;
+    const authorId =
+      target.kind === "post" ? target.post.authorId : target.comment.authorId;
+    const matched: string[] = [];
+    let removed = false;
+
+    try {
+      const rules = await prisma.autoModRule.findMany({
+        where: { communityId, isEnabled: true },
+        orderBy: { createdAt: "asc" },
+      });
+
+      if (!rules.length) return { removed, matched };
+
+      const community = await prisma.community.findUniqueOrThrow({
+        where: { id: communityId },
+        select: { id: true, name: true, slug: true, creatorId: true },
+      });
+
+      // Moderators are trusted to post anything their rules would catch
+      if (await CommunityService.isModerator(authorId, community)) {
+        return { removed, matched };
+      }
+
+      const authors = await this.loadAuthors(communityId, [authorId]);
+      const author = authors.get(authorId);
+      if (!author) return { removed, matched };
+
+      const subject = this.toSubject(target, communityId, author);
+
+      for (const rule of rules) {
+        let condition: AutoModCondition;
+        try {
+          condition = this.parseCondition(rule.type, rule.config);
+        } catch (error) {
+          logger.warn("Skipping invalid AutoMod rule", {
+            ruleId: rule.id,
+            error: error instanceof Error ? error.message : error,
+          });
+          continue;
+        }
+
+        if (!this.matches(condition, subject)) continue;
+        matched.push(rule.id);
+
+        if (rule.action === "remove") {
+          if (removed) continue;
+          removed = true;
+        }
+
+        await this.executeAction(rule, target, subject, community);
+      }
+
+      const duration = perf.end();
+      if (matched.length) {
+        logger.info("AutoMod rules matched", {
+          communityId,
+          targetType: target.kind,
+          targetId,
+          matched,
+          removed,
+          duration,
+        });
+      }
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error running AutoMod:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        communityId,
+        targetType: target.kind,
+        targetId,
+        duration,
+      });
+    }
+
+    return { removed, matched };
+  }
+
+  static async runOnPost(post: Post) {
+    return await this.run({ kind: "post", post }, post.communityId);
+  }
+
+  static async runOnComment(comment: Comment, communityId: string) {
+    return await this.run({ kind: "comment", comment }, communityId);
+  }
+
+  private static async getModeratedCommunity(userId: string, slug: string) {
+    const community = await CommunityService.getCommunityBySlug(slug);
+    await CommunityService.assertCanModerate(
+      userId,
+      community,
+      "canManageAutoMod"
+    );
+    return community;
+  }
+
+  private static async getRule(communityId: string, ruleId: string) {
+    const rule = validation.isValidObjectId(ruleId)
+      ? await prisma.autoModRule.findFirst({
+          where: { id: ruleId, communityId },
+        })
+      : null;
+
+    if (!rule) {
+      throw new CommunityError(404, "AutoMod rule not found");
+    }
+
+    return rule;
+  }
+
+  static async listRules(userId: string, slug: string) {
+    const community = await this.getModeratedCommunity(userId, slug);
+
+    return await prisma.autoModRule.findMany({
+      where: { communityId: community.id },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  static async createRule(
+    userId: string,
+    slug: string,
+    input: CreateAutoModRuleInput
+  ) {
+    const community = await this.getModeratedCommunity(userId, slug);
+    const condition = this.parseCondition(input.type, input.config);
+
+    const rule = await prisma.autoModRule.create({
+      data: {
+        communityId: community.id,
+        name: input.name,
+        description: input.description,
+        type: condition.type,
+        config: condition.config as unknown as Prisma.InputJsonValue,
+        action: input.action,
+        isEnabled: input.isEnabled ?? true,
+      },
+    });
+
+    logger.info("AutoMod rule created", {
+      ruleId: rule.id,
+      communityId: community.id,
+      type: rule.type,
+      action: rule.action,
+      userId,
+    });
+
+    return rule;
+  }
+
+  static async updateRule(
+    userId: string,
+    slug: string,
+    ruleId: string,
+    input: UpdateAutoModRuleInput
+  ) {
+    const community = await this.getModeratedCommunity(userId, slug);
+    const rule = await this.getRule(community.id, ruleId);
+
+    const condition =
+      input.type !== undefined || input.config !== undefined
+        ? this.parseCondition(
+            input.type ?? rule.type,
+            input.config ?? rule.config
+          )
+        : undefined;
+
+    const updated = await prisma.autoModRule.update({
+      where: { id: rule.id },
+      data: {
+        name: input.name,
+        description: input.description,
+        action: input.action,
+        isEnabled: input.isEnabled,
+        ...(condition && {
+          type: condition.type,
+          config: condition.config as unknown as Prisma.InputJsonValue,
+        }),
+      },
+    });
+
+    logger.info("AutoMod rule updated", {
+      ruleId,
+      communityId: community.id,
+      updatedFields: Object.keys(input),
+      userId,
+    });
+
+    return updated;
+  }
+
+  static async deleteRule(userId: string, slug: string, ruleId: string) {
+    const community = await this.getModeratedCommunity(userId, slug);
+    const rule = await this.getRule(community.id, ruleId);
+
+    await prisma.autoModRule.delete({ where: { id: rule.id } });
+
+    logger.info("AutoMod rule deleted", {
+      ruleId,
+      communityId: community.id,
+      userId,
+    });
+
+    return { success: true };
+  }
+
+  // Reports what a rule would match in recent content without acting on it
+  static async dryRun(userId: string, slug: string, input: AutoModDryRunInput) {
+    const community = await this.getModeratedCommunity(userId, slug);
+
+    let condition: AutoModCondition;
+    if (input.ruleId) {
+      const rule = await this.getRule(community.id, input.ruleId);
+      condition = this.parseCondition(rule.type, rule.config);
+    } else if (input.rule) {
+      condition = this.parseCondition(input.rule.type, input.rule.config);
+    } else {
+      throw new CommunityError(400, "Provide a rule or a ruleId");
+    }
+
+    const limit = input.limit ?? DEFAULT_DRY_RUN_LIMIT;
+
+    const [posts, comments] = await Promise.all([
+      prisma.post.findMany({
+        where: { communityId: community.id, status: { not: "deleted" } },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      }),
+      prisma.comment.findMany({
+        where: {
+          post: { communityId: community.id },
+          status: { not: "deleted" },
+        },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      }),
+    ]);
+
+    const targets: AutoModTarget[] = [
+      ...posts.map((post) => ({ kind: "post" as const, post })),
+      ...comments.map((comment) => ({ kind: "comment" as const, comment })),
+    ]
+      .sort(
+        (a, b) =>
+          (b.kind === "post" ? b.post : b.comment).createdAt.getTime() -
+          (a.kind === "post" ? a.post : a.comment).createdAt.getTime()
+      )
+      .slice(0, limit);
+
+    const authors = await this.loadAuthors(
+      community.id,
+      targets.map((target) =>
+        target.kind === "post" ? target.post.authorId : target.comment.authorId
+      )
+    );
+
+    const matches = targets.flatMap((target) => {
+      const authorId =
+        target.kind === "post" ? target.post.authorId : target.comment.authorId;
+      const author = authors.get(authorId);
+      if (!author) return [];
+
+      const subject = this.toSubject(target, community.id, author);
+      if (!this.matches(condition, subject)) return [];
+
+      return [
+        {
+          type: subject.kind,
+          id: subject.id,
+          postId: target.kind === "comment" ? target.comment.postId : undefined,
+          title: subject.title,
+          excerpt: subject.content.slice(0, 200),
+          authorId,
+          status:
+            target.kind === "post" ? target.post.status : target.comment.status,
+          createdAt: subject.createdAt,
+        },
+      ];
+    });
+
+    return {
+      condition,
+      evaluated: targets.length,
+      matched: matches.length,
+      matches,
+    };
+  }
+}
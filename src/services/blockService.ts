@@ -0,0 +1,142 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { CommunityError } from "./communityService";
+import { FollowService } from "./followService";
+import { BlockListOptions } from "@/types/userProfile/block";
+
+const blockedUserSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  walletAddress: true,
+  username: true,
+  name: true,
+  avatar: true,
+});
+
+export class BlockService {
+  // Blocking also drops any follow in either direction
+  static async blockUser(
+    blockerId: string,
+    walletAddress: string,
+    reason?: string
+  ) {
+    const target = await FollowService.getUserByWallet(walletAddress);
+
+    if (target.id === blockerId) {
+      throw new CommunityError(400, "You cannot block yourself");
+    }
+
+    const existing = await prisma.blockedUser.findUnique({
+      where: {
+        blockerId_blockedId: { blockerId, blockedId: target.id },
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new CommunityError(409, "You already blocked this user");
+    }
+
+    const block = await prisma.$transaction(async (tx) => {
+      await tx.userFollower.deleteMany({
+        where: {
+          OR: [
+            { followerId: blockerId, followingId: target.id },
+            { followerId: target.id, followingId: blockerId },
+          ],
+        },
+      });
+
+      return await tx.blockedUser.create({
+        data: { blockerId, blockedId: target.id, reason },
+      });
+    });
+
+    logger.info("User blocked", { blockerId, blockedId: target.id });
+
+    return block;
+  }
+
+  static async unblockUser(blockerId: string, walletAddress: string) {
+    const target = await FollowService.getUserByWallet(walletAddress);
+
+    const { count } = await prisma.blockedUser.deleteMany({
+      where: { blockerId, blockedId: target.id },
+    });
+
+    if (!count) {
+      throw new CommunityError(404, "You have not blocked this user");
+    }
+
+    logger.info("User unblocked", { blockerId, blockedId: target.id });
+
+    return { success: true };
+  }
+
+  static async listBlocked(blockerId: string, options: BlockListOptions) {
+    const where = { blockerId };
+
+    const [blocks, total] = await Promise.all([
+      prisma.blockedUser.findMany({
+        where,
+        include: { blocked: { select: blockedUserSelect } },
+        orderBy: { createdAt: "desc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.blockedUser.count({ where }),
+    ]);
+
+    return {
+      users: blocks.map((block) => ({
+        ...block.blocked,
+        reason: block.reason,
+        blockedAt: block.createdAt,
+      })),
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  static async hasBlocked(blockerId: string, blockedId: string) {
+    const block = await prisma.blockedUser.findUnique({
+      where: { blockerId_blockedId: { blockerId, blockedId } },
+      select: { id: true },
+    });
+
+    return !!block;
+  }
+
+  /**
+   * Rejects the interaction when a block exists in either direction between
+   * the user and any of the others. The message does not reveal who blocked
+   * whom.
+   */
+  static async assertNotBlocked(
+    userId: string,
+    otherIds: string[],
+    message: string
+  ) {
+    const others = otherIds.filter((otherId) => otherId !== userId);
+    if (!others.length) return;
+
+    const block = await prisma.blockedUser.findFirst({
+      where: {
+        OR: [
+          { blockerId: userId, blockedId: { in: others } },
+          { blockerId: { in: others }, blockedId: userId },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (block) {
+      throw new CommunityError(403, message);
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { logger } from "@/utils/monitor";
+import { TOKEN_STANDARDS } from "@/types/community/community";
+import { CommunityError } from "./communityService";
+
+export type TokenStandard = (typeof TOKEN_STANDARDS)[number];
+
+export interface TokenBalanceQuery {
+  chainId: string;
+  tokenAddress: string;
+  walletAddress: string;
+  standard: TokenStandard;
+}
+
+// Anything able to answer "how many of this token does the wallet hold"
+export interface ChainRpcProvider {
+  readonly name: string;
+  getTokenBalance(query: TokenBalanceQuery): Promise<number>;
+}
+
+export class ChainRpcError extends Error {
+  constructor(public chainId: string, message: string) {
+    super(message);
+    this.name = "ChainRpcError";
+  }
+}
+
+// A hung node must not stall joins or the verifier loop
+const RPC_TIMEOUT_MS = 10_000;
+
+// balanceOf(address) and decimals() function selectors
+const BALANCE_OF_SELECTOR = "0x70a08231";
+const DECIMALS_SELECTOR = "0x313ce567";
+
+// Chain ids may be stored as decimal ("137") or hex ("0x89")
+export const normalizeChainId = (chainId: string): string =>
+  chainId.startsWith("0x") ? parseInt(chainId, 16).toString() : chainId.trim();
+
+/**
+ * Reads balances with raw eth_call requests against a JSON-RPC endpoint.
+ * Endpoints are configured per chain via CHAIN_RPC_URL_<chainId>.
+ */
+export class JsonRpcChainProvider implements ChainRpcProvider {
+  readonly name = "json-rpc";
+  private decimalsCache = new Map<string, number>();
+  private requestId = 0;
+
+  private getRpcUrl(chainId: string): string {
+    const url = process.env[`CHAIN_RPC_URL_${normalizeChainId(chainId)}`];
+
+    if (!url) {
+      throw new ChainRpcError(
+        chainId,
+        `No RPC endpoint configured for chain ${chainId}`
+      );
+    }
+
+    return url;
+  }
+
+  private async ethCall(
+    chainId: string,
+    to: string,
+    data: string
+  ): Promise<bigint> {
+    let payload: { result?: string; error?: { message: string } };
+
+    try {
+      // The signal also bounds reading the body of a stalled response
+      const response = await fetch(this.getRpcUrl(chainId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: ++this.requestId,
+          method: "eth_call",
+          params: [{ to, data }, "latest"],
+        }),
+        signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new ChainRpcError(
+          chainId,
+          `RPC request failed with status ${response.status}`
+        );
+      }
+
+      payload = await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        logger.warn("Chain RPC request timed out", {
+          chainId,
+          timeoutMs: RPC_TIMEOUT_MS,
+        });
+        throw new CommunityError(
+          503,
+          "Token balance check timed out, please try again later"
+        );
+      }
+      throw error;
+    }
+
+    if (payload.error || !payload.result) {
+      throw new ChainRpcError(
+        chainId,
+        payload.error?.message || "Empty RPC response"
+      );
+    }
+
+    return payload.result === "0x" ? BigInt(0) : BigInt(payload.result);
+  }
+
+  private async getDecimals(chainId: string, tokenAddress: string) {
+    const key = `${normalizeChainId(chainId)}:${tokenAddress.toLowerCase()}`;
+    const cached = this.decimalsCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const decimals = Number(
+      await this.ethCall(chainId, tokenAddress, DECIMALS_SELECTOR)
+    );
+    this.decimalsCache.set(key, decimals);
+
+    return decimals;
+  }
+
+  async getTokenBalance(query: TokenBalanceQuery): Promise<number> {
+    const owner = query.walletAddress.toLowerCase().replace(/^0x/, "");
+    const raw = await this.ethCall(
+      query.chainId,
+      query.tokenAddress,
+      `${BALANCE_OF_SELECTOR}${owner.padStart(64, "0")}`
+    );
+
+    // ERC-721 balanceOf already returns a token count
+    if (query.standard === "erc721") {
+      return Number(raw);
+    }
+
+    const decimals = await this.getDecimals(query.chainId, query.tokenAddress);
+    const divisor = BigInt(10) ** BigInt(decimals);
+
+    return Number(raw / divisor) + Number(raw % divisor) / Number(divisor);
+  }
+}
+
+/**
+ * In-memory balances for local development and tests.
+ * Unknown wallets hold nothing.
+ */
+export class MockChainProvider implements ChainRpcProvider {
+  readonly name = "mock";
+  private balances = new Map<string, number>();
+
+  private key(chainId: string, tokenAddress: string, walletAddress: string) {
+    return [
+      normalizeChainId(chainId),
+      tokenAddress.toLowerCase(),
+      walletAddress.toLowerCase(),
+    ].join(":");
+  }
+
+  setBalance(
+    chainId: string,
+    tokenAddress: string,
+    walletAddress: string,
+    balance: number
+  ) {
+    this.balances.set(this.key(chainId, tokenAddress, walletAddress), balance);
+  }
+
+  clear() {
+    this.balances.clear();
+  }
+
+  async getTokenBalance(query: TokenBalanceQuery): Promise<number> {
+    return (
+      this.balances.get(
+        this.key(query.chainId, query.tokenAddress, query.walletAddress)
+      ) ?? 0
+    );
+  }
+}
+
+// TOKEN_GATE_PROVIDER=mock switches to the in-memory provider
+export function createChainRpcProvider(): ChainRpcProvider {
+  const providerName = process.env.TOKEN_GATE_PROVIDER || "json-rpc";
+
+  if (providerName === "mock") {
+    logger.warn("Token gating is using the mock chain provider");
+    return new MockChainProvider();
+  }
+
+  return new JsonRpcChainProvider();
+}
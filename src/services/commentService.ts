@@ -0,0 +1,422 @@
+import { Comment, Prisma } from "@prisma/client";
+import { ObjectId } from "mongodb";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { validation } from "@/utils/security";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { PostService, postAuthorSelect } from "./postService";
+import { ModerationService } from "./moderationService";
+import { AutoModService } from "./autoModService";
+import { sanctionService } from "./sanctionService";
+import { fingerprintContent, spamFilter } from "./spamFilterService";
+import {
+  CommentStatus,
+  CommentTreeNode,
+  CommentTreeOptions,
+  CreateCommentInput,
+  MAX_COMMENT_DEPTH,
+} from "@/types/community/comment";
+
+// Paths are "/"-joined ancestor ids ending with the comment's own id.
+// ObjectIds are fixed width and time ordered, so sorting by path yields
+// oldest-first threads and a subtree is a contiguous path range.
+const PATH_SEPARATOR = "/";
+const PATH_RANGE_END = "~";
+
+// Upper bound on descendants loaded for a single tree request
+const MAX_TREE_NODES = 1000;
+
+const encodeCursor = (path: string) => Buffer.from(path).toString("base64url");
+
+const decodeCursor = (cursor: string) => {
+  const path = Buffer.from(cursor, "base64url").toString();
+
+  if (!/^[a-f0-9]{24}(\/[a-f0-9]{24})*$/.test(path)) {
+    throw new CommunityError(400, "Invalid cursor");
+  }
+
+  return path;
+};
+
+type CommentWithAuthor = Prisma.CommentGetPayload<{
+  include: { author: { select: typeof postAuthorSelect } };
+}>;
+
+export class CommentService {
+  static async getCommentById(commentId: string): Promise<Comment> {
+    const comment = validation.isValidObjectId(commentId)
+      ? await prisma.comment.findUnique({ where: { id: commentId } })
+      : null;
+
+    if (!comment) {
+      throw new CommunityError(404, "Comment not found");
+    }
+
+    return comment;
+  }
+
+  private static toNode(comment: CommentWithAuthor): CommentTreeNode {
+    const hidden = comment.status !== "active";
+
+    return {
+      id: comment.id,
+      content: hidden ? `[${comment.status}]` : comment.content,
+      status: comment.status,
+      author: hidden ? null : comment.author,
+      score: comment.score,
+      upvotes: comment.upvotes,
+      downvotes: comment.downvotes,
+      depth: comment.depth,
+      parentId: comment.parentId,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+      replies: [],
+      moreReplies: null,
+    };
+  }
+
+  static async createComment(
+    userId: string,
+    postId: string,
+    input: CreateCommentInput
+  ) {
+    const perf = createPerformanceTracker("create-comment");
+
+    try {
+      const post = await PostService.getPostById(postId);
+
+      if (post.status !== "active") {
+        throw new CommunityError(409, "This post is not accepting comments");
+      }
+
+      if (post.isLocked) {
+        throw new CommunityError(409, "This post is locked");
+      }
+
+      const community = await prisma.community.findUniqueOrThrow({
+        where: { id: post.communityId },
+      });
+      await PostService.assertCanPost(userId, community);
+
+      let parent: Comment | undefined;
+      if (input.parentId) {
+        parent = await this.getCommentById(input.parentId);
+
+        if (parent.postId !== post.id) {
+          throw new CommunityError(
+            400,
+            "Parent comment belongs to another post"
+          );
+        }
+
+        if (parent.status !== "active") {
+          throw new CommunityError(409, "Cannot reply to a removed comment");
+        }
+
+        if (parent.depth + 1 > MAX_COMMENT_DEPTH) {
+          throw new CommunityError(400, "Reply thread is nested too deeply");
+        }
+      }
+
+      const isModerator = await CommunityService.isModerator(userId, community);
+
+      if (!isModerator) {
+        await spamFilter.assertMinimumKarma(userId, community);
+      }
+
+      const spam = await spamFilter.check(
+        {
+          kind: "comment",
+          authorId: userId,
+          communityId: community.id,
+          content: input.content,
+        },
+        community.autoSpamFilter && !isModerator
+      );
+
+      // The id is generated up front so the path can include it
+      const id = new ObjectId().toHexString();
+
+      const comment = await prisma.$transaction(async (tx) => {
+        const created = await tx.comment.create({
+          data: {
+            id,
+            content: input.content,
+            depth: parent ? parent.depth + 1 : 0,
+            path: parent ? `${parent.path}${PATH_SEPARATOR}${id}` : id,
+            authorId: userId,
+            postId: post.id,
+            parentId: parent?.id,
+            status: spam.isSpam ? "spam" : "active",
+            spamScore: spam.spamScore,
+            fingerprint: spam.fingerprint,
+          },
+          include: { author: { select: postAuthorSelect } },
+        });
+
+        await tx.userAction.create({
+          data: {
+            userId,
+            type: "comment_create",
+            targetId: created.id,
+            targetType: "comment",
+            metadata: { communityId: community.id, postId: post.id },
+          },
+        });
+
+        await tx.communityMember.update({
+          where: {
+            communityId_userId: { communityId: community.id, userId },
+          },
+          data: { lastActive: new Date() },
+        });
+
+        return created;
+      });
+
+      const { removed } = await AutoModService.runOnComment(
+        comment,
+        community.id
+      );
+      if (removed) comment.status = "removed";
+
+      const duration = perf.end();
+      logger.info("Comment created", {
+        commentId: comment.id,
+        postId,
+        parentId: parent?.id,
+        userId,
+        duration,
+      });
+
+      return this.toNode(comment);
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error creating comment:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        postId,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  static async updateComment(
+    userId: string,
+    commentId: string,
+    content: string
+  ) {
+    const comment = await this.getCommentById(commentId);
+
+    if (comment.authorId !== userId) {
+      throw new CommunityError(403, "Only the author can edit this comment");
+    }
+
+    if (comment.status !== "active") {
+      throw new CommunityError(409, "Removed comments cannot be edited");
+    }
+
+    const post = await PostService.getPostById(comment.postId);
+    if (post.isLocked) {
+      throw new CommunityError(409, "This post is locked");
+    }
+
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: post.communityId },
+    });
+    await sanctionService.assertCanParticipate(userId, community.id);
+
+    const contentChanged = content !== comment.content;
+
+    // Edited text goes through the same checks as a new comment. Light
+    // edits keep the fingerprint and would only match the comment itself.
+    let spam: Awaited<ReturnType<typeof spamFilter.check>> | null = null;
+    if (contentChanged && fingerprintContent(content) !== comment.fingerprint) {
+      spam = await spamFilter.check(
+        {
+          kind: "comment",
+          authorId: userId,
+          communityId: community.id,
+          content,
+        },
+        community.autoSpamFilter &&
+          !(await CommunityService.isModerator(userId, community))
+      );
+    }
+
+    const updated = await prisma.comment.update({
+      where: { id: comment.id },
+      data: {
+        content,
+        ...(spam && {
+          spamScore: spam.spamScore,
+          fingerprint: spam.fingerprint,
+          ...(spam.isSpam && { status: "spam" }),
+        }),
+      },
+      include: { author: { select: postAuthorSelect } },
+    });
+
+    if (contentChanged) {
+      const { removed } = await AutoModService.runOnComment(
+        updated,
+        community.id
+      );
+      if (removed) updated.status = "removed";
+    }
+
+    logger.info("Comment updated", { commentId, userId });
+
+    return this.toNode(updated);
+  }
+
+  // Authors delete their own comments; anyone else goes through moderation
+  static async removeComment(
+    userId: string,
+    commentId: string,
+    reason = "Removed by moderator"
+  ) {
+    const comment = await this.getCommentById(commentId);
+
+    if (comment.status === "deleted" || comment.status === "removed") {
+      throw new CommunityError(409, "Comment was already removed");
+    }
+
+    if (comment.authorId !== userId) {
+      await ModerationService.removeComment(userId, comment.id, reason);
+      return { success: true, status: "removed" as CommentStatus };
+    }
+
+    const status: CommentStatus = "deleted";
+
+    await prisma.comment.update({
+      where: { id: comment.id },
+      data: { status },
+    });
+
+    logger.info("Comment removed", { commentId, userId, status });
+
+    return { success: true, status };
+  }
+
+  /**
+   * Returns one page of comments at a level plus `depth` levels of replies,
+   * using two path-range queries instead of walking the tree recursively.
+   */
+  static async getCommentTree(
+    viewerId: string,
+    postId: string,
+    options: CommentTreeOptions
+  ) {
+    const post = await PostService.getPostById(postId);
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: post.communityId },
+    });
+    await PostService.assertCanView(viewerId, community);
+
+    let baseDepth = 0;
+    let prefix: string | undefined;
+
+    if (options.parentId) {
+      const parent = await this.getCommentById(options.parentId);
+      if (parent.postId !== post.id) {
+        throw new CommunityError(404, "Comment not found");
+      }
+      baseDepth = parent.depth + 1;
+      prefix = parent.path + PATH_SEPARATOR;
+    }
+
+    const after = options.cursor ? decodeCursor(options.cursor) : undefined;
+
+    const level = await prisma.comment.findMany({
+      where: {
+        postId: post.id,
+        depth: baseDepth,
+        ...((prefix || after) && {
+          path: {
+            ...(prefix && { startsWith: prefix }),
+            ...(after && { gt: after }),
+          },
+        }),
+      },
+      include: { author: { select: postAuthorSelect } },
+      orderBy: { path: "asc" },
+      take: options.limit + 1,
+    });
+
+    const hasMore = level.length > options.limit;
+    const page = level.slice(0, options.limit);
+
+    let descendants: CommentWithAuthor[] = [];
+    if (page.length && options.depth > 0) {
+      descendants = await prisma.comment.findMany({
+        where: {
+          postId: post.id,
+          depth: { gt: baseDepth, lte: baseDepth + options.depth },
+          path: {
+            gt: page[0].path + PATH_SEPARATOR,
+            lt: page[page.length - 1].path + PATH_RANGE_END,
+          },
+        },
+        include: { author: { select: postAuthorSelect } },
+        orderBy: { path: "asc" },
+        take: MAX_TREE_NODES,
+      });
+    }
+
+    // Path order guarantees parents are seen before their replies
+    const nodes = new Map<string, CommentTreeNode>();
+    const lastChildPath = new Map<string, string>();
+    const roots: CommentTreeNode[] = [];
+
+    for (const comment of [...page, ...descendants]) {
+      const node = this.toNode(comment);
+      nodes.set(comment.id, node);
+
+      const parent =
+        comment.depth > baseDepth && comment.parentId
+          ? nodes.get(comment.parentId)
+          : undefined;
+
+      if (parent) {
+        parent.replies.push(node);
+        lastChildPath.set(parent.id, comment.path);
+      } else if (comment.depth === baseDepth) {
+        roots.push(node);
+      }
+    }
+
+    const replyCounts = await prisma.comment.groupBy({
+      by: ["parentId"],
+      where: { parentId: { in: Array.from(nodes.keys()) } },
+      _count: { _all: true },
+    });
+
+    for (const { parentId, _count } of replyCounts) {
+      const node = parentId ? nodes.get(parentId) : undefined;
+      if (!node || _count._all <= node.replies.length) continue;
+
+      const cursorPath = lastChildPath.get(node.id);
+      node.moreReplies = {
+        parentId: node.id,
+        cursor: cursorPath ? encodeCursor(cursorPath) : null,
+        remaining: _count._all - node.replies.length,
+      };
+    }
+
+    return {
+      comments: roots,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1].path) : null,
+      hasMore,
+    };
+  }
+}
@@ -0,0 +1,477 @@
+import { Community, Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { NotificationType, SourceType } from "./userNotificationService";
+import { tokenGateService } from "./tokenGateService";
+import { sanctionService } from "./sanctionService";
+import { notificationService } from "@/types/notifications/notificaitons";
+import {
+  COMMUNITY_MEMBER_ROLES,
+  CommunityMemberRole,
+  JoinRequestStatus,
+} from "@/types/community/community";
+
+const memberUserSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  name: true,
+  avatar: true,
+});
+
+export class CommunityMembershipService {
+  static async getMembership(userId: string, communityId: string) {
+    return await prisma.communityMember.findUnique({
+      where: { communityId_userId: { communityId, userId } },
+    });
+  }
+
+  // Resolves the user's wallet and enforces the community token gate, if any
+  private static async assertTokenGate(userId: string, community: Community) {
+    if (!community.tokenGated) return undefined;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { walletAddress: true },
+    });
+
+    if (!user) {
+      throw new CommunityError(404, "User not found");
+    }
+
+    return await tokenGateService.assertAccess(community, user.walletAddress);
+  }
+
+  static async joinCommunity(userId: string, slug: string, message?: string) {
+    const perf = createPerformanceTracker("join-community");
+
+    try {
+      const community = await CommunityService.getCommunityBySlug(slug);
+
+      if (community.isArchived) {
+        throw new CommunityError(409, "Archived communities cannot be joined");
+      }
+
+      if (await this.getMembership(userId, community.id)) {
+        throw new CommunityError(409, "Already a member of this community");
+      }
+
+      await sanctionService.assertNotBanned(userId, community.id);
+
+      const gate = await this.assertTokenGate(userId, community);
+
+      // Private communities queue the request for moderator approval
+      if (community.isPrivate) {
+        const request = await prisma.communityJoinRequest.upsert({
+          where: {
+            communityId_userId: { communityId: community.id, userId },
+          },
+          create: { communityId: community.id, userId, message },
+          update: {
+            message,
+            status: "pending",
+            reviewedBy: null,
+            reviewedAt: null,
+            createdAt: new Date(),
+          },
+        });
+
+        const duration = perf.end();
+        logger.info("Community join request created", {
+          communityId: community.id,
+          userId,
+          requestId: request.id,
+          duration,
+        });
+
+        return { status: "pending" as const, request };
+      }
+
+      let membership;
+      try {
+        membership = await prisma.$transaction(async (tx) => {
+          const member = await tx.communityMember.create({
+            data: {
+              communityId: community.id,
+              userId,
+              tokenVerifiedAt: gate?.checkedAt,
+            },
+          });
+
+          await tx.community.update({
+            where: { id: community.id },
+            data: { memberCount: { increment: 1 } },
+          });
+
+          return member;
+        });
+      } catch (error) {
+        // A concurrent join from the same user created the membership first
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          throw new CommunityError(409, "Already a member of this community");
+        }
+        throw error;
+      }
+
+      const duration = perf.end();
+      logger.info("User joined community", {
+        communityId: community.id,
+        userId,
+        duration,
+      });
+
+      return { status: "joined" as const, membership };
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error joining community:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        slug,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  static async leaveCommunity(userId: string, slug: string) {
+    const perf = createPerformanceTracker("leave-community");
+
+    try {
+      const community = await CommunityService.getCommunityBySlug(slug);
+
+      if (community.creatorId === userId) {
+        throw new CommunityError(
+          409,
+          "The community creator cannot leave the community"
+        );
+      }
+
+      const membership = await this.getMembership(userId, community.id);
+      if (!membership) {
+        throw new CommunityError(404, "Not a member of this community");
+      }
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          await tx.communityMember.delete({ where: { id: membership.id } });
+
+          // Moderator powers go with the membership
+          await tx.communityModerator.deleteMany({
+            where: { communityId: community.id, userId },
+          });
+
+          await tx.community.update({
+            where: { id: community.id },
+            data: { memberCount: { decrement: 1 } },
+          });
+        });
+      } catch (error) {
+        // A concurrent leave from the same user deleted the membership first
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2025"
+        ) {
+          throw new CommunityError(404, "Not a member of this community");
+        }
+        throw error;
+      }
+
+      const duration = perf.end();
+      logger.info("User left community", {
+        communityId: community.id,
+        userId,
+        duration,
+      });
+
+      return { success: true };
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error leaving community:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        slug,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  static async listMembers(
+    viewerId: string,
+    slug: string,
+    options: { page: number; limit: number; role?: CommunityMemberRole }
+  ) {
+    const community = await CommunityService.getCommunityBySlug(slug);
+
+    if (
+      community.isPrivate &&
+      !(await this.getMembership(viewerId, community.id)) &&
+      !(await CommunityService.isModerator(viewerId, community))
+    ) {
+      throw new CommunityError(
+        403,
+        "Members of private communities are hidden"
+      );
+    }
+
+    const where: Prisma.CommunityMemberWhereInput = {
+      communityId: community.id,
+      ...(options.role && { role: options.role }),
+    };
+
+    const [members, total] = await Promise.all([
+      prisma.communityMember.findMany({
+        where,
+        include: { user: { select: memberUserSelect } },
+        orderBy: [{ reputation: "desc" }, { joinedAt: "asc" }],
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.communityMember.count({ where }),
+    ]);
+
+    return {
+      members: members.map((member) => ({
+        user: member.user,
+        role: member.role,
+        reputation: member.reputation,
+        joinedAt: member.joinedAt,
+        lastActive: member.lastActive,
+      })),
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  static async listJoinRequests(
+    moderatorId: string,
+    slug: string,
+    status: JoinRequestStatus = "pending"
+  ) {
+    const community = await CommunityService.getCommunityBySlug(slug);
+    await CommunityService.assertCanModerate(
+      moderatorId,
+      community,
+      "canManageUsers"
+    );
+
+    return await prisma.communityJoinRequest.findMany({
+      where: { communityId: community.id, status },
+      include: { user: { select: memberUserSelect } },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  static async reviewJoinRequest(
+    moderatorId: string,
+    slug: string,
+    requestId: string,
+    approve: boolean
+  ) {
+    const perf = createPerformanceTracker("review-join-request");
+
+    try {
+      const community = await CommunityService.getCommunityBySlug(slug);
+      await CommunityService.assertCanModerate(
+        moderatorId,
+        community,
+        "canManageUsers"
+      );
+
+      const request = await prisma.communityJoinRequest.findFirst({
+        where: { id: requestId, communityId: community.id },
+      });
+
+      if (!request) {
+        throw new CommunityError(404, "Join request not found");
+      }
+
+      if (request.status !== "pending") {
+        throw new CommunityError(409, "Join request was already reviewed");
+      }
+
+      if (approve) {
+        await sanctionService.assertNotBanned(request.userId, community.id);
+      }
+
+      // Balances may have changed since the request was submitted
+      const gate = approve
+        ? await this.assertTokenGate(request.userId, community)
+        : undefined;
+
+      let reviewed;
+      try {
+        reviewed = await prisma.$transaction(async (tx) => {
+          const updated = await tx.communityJoinRequest.update({
+            where: { id: request.id },
+            data: {
+              status: approve ? "approved" : "rejected",
+              reviewedBy: moderatorId,
+              reviewedAt: new Date(),
+            },
+          });
+
+          if (approve) {
+            await tx.communityMember.create({
+              data: {
+                communityId: community.id,
+                userId: request.userId,
+                tokenVerifiedAt: gate?.checkedAt,
+              },
+            });
+
+            await tx.community.update({
+              where: { id: community.id },
+              data: { memberCount: { increment: 1 } },
+            });
+          }
+
+          return updated;
+        });
+      } catch (error) {
+        // The user became a member some other way, e.g. after the community
+        // went public; the request stays pending
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          throw new CommunityError(
+            409,
+            "User is already a member of this community"
+          );
+        }
+        throw error;
+      }
+
+      // The review is already saved; a failed notification must not undo it
+      try {
+        await notificationService.createNotification(
+          request.userId,
+          NotificationType.COMMUNITY_UPDATE,
+          approve ? "Join request approved" : "Join request declined",
+          approve
+            ? `You are now a member of ${community.name}`
+            : `Your request to join ${community.name} was declined`,
+          SourceType.COMMUNITY,
+          community.id,
+          { slug: community.slug, requestId: request.id }
+        );
+      } catch (error) {
+        logger.warn("Failed to notify join request reviewed", {
+          error: error instanceof Error ? error.message : error,
+          communityId: community.id,
+          requestId: request.id,
+        });
+      }
+
+      const duration = perf.end();
+      logger.info("Community join request reviewed", {
+        communityId: community.id,
+        requestId,
+        moderatorId,
+        approved: approve,
+        duration,
+      });
+
+      return reviewed;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error reviewing join request:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        slug,
+        requestId,
+        moderatorId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  // Lets a member re-check their balance, e.g. after topping up their wallet
+  static async verifyTokenAccess(userId: string, slug: string) {
+    const community = await CommunityService.getCommunityBySlug(slug);
+
+    if (!community.tokenGated) {
+      throw new CommunityError(409, "Community is not token gated");
+    }
+
+    return await tokenGateService.verifyMember(community, userId);
+  }
+
+  // Moves a member one tier up or down the member -> contributor -> vip ladder
+  static async changeMemberRole(
+    moderatorId: string,
+    slug: string,
+    userId: string,
+    direction: "promote" | "demote"
+  ) {
+    const community = await CommunityService.getCommunityBySlug(slug);
+    await CommunityService.assertCanModerate(
+      moderatorId,
+      community,
+      "canManageUsers"
+    );
+
+    const membership = await this.getMembership(userId, community.id);
+    if (!membership) {
+      throw new CommunityError(404, "User is not a member of this community");
+    }
+
+    const currentIndex = COMMUNITY_MEMBER_ROLES.indexOf(
+      membership.role as CommunityMemberRole
+    );
+    const nextIndex = currentIndex + (direction === "promote" ? 1 : -1);
+
+    if (nextIndex < 0 || nextIndex >= COMMUNITY_MEMBER_ROLES.length) {
+      throw new CommunityError(
+        409,
+        `Member cannot be ${direction}d beyond ${membership.role}`
+      );
+    }
+
+    const updated = await prisma.communityMember.update({
+      where: { id: membership.id },
+      data: { role: COMMUNITY_MEMBER_ROLES[nextIndex] },
+    });
+
+    logger.info("Community member role changed", {
+      communityId: community.id,
+      userId,
+      moderatorId,
+      from: membership.role,
+      to: updated.role,
+    });
+
+    return updated;
+  }
+}
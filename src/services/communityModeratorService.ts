@@ -0,0 +1,308 @@
+import { Community, Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import {
+  CommunityService,
+  CommunityError,
+  normalizePermissions,
+} from "./communityService";
+import { ModerationService } from "./moderationService";
+import { NotificationType, SourceType } from "./userNotificationService";
+import { notificationService } from "@/types/notifications/notificaitons";
+import {
+  AddModeratorInput,
+  COMMUNITY_PERMISSIONS,
+  CommunityPermissions,
+  CommunityPermissionsInput,
+} from "@/types/community/community";
+
+const moderatorUserSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  name: true,
+  avatar: true,
+});
+
+// Moderators added without explicit permissions only handle posts
+const DEFAULT_MODERATOR_PERMISSIONS: CommunityPermissionsInput = {
+  canManagePosts: true,
+};
+
+const toPermissions = (input: CommunityPermissionsInput) =>
+  Object.fromEntries(
+    COMMUNITY_PERMISSIONS.map((permission) => [
+      permission,
+      input[permission] === true,
+    ])
+  ) as CommunityPermissions;
+
+/**
+ * Moderators can only hand out, or take away, permissions they hold
+ * themselves, which keeps delegation from escalating privileges.
+ */
+const assertHoldsPermissions = (
+  actor: CommunityPermissions,
+  required: CommunityPermissions
+) => {
+  const missing = COMMUNITY_PERMISSIONS.filter(
+    (permission) => required[permission] && !actor[permission]
+  );
+
+  if (missing.length) {
+    throw new CommunityError(
+      403,
+      `Missing required permission: ${missing.join(", ")}`
+    );
+  }
+};
+
+export class CommunityModeratorService {
+  static async listModerators(slug: string) {
+    const community = await CommunityService.getCommunityBySlug(slug);
+
+    const moderators = await prisma.communityModerator.findMany({
+      where: { communityId: community.id },
+      include: { user: { select: moderatorUserSelect } },
+      orderBy: { addedAt: "asc" },
+    });
+
+    return moderators.map((moderator) => ({
+      ...moderator,
+      permissions: normalizePermissions(moderator.permissions),
+      isCreator: moderator.userId === community.creatorId,
+    }));
+  }
+
+  private static async getModerator(community: Community, userId: string) {
+    const moderator = await prisma.communityModerator.findUnique({
+      where: {
+        communityId_userId: { communityId: community.id, userId },
+      },
+    });
+
+    if (!moderator) {
+      throw new CommunityError(404, "User is not a moderator");
+    }
+
+    if (moderator.userId === community.creatorId) {
+      throw new CommunityError(
+        403,
+        "The community creator's moderator role cannot be changed"
+      );
+    }
+
+    return moderator;
+  }
+
+  static async addModerator(
+    actorId: string,
+    actorPermissions: CommunityPermissions,
+    community: Community,
+    input: AddModeratorInput
+  ) {
+    const perf = createPerformanceTracker("add-community-moderator");
+
+    try {
+      const permissions = toPermissions(
+        input.permissions ?? DEFAULT_MODERATOR_PERMISSIONS
+      );
+      assertHoldsPermissions(actorPermissions, permissions);
+
+      const membership = await prisma.communityMember.findUnique({
+        where: {
+          communityId_userId: {
+            communityId: community.id,
+            userId: input.userId,
+          },
+        },
+      });
+
+      if (!membership) {
+        throw new CommunityError(404, "User is not a member of this community");
+      }
+
+      if (await CommunityService.isModerator(input.userId, community)) {
+        throw new CommunityError(409, "User is already a moderator");
+      }
+
+      const moderator = await prisma.$transaction(async (tx) => {
+        const created = await tx.communityModerator.create({
+          data: {
+            communityId: community.id,
+            userId: input.userId,
+            permissions,
+            addedBy: actorId,
+          },
+        });
+
+        await ModerationService.logAction(
+          {
+            type: "add_moderator",
+            moderatorId: actorId,
+            targetId: input.userId,
+            targetType: "user",
+            reason: "Moderator added",
+            communityId: community.id,
+            metadata: { permissions },
+          },
+          tx
+        );
+
+        return created;
+      });
+
+      await notificationService.createNotification(
+        input.userId,
+        NotificationType.COMMUNITY_UPDATE,
+        "You are now a moderator",
+        `You were made a moderator of ${community.name}`,
+        SourceType.COMMUNITY,
+        community.id,
+        { slug: community.slug, permissions }
+      );
+
+      const duration = perf.end();
+      logger.info("Community moderator added", {
+        communityId: community.id,
+        userId: input.userId,
+        addedBy: actorId,
+        duration,
+      });
+
+      return moderator;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error adding community moderator:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        communityId: community.id,
+        userId: input.userId,
+        actorId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  static async updateModeratorPermissions(
+    actorId: string,
+    actorPermissions: CommunityPermissions,
+    community: Community,
+    userId: string,
+    input: CommunityPermissionsInput
+  ) {
+    const moderator = await this.getModerator(community, userId);
+    const current = normalizePermissions(moderator.permissions);
+    const permissions = { ...current };
+
+    // Only the keys sent are changed; each needs to be held by the actor
+    for (const permission of COMMUNITY_PERMISSIONS) {
+      const value = input[permission];
+      if (value === undefined) continue;
+
+      if (!actorPermissions[permission]) {
+        throw new CommunityError(
+          403,
+          `Missing required permission: ${permission}`
+        );
+      }
+      permissions[permission] = value;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.communityModerator.update({
+        where: { id: moderator.id },
+        data: { permissions },
+      });
+
+      await ModerationService.logAction(
+        {
+          type: "update_moderator",
+          moderatorId: actorId,
+          targetId: userId,
+          targetType: "user",
+          reason: "Moderator permissions changed",
+          communityId: community.id,
+          metadata: { from: current, to: permissions },
+        },
+        tx
+      );
+
+      return saved;
+    });
+
+    logger.info("Community moderator permissions changed", {
+      communityId: community.id,
+      userId,
+      actorId,
+      from: current,
+      to: permissions,
+    });
+
+    return { ...updated, permissions };
+  }
+
+  static async removeModerator(
+    actorId: string,
+    actorPermissions: CommunityPermissions,
+    community: Community,
+    userId: string
+  ) {
+    const moderator = await this.getModerator(community, userId);
+
+    // Stepping down is always allowed
+    if (userId !== actorId) {
+      assertHoldsPermissions(
+        actorPermissions,
+        normalizePermissions(moderator.permissions)
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.communityModerator.delete({ where: { id: moderator.id } });
+
+      await ModerationService.logAction(
+        {
+          type: "remove_moderator",
+          moderatorId: actorId,
+          targetId: userId,
+          targetType: "user",
+          reason: "Moderator removed",
+          communityId: community.id,
+          metadata: {
+            permissions: moderator.permissions,
+            addedBy: moderator.addedBy,
+          },
+        },
+        tx
+      );
+    });
+
+    if (userId !== actorId) {
+      await notificationService.createNotification(
+        userId,
+        NotificationType.COMMUNITY_UPDATE,
+        "Moderator role removed",
+        `You are no longer a moderator of ${community.name}`,
+        SourceType.COMMUNITY,
+        community.id,
+        { slug: community.slug }
+      );
+    }
+
+    logger.info("Community moderator removed", {
+      communityId: community.id,
+      userId,
+      actorId,
+    });
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,423 @@
+import { Community, Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import {
+  COMMUNITY_PERMISSIONS,
+  CommunityListOptions,
+  CommunityPermission,
+  CommunityPermissions,
+  CreateCommunityInput,
+  UpdateCommunityInput,
+} from "@/types/community/community";
+
+export class CommunityError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+    this.name = "CommunityError";
+  }
+}
+
+export const FULL_MODERATOR_PERMISSIONS: CommunityPermissions = {
+  canManagePosts: true,
+  canManageUsers: true,
+  canManageRules: true,
+  canManageAutoMod: true,
+  canManageModerators: true,
+};
+
+/**
+ * Reads a stored permissions document into the typed set. Records written
+ * before permissions were typed hold `{ all: true }`.
+ */
+export const normalizePermissions = (
+  stored: Prisma.JsonValue
+): CommunityPermissions => {
+  const value =
+    stored && typeof stored === "object" && !Array.isArray(stored)
+      ? (stored as Record<string, unknown>)
+      : {};
+
+  return Object.fromEntries(
+    COMMUNITY_PERMISSIONS.map((permission) => [
+      permission,
+      value.all === true || value[permission] === true,
+    ])
+  ) as CommunityPermissions;
+};
+
+export const sanitize = (str: string | undefined) =>
+  str?.replace(/<[^>]*>/g, "").trim();
+
+// A name that is only markup would be stored raw or left empty
+const sanitizeName = (name: string) => {
+  const sanitized = sanitize(name);
+  if (!sanitized) {
+    throw new CommunityError(400, "Community name must contain text");
+  }
+  return sanitized;
+};
+
+type TokenGateSettings = Partial<
+  Pick<
+    Community,
+    "tokenGated" | "tokenAddress" | "tokenChainId" | "requiredBalance"
+  >
+>;
+
+// A gate is only enforceable once the token and threshold are all known
+const assertValidTokenGate = (settings: TokenGateSettings) => {
+  if (
+    settings.tokenGated &&
+    (!settings.tokenAddress ||
+      !settings.tokenChainId ||
+      settings.requiredBalance == null)
+  ) {
+    throw new CommunityError(
+      400,
+      "Token gated communities require tokenAddress, tokenChainId and requiredBalance"
+    );
+  }
+};
+
+export class CommunityService {
+  static async getCommunityBySlug(slug: string): Promise<Community> {
+    const community = await prisma.community.findUnique({
+      where: { slug: slug.toLowerCase() },
+    });
+
+    if (!community) {
+      throw new CommunityError(404, "Community not found");
+    }
+
+    return community;
+  }
+
+  /**
+   * Archived communities are hidden like in the list, and private ones from
+   * non-members; their moderators still see both.
+   */
+  static async getVisibleCommunity(
+    viewerId: string,
+    slug: string
+  ): Promise<Community> {
+    const community = await this.getCommunityBySlug(slug);
+
+    if (!community.isArchived && !community.isPrivate) return community;
+
+    const visible =
+      (await this.isModerator(viewerId, community)) ||
+      (!community.isArchived &&
+        !!(await prisma.communityMember.findUnique({
+          where: {
+            communityId_userId: { communityId: community.id, userId: viewerId },
+          },
+          select: { id: true },
+        })));
+
+    if (!visible) {
+      throw new CommunityError(404, "Community not found");
+    }
+
+    return community;
+  }
+
+  static async isModerator(
+    userId: string,
+    community: Pick<Community, "id" | "creatorId">
+  ): Promise<boolean> {
+    if (community.creatorId === userId) return true;
+
+    const moderator = await prisma.communityModerator.findUnique({
+      where: {
+        communityId_userId: { communityId: community.id, userId },
+      },
+      select: { id: true },
+    });
+
+    return !!moderator;
+  }
+
+  // The creator holds every permission regardless of the stored record
+  static async getPermissions(
+    userId: string,
+    community: Pick<Community, "id" | "creatorId">
+  ): Promise<CommunityPermissions | null> {
+    if (community.creatorId === userId) return FULL_MODERATOR_PERMISSIONS;
+
+    const moderator = await prisma.communityModerator.findUnique({
+      where: {
+        communityId_userId: { communityId: community.id, userId },
+      },
+      select: { permissions: true },
+    });
+
+    return moderator ? normalizePermissions(moderator.permissions) : null;
+  }
+
+  static async hasPermission(
+    userId: string,
+    community: Pick<Community, "id" | "creatorId">,
+    permission: CommunityPermission
+  ): Promise<boolean> {
+    const permissions = await this.getPermissions(userId, community);
+    return !!permissions?.[permission];
+  }
+
+  // Without a permission any moderator passes
+  static async assertCanModerate(
+    userId: string,
+    community: Pick<Community, "id" | "creatorId">,
+    permission?: CommunityPermission
+  ): Promise<void> {
+    const permissions = await this.getPermissions(userId, community);
+
+    if (!permissions) {
+      throw new CommunityError(403, "Moderator access required");
+    }
+
+    if (permission && !permissions[permission]) {
+      throw new CommunityError(
+        403,
+        `Missing required permission: ${permission}`
+      );
+    }
+  }
+
+  static async createCommunity(userId: string, input: CreateCommunityInput) {
+    const perf = createPerformanceTracker("create-community");
+    const slug = input.slug.toLowerCase();
+
+    try {
+      assertValidTokenGate(input);
+
+      const existing = await prisma.community.findUnique({
+        where: { slug },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new CommunityError(409, "Community slug is already taken");
+      }
+
+      const community = await prisma.$transaction(async (tx) => {
+        const created = await tx.community.create({
+          data: {
+            ...input,
+            slug,
+            name: sanitizeName(input.name),
+            description: sanitize(input.description),
+            rules: input.rules as Prisma.InputJsonValue | undefined,
+            tags: input.tags ?? [],
+            creatorId: userId,
+            memberCount: 1,
+          },
+        });
+
+        await tx.communityMember.create({
+          data: {
+            communityId: created.id,
+            userId,
+            role: "vip",
+          },
+        });
+
+        await tx.communityModerator.create({
+          data: {
+            communityId: created.id,
+            userId,
+            permissions: FULL_MODERATOR_PERMISSIONS,
+            addedBy: userId,
+          },
+        });
+
+        return created;
+      });
+
+      const duration = perf.end();
+      logger.info("Community created", {
+        communityId: community.id,
+        slug,
+        creatorId: userId,
+        duration,
+      });
+
+      return community;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error creating community:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        slug,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  static async updateCommunity(
+    userId: string,
+    slug: string,
+    input: UpdateCommunityInput
+  ) {
+    const perf = createPerformanceTracker("update-community");
+
+    try {
+      const community = await this.getCommunityBySlug(slug);
+
+      if (community.isArchived) {
+        throw new CommunityError(409, "Archived communities cannot be edited");
+      }
+
+      await this.assertCanModerate(userId, community, "canManageRules");
+
+      assertValidTokenGate({
+        tokenGated: input.tokenGated ?? community.tokenGated,
+        tokenAddress: input.tokenAddress ?? community.tokenAddress,
+        tokenChainId: input.tokenChainId ?? community.tokenChainId,
+        requiredBalance: input.requiredBalance ?? community.requiredBalance,
+      });
+
+      const updated = await prisma.community.update({
+        where: { id: community.id },
+        data: {
+          ...input,
+          name: input.name !== undefined ? sanitizeName(input.name) : undefined,
+          description: sanitize(input.description),
+          rules: input.rules as Prisma.InputJsonValue | undefined,
+        },
+      });
+
+      const duration = perf.end();
+      logger.info("Community updated", {
+        communityId: community.id,
+        userId,
+        updatedFields: Object.keys(input),
+        duration,
+      });
+
+      return updated;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error updating community:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        slug,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  static async archiveCommunity(userId: string, slug: string) {
+    const perf = createPerformanceTracker("archive-community");
+
+    try {
+      const community = await this.getCommunityBySlug(slug);
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { isAdmin: true },
+      });
+
+      if (community.creatorId !== userId && !user?.isAdmin) {
+        throw new CommunityError(
+          403,
+          "Only the community creator can archive it"
+        );
+      }
+
+      const archived = await prisma.community.update({
+        where: { id: community.id },
+        data: { isArchived: true },
+      });
+
+      const duration = perf.end();
+      logger.info("Community archived", {
+        communityId: community.id,
+        userId,
+        duration,
+      });
+
+      return archived;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error archiving community:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        slug,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  // Private communities are listed only for their members
+  static async listCommunities(
+    viewerId: string,
+    options: CommunityListOptions
+  ) {
+    const { page, limit, category, tags, isNSFW, sort } = options;
+
+    const memberships = await prisma.communityMember.findMany({
+      where: { userId: viewerId },
+      select: { communityId: true },
+    });
+
+    const where: Prisma.CommunityWhereInput = {
+      isArchived: false,
+      OR: [
+        { isPrivate: false },
+        { id: { in: memberships.map((m) => m.communityId) } },
+      ],
+      ...(category && { category }),
+      ...(tags?.length && { tags: { hasSome: tags } }),
+      ...(isNSFW !== undefined && { isNSFW }),
+    };
+
+    const orderBy: Prisma.CommunityOrderByWithRelationInput =
+      sort === "new" ? { createdAt: "desc" } : { memberCount: "desc" };
+
+    const [communities, total] = await Promise.all([
+      prisma.community.findMany({
+        where,
+        orderBy,
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      prisma.community.count({ where }),
+    ]);
+
+    return {
+      communities,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+      },
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { ContentPreferenceType } from "@/types/community/feed";
+
+// How far a single full-strength signal moves a weight
+const LEARNING_RATE = 0.1;
+const MIN_WEIGHT = 0.1;
+const MAX_WEIGHT = 5;
+const DEFAULT_WEIGHT = 1;
+
+// Signal strengths per unit of vote change; dwell scales with reading time
+export const SIGNAL_STRENGTH = {
+  vote: 1,
+  save: 1.5,
+  maxDwell: 0.5,
+  bounce: -0.2,
+};
+
+// Dwell below this reads as a bounce, at or above the cap earns the full bonus
+const BOUNCE_MS = 2000;
+const DWELL_CAP_MS = 60000;
+
+export type PreferenceWeights = Map<string, number>;
+
+const weightKey = (type: ContentPreferenceType, value: string) =>
+  `${type}:${value.toLowerCase()}`;
+
+export class ContentPreferenceService {
+  static async getWeights(userId: string): Promise<PreferenceWeights> {
+    const preferences = await prisma.contentPreference.findMany({
+      where: { userId },
+      select: { type: true, value: true, weight: true },
+    });
+
+    return new Map(
+      preferences.map((preference) => [
+        weightKey(preference.type as ContentPreferenceType, preference.value),
+        preference.weight,
+      ])
+    );
+  }
+
+  // Mean weight of the post's tags, community category and content type
+  static affinity(
+    weights: PreferenceWeights,
+    post: { type: string; tags: string[]; category?: string | null }
+  ): number {
+    const keys = [
+      weightKey("content_type", post.type),
+      ...post.tags.map((tag) => weightKey("tag", tag)),
+      ...(post.category ? [weightKey("category", post.category)] : []),
+    ];
+
+    const total = keys.reduce(
+      (sum, key) => sum + (weights.get(key) ?? DEFAULT_WEIGHT),
+      0
+    );
+
+    return total / keys.length;
+  }
+
+  static dwellStrength(durationMs: number): number {
+    if (durationMs < BOUNCE_MS) return SIGNAL_STRENGTH.bounce;
+
+    return (
+      (Math.min(durationMs, DWELL_CAP_MS) / DWELL_CAP_MS) *
+      SIGNAL_STRENGTH.maxDwell
+    );
+  }
+
+  /**
+   * Nudges every preference the post touches by `strength` * LEARNING_RATE.
+   * Learning is best effort and never fails the action that triggered it.
+   */
+  static async recordSignal(userId: string, postId: string, strength: number) {
+    if (strength === 0) return;
+
+    try {
+      const post = await prisma.post.findUnique({
+        where: { id: postId },
+        select: {
+          type: true,
+          tags: true,
+          community: { select: { category: true } },
+        },
+      });
+
+      if (!post) return;
+
+      const targets: { type: ContentPreferenceType; value: string }[] = [
+        { type: "content_type", value: post.type },
+        ...post.tags.map((tag) => ({
+          type: "tag" as const,
+          value: tag.toLowerCase(),
+        })),
+        ...(post.community.category
+          ? [
+              {
+                type: "category" as const,
+                value: post.community.category.toLowerCase(),
+              },
+            ]
+          : []),
+      ];
+
+      for (const target of targets) {
+        const existing = await prisma.contentPreference.findUnique({
+          where: { userId_type_value: { userId, ...target } },
+          select: { weight: true },
+        });
+
+        const weight = Math.min(
+          MAX_WEIGHT,
+          Math.max(
+            MIN_WEIGHT,
+            (existing?.weight ?? DEFAULT_WEIGHT) + strength * LEARNING_RATE
+          )
+        );
+
+        await prisma.contentPreference.upsert({
+          where: { userId_type_value: { userId, ...target } },
+          create: { userId, ...target, weight },
+          update: { weight },
+        });
+      }
+    } catch (error) {
+      logger.warn("Failed to record content preference signal", {
+        userId,
+        postId,
+        strength,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Prisma } from "@prisma/client";
+import { AppError } from "@/utils/errorHandler";
+import {
+  DATASET_LICENSES,
+  DATASET_SIZE_CATEGORIES,
+  DATASET_TASK_CATEGORIES,
+  DatasetCard,
+  DatasetCardInput,
+} from "@/types/dataset/card";
+
+const EMPTY_CARD: DatasetCard = {
+  license: null,
+  taskCategories: [],
+  languages: [],
+  sizeCategory: null,
+  collectionProcess: null,
+  knownBiases: [],
+  citation: null,
+};
+
+const BIBTEX_ENTRY_START = /^@([a-zA-Z]+)\s*\{\s*([^\s,{}]+)\s*,/;
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown) =>
+  typeof value === "string" && (values as readonly string[]).includes(value)
+    ? (value as T)
+    : null;
+
+const strings = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+
+const text = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+// Case-insensitive dedupe that keeps the first spelling
+const unique = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Checks that the citation is a single BibTeX entry: `@type{key, ...}` with
+ * balanced braces and nothing after the closing one. Code fences are
+ * rejected since the citation is rendered inside one in the README.
+ */
+const validateBibtex = (citation: string) => {
+  const start = BIBTEX_ENTRY_START.exec(citation);
+  if (!start) {
+    throw new AppError(
+      "Citation must be a BibTeX entry such as @misc{key, title = {...}}",
+      400
+    );
+  }
+
+  if (citation.includes("```")) {
+    throw new AppError("Citation cannot contain code fences (```)", 400);
+  }
+
+  let depth = 0;
+  for (let i = citation.indexOf("{"); i < citation.length; i++) {
+    const char = citation[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        if (citation.slice(i + 1).trim()) {
+          throw new AppError(
+            "Citation must contain a single BibTeX entry",
+            400
+          );
+        }
+        return;
+      }
+    }
+  }
+
+  throw new AppError("Citation has unbalanced braces", 400);
+};
+
+/**
+ * Structured dataset card stored on Dataset.card. The schema in
+ * types/dataset/card validates shape and vocabularies; this normalizes
+ * the values and checks what the schema cannot.
+ */
+export class DatasetCardService {
+  static normalize(input: DatasetCardInput): DatasetCard {
+    const citation = text(input.citation);
+    if (citation) validateBibtex(citation);
+
+    return {
+      license: input.license ?? null,
+      taskCategories: [...new Set(input.taskCategories ?? [])],
+      // Language subtags are case-insensitive; store them as en, pt-br
+      languages: unique(
+        (input.languages ?? []).map((language) => language.toLowerCase())
+      ),
+      sizeCategory: input.sizeCategory ?? null,
+      collectionProcess: text(input.collectionProcess),
+      knownBiases: unique(
+        (input.knownBiases ?? []).map((bias) => bias.trim()).filter(Boolean)
+      ),
+      citation,
+    };
+  }
+
+  static toJson(card: DatasetCard) {
+    return card as unknown as Prisma.InputJsonValue;
+  }
+
+  // Reads a stored card, dropping values no longer in the vocabularies
+  static parse(value: Prisma.JsonValue | null | undefined): DatasetCard {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return { ...EMPTY_CARD };
+    }
+
+    const card = value as Record<string, unknown>;
+    return {
+      license: isOneOf(DATASET_LICENSES, card.license),
+      taskCategories: strings(card.taskCategories)
+        .map((category) => isOneOf(DATASET_TASK_CATEGORIES, category))
+        .filter((category) => category !== null),
+      languages: strings(card.languages),
+      sizeCategory: isOneOf(DATASET_SIZE_CATEGORIES, card.sizeCategory),
+      collectionProcess: text(card.collectionProcess),
+      knownBiases: strings(card.knownBiases),
+      citation: text(card.citation),
+    };
+  }
+}
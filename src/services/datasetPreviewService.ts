@@ -0,0 +1,595 @@
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { AppError } from "@/utils/errorHandler";
+import { CsvParser } from "@/utils/csvParser";
+import {
+  LeafColumn,
+  ParquetMetadata,
+  readParquetMetadata,
+} from "@/utils/parquetFooter";
+import { decodeColumnChunk, isReadableColumn } from "@/utils/parquetReader";
+import { s3DatasetService } from "./s3DatasetService";
+import { detectProfileFormat } from "./datasetProfiler";
+import { FilePreview, PreviewOptions } from "@/types/dataset/preview";
+import { ProfileFormat } from "@/types/dataset/profile";
+
+export const MAX_PREVIEW_ROWS = 500;
+export const MAX_SAMPLE_ROWS = 100;
+// Paging through text files streams from the start, up to this many bytes
+const MAX_SCAN_BYTES = 64 * 1024 * 1024;
+// Text files up to this size are sampled in memory rather than by seeking
+const IN_MEMORY_SAMPLE_BYTES = 1024 * 1024;
+// Bytes read around each random offset when sampling larger text files
+const SAMPLE_WINDOW_BYTES = 64 * 1024;
+const SAMPLE_READ_CONCURRENCY = 10;
+// Parquet column chunks are read whole; stop before they get too costly
+const MAX_PARQUET_READ_BYTES = 128 * 1024 * 1024;
+
+interface PreviewFile {
+  name: string;
+  contentType: string;
+  storageKey: string;
+}
+
+// A parsed data row: cells for delimited files, an object for JSON lines
+type TextRecord = string[] | Record<string, unknown>;
+
+const randomInt = (max: number) => Math.floor(Math.random() * max);
+
+// Distinct random integers in [0, max), ascending
+const randomIndexes = (max: number, count: number) => {
+  if (count >= max) return Array.from({ length: max }, (_, i) => i);
+
+  const picked = new Set<number>();
+  while (picked.size < count) picked.add(randomInt(max));
+  return [...picked].sort((a, b) => a - b);
+};
+
+// Fisher-Yates, on a copy
+const shuffle = <T>(items: T[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const parseJsonLine = (line: string, lineNumber: number) => {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    throw new AppError(`Invalid JSON on line ${lineNumber}`, 422);
+  }
+
+  // Non-object lines are shown as a single unnamed column, as in profiles
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : { value };
+};
+
+/**
+ * Row previews of tabular dataset files, read straight from storage so the
+ * UI can show data without a full download. Text formats are streamed from
+ * the start or sampled with ranged reads; Parquet pages are decoded only for
+ * the row groups and columns requested.
+ */
+export class DatasetPreviewService {
+  static async previewFile(
+    file: PreviewFile,
+    options: PreviewOptions
+  ): Promise<FilePreview> {
+    const perf = createPerformanceTracker("dataset-file-preview");
+
+    const format = detectProfileFormat(file);
+    if (!format) {
+      throw new AppError(
+        "Previews are only available for CSV, TSV, JSONL and Parquet files",
+        415
+      );
+    }
+
+    const limit = options.sample
+      ? Math.min(options.limit, MAX_SAMPLE_ROWS)
+      : Math.min(options.limit, MAX_PREVIEW_ROWS);
+    const resolved = {
+      ...options,
+      limit,
+      offset: options.sample ? 0 : options.offset,
+    };
+
+    const size = await s3DatasetService.getObjectSize(file.storageKey);
+    const preview =
+      format === "parquet"
+        ? await this.previewParquet(file.storageKey, size, resolved)
+        : await this.previewText(file.storageKey, size, format, resolved);
+
+    logger.info("Dataset file previewed", {
+      format,
+      sample: resolved.sample,
+      rows: preview.rows.length,
+      columns: preview.columns.length,
+      duration: perf.end(),
+    });
+
+    return preview;
+  }
+
+  private static async previewText(
+    storageKey: string,
+    size: number,
+    format: ProfileFormat,
+    options: PreviewOptions
+  ): Promise<FilePreview> {
+    const delimiter = format === "tsv" ? "\t" : ",";
+
+    const { header, records, hasMore, totalRows } = options.sample
+      ? size <= IN_MEMORY_SAMPLE_BYTES
+        ? await this.sampleInMemory(
+            storageKey,
+            size,
+            format,
+            delimiter,
+            options
+          )
+        : await this.sampleByOffsets(
+            storageKey,
+            size,
+            format,
+            delimiter,
+            options
+          )
+      : await this.pageText(storageKey, size, format, delimiter, options);
+
+    let columns: string[];
+    let rows: unknown[][];
+
+    if (format === "jsonl") {
+      const objects = records as Record<string, unknown>[];
+      columns = options.columns ?? [
+        ...new Set(objects.flatMap((record) => Object.keys(record))),
+      ];
+      rows = objects.map((record) =>
+        columns.map((name) => record[name] ?? null)
+      );
+    } else {
+      const names = header ?? [];
+      const indexes = options.columns
+        ? this.resolveColumns(names, options.columns)
+        : names.map((_, i) => i);
+      columns = indexes.map((i) => names[i]);
+      rows = (records as string[][]).map((record) =>
+        indexes.map((i) => record[i] ?? "")
+      );
+    }
+
+    return {
+      format,
+      columns,
+      rows,
+      offset: options.offset,
+      limit: options.limit,
+      sample: options.sample,
+      hasMore,
+      totalRows,
+    };
+  }
+
+  private static resolveColumns(names: string[], requested: string[]) {
+    const unknown = requested.filter((name) => !names.includes(name));
+    if (unknown.length) {
+      throw new AppError(`Unknown columns: ${unknown.join(", ")}`, 400);
+    }
+    return requested.map((name) => names.indexOf(name));
+  }
+
+  /**
+   * Streams records from the start of a text file, calling `visit` for each
+   * until it returns false. Reads at most MAX_SCAN_BYTES; `complete` says
+   * whether the whole file was seen.
+   */
+  private static async scanText(
+    storageKey: string,
+    size: number,
+    format: ProfileFormat,
+    delimiter: string,
+    visit: (record: TextRecord, isHeader: boolean) => boolean
+  ) {
+    const truncated = size > MAX_SCAN_BYTES;
+    const parser = new CsvParser(delimiter);
+    let buffered = "";
+    let lineNumber = 0;
+    let sawHeader = format === "jsonl";
+
+    const emit = (records: TextRecord[]) => {
+      for (const record of records) {
+        const isHeader = !sawHeader;
+        sawHeader = true;
+        if (!visit(record, isHeader)) return false;
+      }
+      return true;
+    };
+
+    const jsonRecords = (lines: string[]) =>
+      lines.flatMap((line) => {
+        lineNumber++;
+        return line.trim() ? [parseJsonLine(line, lineNumber)] : [];
+      });
+
+    for await (const text of s3DatasetService.streamText(
+      storageKey,
+      truncated ? { start: 0, end: MAX_SCAN_BYTES - 1 } : undefined
+    )) {
+      let records: TextRecord[];
+      if (format === "jsonl") {
+        const lines = (buffered + text).split("\n");
+        buffered = lines.pop() ?? "";
+        records = jsonRecords(lines);
+      } else {
+        records = parser.push(text);
+      }
+
+      if (!emit(records)) return { complete: false, stopped: true };
+    }
+
+    // A cut off final record is dropped rather than shown half read
+    if (truncated) return { complete: false, stopped: false };
+
+    const finished = emit(
+      format === "jsonl" ? jsonRecords([buffered]) : parser.end()
+    );
+    return { complete: finished, stopped: !finished };
+  }
+
+  private static async pageText(
+    storageKey: string,
+    size: number,
+    format: ProfileFormat,
+    delimiter: string,
+    options: PreviewOptions
+  ) {
+    let header: string[] | null = null;
+    const records: TextRecord[] = [];
+    let seen = 0;
+    let hasMore = false;
+
+    const { complete, stopped } = await this.scanText(
+      storageKey,
+      size,
+      format,
+      delimiter,
+      (record, isHeader) => {
+        if (isHeader) {
+          header = record as string[];
+          return true;
+        }
+        if (seen++ < options.offset) return true;
+        if (records.length < options.limit) {
+          records.push(record);
+          return true;
+        }
+        hasMore = true;
+        return false;
+      }
+    );
+
+    if (!complete && !stopped && seen <= options.offset) {
+      throw new AppError(
+        "Offset is beyond the part of the file that can be previewed",
+        400
+      );
+    }
+
+    return {
+      header: header as string[] | null,
+      records,
+      // Rows past the scan limit exist but were not read
+      hasMore: hasMore || (!complete && !stopped),
+      totalRows: complete ? seen : null,
+    };
+  }
+
+  // Reservoir sample over the whole (small) file, returned in file order
+  private static async sampleInMemory(
+    storageKey: string,
+    size: number,
+    format: ProfileFormat,
+    delimiter: string,
+    options: PreviewOptions
+  ) {
+    let header: string[] | null = null;
+    const reservoir: { index: number; record: TextRecord }[] = [];
+    let seen = 0;
+
+    await this.scanText(
+      storageKey,
+      size,
+      format,
+      delimiter,
+      (record, isHeader) => {
+        if (isHeader) {
+          header = record as string[];
+          return true;
+        }
+
+        const index = seen++;
+        if (reservoir.length < options.limit) {
+          reservoir.push({ index, record });
+        } else {
+          const slot = randomInt(seen);
+          if (slot < options.limit) reservoir[slot] = { index, record };
+        }
+        return true;
+      }
+    );
+
+    return {
+      header: header as string[] | null,
+      records: reservoir
+        .sort((a, b) => a.index - b.index)
+        .map(({ record }) => record),
+      hasMore: null,
+      totalRows: seen,
+    };
+  }
+
+  /**
+   * Samples larger files by reading a small window at random byte offsets
+   * and taking the first full line after each. Longer lines are more likely
+   * to be picked, and a quoted field spanning lines can be cut, so this is
+   * an approximation meant for eyeballing data.
+   */
+  private static async sampleByOffsets(
+    storageKey: string,
+    size: number,
+    format: ProfileFormat,
+    delimiter: string,
+    options: PreviewOptions
+  ) {
+    let header: string[] | null = null;
+    let dataStart = 0;
+
+    if (format !== "jsonl") {
+      const head = await s3DatasetService.getObjectRange(
+        storageKey,
+        0,
+        SAMPLE_WINDOW_BYTES - 1
+      );
+      const lineEnd = head.indexOf(0x0a);
+      if (lineEnd < 0) {
+        throw new AppError("Header row is too long to preview", 422);
+      }
+      header = new CsvParser(delimiter).push(
+        head.subarray(0, lineEnd + 1).toString("utf8")
+      )[0];
+      dataStart = lineEnd + 1;
+    }
+
+    const offsets = Array.from(
+      { length: options.limit },
+      () => dataStart + randomInt(size - dataStart)
+    );
+
+    const lines = new Map<number, string>();
+    for (let i = 0; i < offsets.length; i += SAMPLE_READ_CONCURRENCY) {
+      const windows = await Promise.all(
+        offsets.slice(i, i + SAMPLE_READ_CONCURRENCY).map(async (offset) => ({
+          offset,
+          bytes: await s3DatasetService.getObjectRange(
+            storageKey,
+            offset,
+            Math.min(offset + SAMPLE_WINDOW_BYTES, size) - 1
+          ),
+        }))
+      );
+
+      for (const { offset, bytes } of windows) {
+        // Skip the partial line the offset landed in
+        const start = bytes.indexOf(0x0a) + 1;
+        if (!start) continue;
+
+        let end = bytes.indexOf(0x0a, start);
+        if (end < 0) {
+          if (offset + bytes.length < size) continue;
+          end = bytes.length;
+        }
+
+        const line = bytes.subarray(start, end).toString("utf8");
+        if (line.trim()) lines.set(offset + start, line);
+      }
+    }
+
+    const records = [...lines.entries()]
+      .sort(([a], [b]) => a - b)
+      .flatMap(([, line]): TextRecord[] => {
+        if (format !== "jsonl") {
+          return new CsvParser(delimiter).push(`${line}\n`).slice(0, 1);
+        }
+        try {
+          return [parseJsonLine(line, 0)];
+        } catch {
+          return [];
+        }
+      });
+
+    return { header, records, hasMore: null, totalRows: null };
+  }
+
+  private static async previewParquet(
+    storageKey: string,
+    size: number,
+    options: PreviewOptions
+  ): Promise<FilePreview> {
+    let budget = MAX_PARQUET_READ_BYTES;
+    const readRange = (start: number, end: number) => {
+      budget -= end - start + 1;
+      if (budget < 0) {
+        throw new AppError(
+          "Preview would read too much of this file; request fewer columns or rows",
+          413
+        );
+      }
+      return s3DatasetService.getObjectRange(storageKey, start, end);
+    };
+
+    try {
+      const metadata = await readParquetMetadata(size, readRange);
+      const readable = metadata.columns.filter(isReadableColumn);
+
+      let columns = readable;
+      if (options.columns) {
+        const byPath = new Map(
+          metadata.columns.map((column) => [column.path, column])
+        );
+        const unknown = options.columns.filter((name) => !byPath.has(name));
+        if (unknown.length) {
+          throw new AppError(`Unknown columns: ${unknown.join(", ")}`, 400);
+        }
+
+        columns = options.columns.map((name) => byPath.get(name)!);
+        const nested = columns.filter((column) => !isReadableColumn(column));
+        if (nested.length) {
+          throw new AppError(
+            `Nested columns cannot be previewed: ${nested
+              .map((column) => column.path)
+              .join(", ")}`,
+            400
+          );
+        }
+      }
+
+      const rowIndexes = options.sample
+        ? this.sampleParquetRows(metadata, columns, options.limit)
+        : Array.from(
+            {
+              length: Math.max(
+                Math.min(options.limit, metadata.rowCount - options.offset),
+                0
+              ),
+            },
+            (_, i) => options.offset + i
+          );
+
+      const rows = await this.readParquetRows(
+        metadata,
+        columns,
+        rowIndexes,
+        readRange
+      );
+      const omitted = options.columns
+        ? []
+        : metadata.columns.filter((column) => !isReadableColumn(column));
+
+      return {
+        format: "parquet",
+        columns: columns.map((column) => column.path),
+        rows,
+        offset: options.offset,
+        limit: options.limit,
+        sample: options.sample,
+        hasMore: options.sample
+          ? null
+          : options.offset + options.limit < metadata.rowCount,
+        totalRows: metadata.rowCount,
+        ...(omitted.length && {
+          omittedColumns: omitted.map((column) => column.path),
+        }),
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        `Could not read Parquet file: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`,
+        422
+      );
+    }
+  }
+
+  /**
+   * Picks random row groups until their chunks for the requested columns
+   * would exceed the read budget, then samples rows within those groups.
+   */
+  private static sampleParquetRows(
+    metadata: ParquetMetadata,
+    columns: LeafColumn[],
+    limit: number
+  ) {
+    const groups = metadata.rowGroups.map((group, i) => ({
+      group,
+      start: metadata.rowGroups
+        .slice(0, i)
+        .reduce((total, previous) => total + previous.rowCount, 0),
+      bytes: columns.reduce(
+        (total, column) => total + (group.chunks.get(column.path)?.length ?? 0),
+        0
+      ),
+    }));
+
+    const chosen: typeof groups = [];
+    let bytes = 0;
+    let rows = 0;
+    for (const candidate of shuffle(groups)) {
+      if (chosen.length && bytes + candidate.bytes > MAX_PARQUET_READ_BYTES) {
+        continue;
+      }
+      chosen.push(candidate);
+      bytes += candidate.bytes;
+      rows += candidate.group.rowCount;
+      if (rows >= limit * 10) break;
+    }
+
+    // Positions within the chosen groups, mapped back to file row numbers
+    const positions: number[] = [];
+    for (const { group, start } of chosen.sort((a, b) => a.start - b.start)) {
+      for (let i = 0; i < group.rowCount; i++) positions.push(start + i);
+    }
+
+    return randomIndexes(positions.length, limit).map((i) => positions[i]);
+  }
+
+  private static async readParquetRows(
+    metadata: ParquetMetadata,
+    columns: LeafColumn[],
+    rowIndexes: number[],
+    readRange: (start: number, end: number) => Promise<Buffer>
+  ) {
+    const rows: unknown[][] = [];
+    let groupStart = 0;
+
+    for (const group of metadata.rowGroups) {
+      const groupEnd = groupStart + group.rowCount;
+      const wanted = rowIndexes.filter(
+        (index) => index >= groupStart && index < groupEnd
+      );
+
+      if (wanted.length) {
+        const maxRows = wanted[wanted.length - 1] - groupStart + 1;
+        const values = [];
+
+        for (const column of columns) {
+          const chunk = group.chunks.get(column.path);
+          values.push(
+            chunk
+              ? decodeColumnChunk(
+                  column,
+                  chunk,
+                  await readRange(chunk.start, chunk.start + chunk.length - 1),
+                  maxRows
+                )
+              : []
+          );
+        }
+
+        for (const index of wanted) {
+          rows.push(values.map((column) => column[index - groupStart] ?? null));
+        }
+      }
+
+      groupStart = groupEnd;
+    }
+
+    return rows;
+  }
+}
@@ -0,0 +1,672 @@
+import path from "path";
+import { Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { CsvParser } from "@/utils/csvParser";
+import {
+  readParquetMetadata,
+  summarizeParquetMetadata,
+} from "@/utils/parquetFooter";
+import { decodeColumnChunk, isReadableColumn } from "@/utils/parquetReader";
+import { s3DatasetService } from "./s3DatasetService";
+import {
+  ColumnProfile,
+  ColumnType,
+  FileProfile,
+  HistogramBin,
+  ProfileFormat,
+  StoredFileProfile,
+} from "@/types/dataset/profile";
+
+// Text formats are profiled from a prefix of the file; beyond either limit
+// the profile is marked as sampled
+const MAX_PROFILE_ROWS = 100_000;
+const MAX_PROFILE_BYTES = 64 * 1024 * 1024;
+const MAX_COLUMNS = 500;
+// Past this many distinct values the count is reported as a lower bound
+const MAX_DISTINCT_VALUES = 10_000;
+// Numeric values kept (reservoir sampled) to build histograms from
+const HISTOGRAM_SAMPLE_SIZE = 10_000;
+const HISTOGRAM_BINS = 10;
+// The queue lives in memory, so a pending profile this old was lost with a
+// restarted process (or another instance) and is queued again when read
+const STALE_PENDING_MS = 15 * 60 * 1000;
+
+const NULL_TOKENS = new Set(["", "null", "na", "n/a", "nan", "none"]);
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const FLOAT_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+type ProfileValue = number | string | boolean;
+
+interface ParsedValue {
+  type: ColumnType;
+  value: ProfileValue | null;
+}
+
+const NULL_VALUE: ParsedValue = { type: "null", value: null };
+
+// Infers the type of a CSV/TSV cell
+export const parseTextValue = (raw: string): ParsedValue => {
+  const value = raw.trim();
+  if (NULL_TOKENS.has(value.toLowerCase())) return NULL_VALUE;
+
+  if (INTEGER_PATTERN.test(value)) {
+    return { type: "integer", value: Number(value) };
+  }
+  if (FLOAT_PATTERN.test(value)) return { type: "float", value: Number(value) };
+  if (BOOLEAN_PATTERN.test(value)) {
+    return { type: "boolean", value: value.toLowerCase() === "true" };
+  }
+  if (DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))) {
+    return { type: "date", value };
+  }
+  if (DATETIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value))) {
+    return { type: "datetime", value };
+  }
+
+  return { type: "string", value };
+};
+
+// JSON values keep their own type; only strings are checked for dates
+const parseJson = (raw: unknown): ParsedValue => {
+  if (raw === null || raw === undefined) return NULL_VALUE;
+  if (typeof raw === "number") {
+    return { type: Number.isInteger(raw) ? "integer" : "float", value: raw };
+  }
+  if (typeof raw === "boolean") return { type: "boolean", value: raw };
+  if (typeof raw === "string") {
+    if (DATE_PATTERN.test(raw)) return { type: "date", value: raw };
+    if (DATETIME_PATTERN.test(raw)) return { type: "datetime", value: raw };
+    return { type: "string", value: raw };
+  }
+
+  return { type: "json", value: JSON.stringify(raw) };
+};
+
+// Integers widen to floats and dates to datetimes; any other mix is a string
+const resolveType = (types: ColumnType[]): ColumnType => {
+  if (!types.length) return "null";
+  if (types.length === 1) return types[0];
+  if (types.every((type) => type === "integer" || type === "float")) {
+    return "float";
+  }
+  if (types.every((type) => type === "date" || type === "datetime")) {
+    return "datetime";
+  }
+  return "string";
+};
+
+const round = (value: number) => Number(value.toPrecision(12));
+
+class ColumnAccumulator {
+  private count = 0;
+  private nullCount = 0;
+  private typeCounts = new Map<ColumnType, number>();
+  private distinct = new Set<string>();
+  private distinctOverflow = false;
+
+  private numericCount = 0;
+  private numericSum = 0;
+  private numericMin = Infinity;
+  private numericMax = -Infinity;
+  private sample: number[] = [];
+
+  private textMin: string | null = null;
+  private textMax: string | null = null;
+  private hasTrue = false;
+  private hasFalse = false;
+
+  // Columns first seen part way through a file count as null before that
+  constructor(private name: string, missingRows = 0) {
+    this.count = missingRows;
+    this.nullCount = missingRows;
+  }
+
+  add({ type, value }: ParsedValue) {
+    this.count++;
+    if (value === null) {
+      this.nullCount++;
+      return;
+    }
+
+    this.typeCounts.set(type, (this.typeCounts.get(type) ?? 0) + 1);
+
+    if (!this.distinctOverflow) {
+      this.distinct.add(`${type}:${value}`);
+      if (this.distinct.size > MAX_DISTINCT_VALUES) {
+        this.distinctOverflow = true;
+        this.distinct.clear();
+      }
+    }
+
+    if (typeof value === "number") {
+      this.addNumber(value);
+    } else if (typeof value === "boolean") {
+      if (value) this.hasTrue = true;
+      else this.hasFalse = true;
+    }
+
+    const text = String(value);
+    if (this.textMin === null || text < this.textMin) this.textMin = text;
+    if (this.textMax === null || text > this.textMax) this.textMax = text;
+  }
+
+  private addNumber(value: number) {
+    this.numericCount++;
+    this.numericSum += value;
+    this.numericMin = Math.min(this.numericMin, value);
+    this.numericMax = Math.max(this.numericMax, value);
+
+    if (this.sample.length < HISTOGRAM_SAMPLE_SIZE) {
+      this.sample.push(value);
+      return;
+    }
+
+    const slot = Math.floor(Math.random() * this.numericCount);
+    if (slot < HISTOGRAM_SAMPLE_SIZE) this.sample[slot] = value;
+  }
+
+  // Bins span min..max; counts are scaled up when only a sample was kept
+  private histogram(): HistogramBin[] | null {
+    if (!this.sample.length) return null;
+
+    const min = this.numericMin;
+    const max = this.numericMax;
+    const bins = min === max ? 1 : HISTOGRAM_BINS;
+    const width = (max - min) / bins || 1;
+    const counts = new Array<number>(bins).fill(0);
+
+    for (const value of this.sample) {
+      counts[Math.min(Math.floor((value - min) / width), bins - 1)]++;
+    }
+
+    const scale = this.numericCount / this.sample.length;
+    return counts.map((count, i) => ({
+      lower: round(min + i * width),
+      upper: round(i === bins - 1 ? max : min + (i + 1) * width),
+      count: Math.round(count * scale),
+    }));
+  }
+
+  finish(): ColumnProfile {
+    const type = resolveType([...this.typeCounts.keys()]);
+    const numeric = type === "integer" || type === "float";
+
+    let min: ProfileValue | null = this.textMin;
+    let max: ProfileValue | null = this.textMax;
+    if (numeric) {
+      min = this.numericMin;
+      max = this.numericMax;
+    } else if (type === "boolean") {
+      min = !this.hasFalse;
+      max = this.hasTrue;
+    } else if (type === "null" || type === "json") {
+      min = null;
+      max = null;
+    }
+
+    return {
+      name: this.name,
+      type,
+      ...(this.typeCounts.size > 1 && {
+        typeCounts: Object.fromEntries(this.typeCounts),
+      }),
+      count: this.count,
+      nullCount: this.nullCount,
+      nullRatio: this.count ? round(this.nullCount / this.count) : 0,
+      distinctCount: this.distinctOverflow
+        ? MAX_DISTINCT_VALUES
+        : this.distinct.size,
+      ...(this.distinctOverflow && { distinctApproximate: true }),
+      min,
+      max,
+      mean: numeric ? round(this.numericSum / this.numericCount) : null,
+      histogram: numeric ? this.histogram() : null,
+    };
+  }
+}
+
+export const detectProfileFormat = (file: {
+  name: string;
+  contentType: string;
+}): ProfileFormat | null => {
+  switch (path.extname(file.name).toLowerCase()) {
+    case ".csv":
+      return "csv";
+    case ".tsv":
+    case ".tab":
+      return "tsv";
+    case ".jsonl":
+    case ".ndjson":
+      return "jsonl";
+    case ".parquet":
+      return "parquet";
+  }
+
+  switch (file.contentType.split(";")[0].trim().toLowerCase()) {
+    case "text/csv":
+      return "csv";
+    case "text/tab-separated-values":
+      return "tsv";
+    case "application/x-ndjson":
+    case "application/jsonl":
+      return "jsonl";
+    case "application/vnd.apache.parquet":
+    case "application/x-parquet":
+      return "parquet";
+  }
+
+  return null;
+};
+
+const toJsonValue = (profile: StoredFileProfile) =>
+  profile as unknown as Prisma.InputJsonValue;
+
+/**
+ * Infers column types and summary statistics for tabular dataset files in
+ * the background. Files are profiled one at a time so large uploads cannot
+ * saturate the process; results are stored under File.metadata.profile.
+ */
+export class DatasetProfiler {
+  private queue: string[] = [];
+  private current: string | null = null;
+  private running = false;
+
+  private isQueued(fileId: string) {
+    return this.current === fileId || this.queue.includes(fileId);
+  }
+
+  /**
+   * Marks the files as pending and queues them. Returns once they are
+   * marked; profiling itself happens later.
+   */
+  async enqueue(fileIds: string[]) {
+    for (const fileId of fileIds) {
+      if (this.isQueued(fileId)) continue;
+
+      try {
+        await this.saveProfile(fileId, {
+          status: "pending",
+          updatedAt: new Date().toISOString(),
+        });
+        this.queue.push(fileId);
+      } catch (error) {
+        logger.warn("Failed to queue file for profiling", {
+          fileId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    void this.drain();
+  }
+
+  private async drain() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (this.queue.length) {
+        this.current = this.queue.shift()!;
+        await this.profileFile(this.current);
+      }
+    } finally {
+      this.current = null;
+      this.running = false;
+    }
+  }
+
+  // Never throws; failures are stored on the file instead
+  private async profileFile(fileId: string) {
+    const perf = createPerformanceTracker("dataset-file-profile");
+
+    try {
+      const file = await prisma.file.findUnique({ where: { id: fileId } });
+      if (!file) return;
+
+      const format = detectProfileFormat(file);
+      if (!format) {
+        await this.saveProfile(fileId, {
+          status: "unsupported",
+          updatedAt: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const result =
+        format === "parquet"
+          ? await this.profileParquet(file.storageKey)
+          : format === "jsonl"
+          ? await this.profileJsonLines(file.storageKey, file.size)
+          : await this.profileDelimited(
+              file.storageKey,
+              file.size,
+              format,
+              format === "tsv" ? "\t" : ","
+            );
+
+      await this.saveProfile(fileId, {
+        status: "complete",
+        updatedAt: new Date().toISOString(),
+        result,
+      });
+
+      logger.info("Dataset file profiled", {
+        fileId,
+        format,
+        rows: result.rowCount,
+        columns: result.columns.length,
+        sampled: result.sampled,
+        duration: perf.end(),
+      });
+    } catch (error) {
+      logger.error("Failed to profile dataset file", {
+        fileId,
+        error:
+          error instanceof Error
+            ? { name: error.name, message: error.message, stack: error.stack }
+            : error,
+        duration: perf.end(),
+      });
+
+      await this.saveProfile(fileId, {
+        status: "failed",
+        updatedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : "Profiling failed",
+      }).catch(() => undefined);
+    }
+  }
+
+  // Merges into the existing metadata rather than replacing it
+  private async saveProfile(fileId: string, profile: StoredFileProfile) {
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { metadata: true },
+    });
+    if (!file) return;
+
+    const metadata =
+      file.metadata &&
+      typeof file.metadata === "object" &&
+      !Array.isArray(file.metadata)
+        ? (file.metadata as Prisma.JsonObject)
+        : {};
+
+    await prisma.file.update({
+      where: { id: fileId },
+      data: { metadata: { ...metadata, profile: toJsonValue(profile) } },
+    });
+  }
+
+  /**
+   * Yields decoded text from the start of the object, reading at most
+   * MAX_PROFILE_BYTES. `truncated` tells the caller the last line may be cut.
+   */
+  private async *readText(storageKey: string, size: number) {
+    const truncated = size > MAX_PROFILE_BYTES;
+    const chunks = s3DatasetService.streamText(
+      storageKey,
+      truncated ? { start: 0, end: MAX_PROFILE_BYTES - 1 } : undefined
+    );
+
+    for await (const text of chunks) {
+      yield { text, truncated };
+    }
+  }
+
+  private async profileDelimited(
+    storageKey: string,
+    size: number,
+    format: ProfileFormat,
+    delimiter: string
+  ): Promise<FileProfile> {
+    const parser = new CsvParser(delimiter);
+    let columns: ColumnAccumulator[] | null = null;
+    let rowCount = 0;
+    let sampled = false;
+
+    const addRecords = (records: string[][]) => {
+      for (const record of records) {
+        if (!columns) {
+          columns = record
+            .slice(0, MAX_COLUMNS)
+            .map(
+              (name, i) =>
+                new ColumnAccumulator(name.trim() || `column_${i + 1}`)
+            );
+          continue;
+        }
+
+        if (rowCount >= MAX_PROFILE_ROWS) {
+          sampled = true;
+          return false;
+        }
+
+        rowCount++;
+        columns.forEach((column, i) =>
+          column.add(i < record.length ? parseTextValue(record[i]) : NULL_VALUE)
+        );
+      }
+      return true;
+    };
+
+    for await (const { text, truncated } of this.readText(storageKey, size)) {
+      if (!addRecords(parser.push(text))) break;
+      sampled ||= truncated;
+    }
+
+    // A cut off final record is dropped rather than profiled half read
+    if (!sampled) addRecords(parser.end());
+
+    return {
+      format,
+      rowCount,
+      sampled,
+      columns: ((columns as ColumnAccumulator[] | null) ?? []).map((column) =>
+        column.finish()
+      ),
+      profiledAt: new Date().toISOString(),
+    };
+  }
+
+  private async profileJsonLines(
+    storageKey: string,
+    size: number
+  ): Promise<FileProfile> {
+    const columns = new Map<string, ColumnAccumulator>();
+    let rowCount = 0;
+    let sampled = false;
+    let buffered = "";
+
+    const addLine = (line: string) => {
+      if (!line.trim()) return;
+
+      let row: unknown;
+      try {
+        row = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${rowCount + 1}`);
+      }
+
+      // Non-object lines are profiled as a single unnamed column
+      const values =
+        row && typeof row === "object" && !Array.isArray(row)
+          ? (row as Record<string, unknown>)
+          : { value: row };
+
+      for (const key of Object.keys(values)) {
+        if (!columns.has(key) && columns.size < MAX_COLUMNS) {
+          columns.set(key, new ColumnAccumulator(key, rowCount));
+        }
+      }
+
+      for (const [key, column] of columns) {
+        column.add(parseJson(values[key]));
+      }
+      rowCount++;
+    };
+
+    for await (const { text, truncated } of this.readText(storageKey, size)) {
+      buffered += text;
+      sampled ||= truncated;
+
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (rowCount >= MAX_PROFILE_ROWS) {
+          sampled = true;
+          break;
+        }
+        addLine(line);
+      }
+      if (rowCount >= MAX_PROFILE_ROWS) break;
+    }
+
+    if (!sampled) addLine(buffered);
+
+    return {
+      format: "jsonl",
+      rowCount,
+      sampled,
+      columns: [...columns.values()].map((column) => column.finish()),
+      profiledAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Counts, nulls, min and max come from the footer statistics. Mean and
+   * histograms need the values, so numeric columns are decoded one row
+   * group at a time until MAX_PROFILE_BYTES of chunks have been read; when
+   * that stops early the profile is marked as sampled. Columns whose pages
+   * cannot be decoded keep a null mean and histogram.
+   */
+  private async profileParquet(storageKey: string): Promise<FileProfile> {
+    const readRange = (start: number, end: number) =>
+      s3DatasetService.getObjectRange(storageKey, start, end);
+    const metadata = await readParquetMetadata(
+      await s3DatasetService.getObjectSize(storageKey),
+      readRange
+    );
+    const footer = summarizeParquetMetadata(metadata);
+
+    const numeric = new Map(
+      metadata.columns
+        .slice(0, MAX_COLUMNS)
+        .filter(
+          (column) =>
+            isReadableColumn(column) &&
+            (column.type === "integer" || column.type === "float")
+        )
+        .map((column) => [column, new ColumnAccumulator(column.path)])
+    );
+
+    let budget = MAX_PROFILE_BYTES;
+    let sampled = false;
+    for (const group of metadata.rowGroups) {
+      if (!numeric.size) break;
+
+      const bytes = [...numeric.keys()].reduce(
+        (total, column) => total + (group.chunks.get(column.path)?.length ?? 0),
+        0
+      );
+      if (bytes > budget) {
+        sampled = true;
+        break;
+      }
+      budget -= bytes;
+
+      for (const [column, accumulator] of numeric) {
+        const chunk = group.chunks.get(column.path);
+        if (!chunk) continue;
+
+        try {
+          const values = decodeColumnChunk(
+            column,
+            chunk,
+            await readRange(chunk.start, chunk.start + chunk.length - 1),
+            group.rowCount
+          );
+          for (const value of values) {
+            // INT64 values past the safe integer range come back as strings
+            if (typeof value === "number") {
+              accumulator.add({ type: column.type, value });
+            }
+          }
+        } catch (error) {
+          logger.warn("Could not decode Parquet column for profiling", {
+            storageKey,
+            column: column.path,
+            error: error instanceof Error ? error.message : error,
+          });
+          numeric.delete(column);
+        }
+      }
+    }
+
+    const decoded = new Map(
+      [...numeric].map(([column, accumulator]) => [
+        column.path,
+        accumulator.finish(),
+      ])
+    );
+
+    return {
+      format: "parquet",
+      rowCount: footer.rowCount,
+      sampled,
+      columns: footer.columns.slice(0, MAX_COLUMNS).map((column) => ({
+        name: column.name,
+        type: column.type,
+        count: footer.rowCount,
+        nullCount: column.nullCount,
+        nullRatio:
+          column.nullCount === null
+            ? null
+            : footer.rowCount
+            ? round(column.nullCount / footer.rowCount)
+            : 0,
+        distinctCount: column.distinctCount,
+        min: column.min,
+        max: column.max,
+        mean: decoded.get(column.name)?.mean ?? null,
+        histogram: decoded.get(column.name)?.histogram ?? null,
+      })),
+      profiledAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Stored profile of a file in the dataset, or null when there is no such
+   * file. Files uploaded before profiling existed, and files left pending by
+   * a lost queue, are queued on read.
+   */
+  async getProfile(
+    datasetId: string,
+    fileId: string
+  ): Promise<StoredFileProfile | null> {
+    const file = await prisma.file.findFirst({
+      where: { id: fileId, datasetId },
+      select: { metadata: true },
+    });
+    if (!file) return null;
+
+    const profile = (file.metadata as { profile?: StoredFileProfile } | null)
+      ?.profile;
+    const stale =
+      profile?.status === "pending" &&
+      !this.isQueued(fileId) &&
+      !(Date.now() - Date.parse(profile.updatedAt) < STALE_PENDING_MS);
+    if (profile && !stale) return profile;
+
+    await this.enqueue([fileId]);
+    return { status: "pending", updatedAt: new Date().toISOString() };
+  }
+}
+
+export const datasetProfiler = new DatasetProfiler();
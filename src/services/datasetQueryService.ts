@@ -0,0 +1,991 @@
+import path from "path";
+import { RE2JS } from "re2js";
+import { File } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { AppError } from "@/utils/errorHandler";
+import { CsvParser, csvEscape } from "@/utils/csvParser";
+import { readParquetMetadata } from "@/utils/parquetFooter";
+import { decodeColumnChunk, isReadableColumn } from "@/utils/parquetReader";
+import {
+  AGGREGATE_FUNCTIONS,
+  formatExpression,
+  parseQuery,
+} from "@/utils/queryParser";
+import { s3DatasetService } from "./s3DatasetService";
+import { detectProfileFormat, parseTextValue } from "./datasetProfiler";
+import {
+  ParsedQuery,
+  QueryExpression,
+  QueryResult,
+  QueryValue,
+} from "@/types/dataset/query";
+
+// Budgets: a query stops scanning at whichever comes first and reports
+// the result as truncated
+const MAX_SCANNED_ROWS = 5_000_000;
+const MAX_QUERY_MS = 15_000;
+// Delimited and JSON Lines files are read up to this many bytes
+const MAX_SCANNED_BYTES = 512 * 1024 * 1024;
+// Checking the clock on every row is measurable, so only every N rows
+const BUDGET_CHECK_INTERVAL = 1000;
+
+const DEFAULT_RESULT_ROWS = 1000;
+const MAX_RESULT_ROWS = 10_000;
+const MAX_GROUPS = 100_000;
+// A JSON Lines record is buffered whole before it is parsed
+const MAX_JSON_LINE_LENGTH = 8 * 1024 * 1024;
+// Parquet row groups are decoded whole, so the selected column chunks of
+// one group are held in memory together
+const MAX_PARQUET_ROW_GROUP_BYTES = 256 * 1024 * 1024;
+
+const SEMVER_PATTERN =
+  /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+)?$/;
+
+type Row = Record<string, QueryValue>;
+
+// Names of synthetic columns used once a grouped query is planned. The NUL
+// prefix keeps them from clashing with real column names.
+const groupColumn = (i: number) => `\u0000group${i}`;
+const aggregateColumn = (i: number) => `\u0000aggregate${i}`;
+const outputColumn = (i: number) => `\u0000output${i}`;
+
+interface QueryPlan {
+  grouped: boolean;
+  groupBy: QueryExpression[];
+  aggregates: Extract<QueryExpression, { kind: "call" }>[];
+  // Null for SELECT *
+  output: { alias: string; expression: QueryExpression }[] | null;
+  order: { expression: QueryExpression; descending: boolean }[];
+  limit: number;
+  // Source columns the query reads; null when it needs all of them
+  columns: Set<string> | null;
+}
+
+interface ResultRow {
+  values: QueryValue[] | Row;
+  sortKeys: QueryValue[];
+}
+
+const compareSemver = (a: string, b: string) => {
+  const left = SEMVER_PATTERN.exec(a);
+  const right = SEMVER_PATTERN.exec(b);
+  if (!left || !right) return a < b ? -1 : a > b ? 1 : 0;
+
+  for (let i = 1; i <= 3; i++) {
+    const difference = Number(left[i]) - Number(right[i]);
+    if (difference) return difference;
+  }
+
+  // A pre-release sorts before the release itself
+  if (left[4] === right[4]) return 0;
+  if (!left[4]) return 1;
+  if (!right[4]) return -1;
+  return left[4] < right[4] ? -1 : 1;
+};
+
+// Nulls sort first; values of different types compare as text
+const compareValues = (a: QueryValue, b: QueryValue): number => {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const likePatterns = new Map<string, RE2JS>();
+
+// RE2 matches in linear time; a pattern with many % wildcards would
+// backtrack for minutes on one long cell with a native RegExp
+const likeToRegExp = (pattern: string) => {
+  let regExp = likePatterns.get(pattern);
+  if (!regExp) {
+    const source = pattern
+      .split("")
+      .map((char) =>
+        char === "%"
+          ? ".*"
+          : char === "_"
+          ? "."
+          : char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      )
+      .join("");
+    regExp = RE2JS.compile(`^${source}$`, RE2JS.DOTALL);
+    if (likePatterns.size > 1000) likePatterns.clear();
+    likePatterns.set(pattern, regExp);
+  }
+  return regExp;
+};
+
+const walk = (
+  expression: QueryExpression,
+  visit: (expression: QueryExpression) => void
+) => {
+  visit(expression);
+  switch (expression.kind) {
+    case "unary":
+      walk(expression.operand, visit);
+      break;
+    case "binary":
+      walk(expression.left, visit);
+      walk(expression.right, visit);
+      break;
+    case "isNull":
+      walk(expression.operand, visit);
+      break;
+    case "in":
+      walk(expression.operand, visit);
+      expression.values.forEach((value) => walk(value, visit));
+      break;
+    case "like":
+      walk(expression.operand, visit);
+      walk(expression.pattern, visit);
+      break;
+    case "call":
+      expression.args.forEach((arg) => walk(arg, visit));
+      break;
+  }
+};
+
+const isAggregate = (expression: QueryExpression) =>
+  expression.kind === "call" && AGGREGATE_FUNCTIONS.has(expression.name);
+
+const containsAggregate = (expression: QueryExpression) => {
+  let found = false;
+  walk(expression, (node) => {
+    if (isAggregate(node)) found = true;
+  });
+  return found;
+};
+
+/**
+ * Evaluates an expression against one row with SQL null semantics: most
+ * operators return null when an operand is null, and AND/OR use three
+ * valued logic.
+ */
+const evaluate = (expression: QueryExpression, row: Row): QueryValue => {
+  switch (expression.kind) {
+    case "literal":
+      return expression.value;
+    case "column":
+      return row[expression.name] ?? null;
+    case "unary": {
+      const value = evaluate(expression.operand, row);
+      if (value === null) return null;
+      if (expression.operator === "NOT") return value !== true;
+      return typeof value === "number" ? -value : null;
+    }
+    case "binary": {
+      const { operator } = expression;
+
+      if (operator === "AND" || operator === "OR") {
+        const left = evaluate(expression.left, row);
+        if (operator === "AND" && left === false) return false;
+        if (operator === "OR" && left === true) return true;
+        const right = evaluate(expression.right, row);
+        if (operator === "AND") {
+          return right === false
+            ? false
+            : left === null || right === null
+            ? null
+            : true;
+        }
+        return right === true
+          ? true
+          : left === null || right === null
+          ? null
+          : false;
+      }
+
+      const left = evaluate(expression.left, row);
+      const right = evaluate(expression.right, row);
+      if (left === null || right === null) return null;
+
+      switch (operator) {
+        case "=":
+          return compareValues(left, right) === 0;
+        case "!=":
+          return compareValues(left, right) !== 0;
+        case "<":
+          return compareValues(left, right) < 0;
+        case "<=":
+          return compareValues(left, right) <= 0;
+        case ">":
+          return compareValues(left, right) > 0;
+        case ">=":
+          return compareValues(left, right) >= 0;
+      }
+
+      if (typeof left !== "number" || typeof right !== "number") return null;
+      switch (operator) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return right === 0 ? null : left / right;
+      }
+      return null;
+    }
+    case "isNull":
+      return (
+        (evaluate(expression.operand, row) === null) !== expression.negated
+      );
+    case "in": {
+      const value = evaluate(expression.operand, row);
+      if (value === null) return null;
+      const found = expression.values.some(
+        (candidate) => compareValues(value, evaluate(candidate, row)) === 0
+      );
+      return found !== expression.negated;
+    }
+    case "like": {
+      const value = evaluate(expression.operand, row);
+      const pattern = evaluate(expression.pattern, row);
+      if (value === null || pattern === null) return null;
+      return (
+        likeToRegExp(String(pattern)).test(String(value)) !== expression.negated
+      );
+    }
+    case "call": {
+      const args = expression.args.map((arg) => evaluate(arg, row));
+      const [value] = args;
+
+      switch (expression.name) {
+        case "LOWER":
+          return typeof value === "string" ? value.toLowerCase() : value;
+        case "UPPER":
+          return typeof value === "string" ? value.toUpperCase() : value;
+        case "LENGTH":
+          return value === null ? null : String(value).length;
+        case "ABS":
+          return typeof value === "number" ? Math.abs(value) : null;
+        case "ROUND": {
+          if (typeof value !== "number") return null;
+          const factor = 10 ** (typeof args[1] === "number" ? args[1] : 0);
+          return Math.round(value * factor) / factor;
+        }
+        case "COALESCE":
+          return args.find((arg) => arg !== null) ?? null;
+      }
+
+      // Aggregates only reach here if planning missed them
+      throw new AppError(`${expression.name} cannot be used here`, 400);
+    }
+  }
+};
+
+class AggregateState {
+  private count = 0;
+  private sum = 0;
+  private numbers = 0;
+  private min: QueryValue = null;
+  private max: QueryValue = null;
+
+  constructor(private name: string) {}
+
+  // Undefined is COUNT(*)'s missing argument and counts every row
+  add(value: QueryValue | undefined) {
+    if (value === undefined) {
+      this.count++;
+      return;
+    }
+    if (value === null) return;
+
+    this.count++;
+    if (typeof value === "number") {
+      this.sum += value;
+      this.numbers++;
+    }
+    if (this.min === null || compareValues(value, this.min) < 0) {
+      this.min = value;
+    }
+    if (this.max === null || compareValues(value, this.max) > 0) {
+      this.max = value;
+    }
+  }
+
+  result(): QueryValue {
+    switch (this.name) {
+      case "COUNT":
+        return this.count;
+      case "SUM":
+        return this.numbers ? this.sum : null;
+      case "AVG":
+        return this.numbers ? this.sum / this.numbers : null;
+      case "MIN":
+        return this.min;
+      default:
+        return this.max;
+    }
+  }
+}
+
+// Nested JSON values are carried as their JSON text
+const toQueryValue = (value: unknown): QueryValue => {
+  if (value === null || value === undefined) return null;
+  if (
+    typeof value === "number" ||
+    typeof value === "string" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Runs restricted SQL queries against one tabular file of a dataset
+ * version. Rows are streamed from storage and evaluated one at a time, so
+ * memory stays bounded by the result size and the number of groups.
+ */
+export class DatasetQueryService {
+  static async runQuery(
+    datasetId: string,
+    sql: string,
+    version?: string
+  ): Promise<QueryResult> {
+    const perf = createPerformanceTracker("dataset-query");
+    const startedAt = Date.now();
+
+    if (version && !SEMVER_PATTERN.test(version)) {
+      throw new AppError("Version must be semver compliant (e.g. 1.0.0)", 400);
+    }
+
+    const query = parseQuery(sql);
+    const plan = this.plan(query);
+    const file = await this.resolveFile(datasetId, version, query.from);
+
+    const groups = new Map<
+      string,
+      { keys: QueryValue[]; states: AggregateState[] }
+    >();
+    let results: ResultRow[] = [];
+    let scannedRows = 0;
+    let reason: QueryResult["stats"]["reason"];
+
+    const compareResults = (a: ResultRow, b: ResultRow) => {
+      for (let i = 0; i < plan.order.length; i++) {
+        const difference = compareValues(a.sortKeys[i], b.sortKeys[i]);
+        if (difference)
+          return plan.order[i].descending ? -difference : difference;
+      }
+      return 0;
+    };
+
+    const addResult = (values: QueryValue[] | Row, row: Row) => {
+      const sortKeys = plan.order.map(({ expression }) =>
+        evaluate(expression, row)
+      );
+      results.push({ values, sortKeys });
+
+      // Keep only the best rows so ORDER BY over a large scan stays bounded
+      if (plan.order.length && results.length >= plan.limit * 2) {
+        results = results.sort(compareResults).slice(0, plan.limit);
+      }
+    };
+
+    let limitReached = false;
+
+    for await (const row of this.readRows(file, plan.columns)) {
+      if (scannedRows >= MAX_SCANNED_ROWS) {
+        reason = "row_budget";
+        break;
+      }
+      if (
+        scannedRows % BUDGET_CHECK_INTERVAL === 0 &&
+        Date.now() - startedAt > MAX_QUERY_MS
+      ) {
+        reason = "time_budget";
+        break;
+      }
+      scannedRows++;
+
+      if (query.where && evaluate(query.where, row) !== true) continue;
+
+      if (plan.grouped) {
+        const keys = plan.groupBy.map((expression) =>
+          evaluate(expression, row)
+        );
+        const key = JSON.stringify(keys);
+
+        let group = groups.get(key);
+        if (!group) {
+          if (groups.size >= MAX_GROUPS) {
+            throw new AppError(
+              `Query produces more than ${MAX_GROUPS} groups`,
+              422
+            );
+          }
+          group = {
+            keys,
+            states: plan.aggregates.map(({ name }) => new AggregateState(name)),
+          };
+          groups.set(key, group);
+        }
+
+        plan.aggregates.forEach(({ args }, i) =>
+          group!.states[i].add(args.length ? evaluate(args[0], row) : undefined)
+        );
+        continue;
+      }
+
+      if (!plan.output) {
+        addResult(row, row);
+      } else {
+        const values = plan.output.map(({ expression }) =>
+          evaluate(expression, row)
+        );
+        addResult(values, {
+          ...row,
+          ...Object.fromEntries(
+            values.map((value, i) => [outputColumn(i), value])
+          ),
+        });
+      }
+
+      // Without ORDER BY the first rows found are the answer
+      if (!plan.order.length && results.length >= plan.limit) {
+        limitReached = true;
+        break;
+      }
+    }
+
+    // Text files past the byte budget are only read in part
+    if (!reason && !limitReached && this.scanRange(file)) {
+      reason = "byte_budget";
+    }
+
+    if (plan.grouped) {
+      // Aggregates without GROUP BY still produce one row over no input
+      if (!groups.size && !plan.groupBy.length) {
+        groups.set("[]", {
+          keys: [],
+          states: plan.aggregates.map(({ name }) => new AggregateState(name)),
+        });
+      }
+
+      for (const { keys, states } of groups.values()) {
+        const row: Row = {
+          ...Object.fromEntries(
+            keys.map((value, i) => [groupColumn(i), value])
+          ),
+          ...Object.fromEntries(
+            states.map((state, i) => [aggregateColumn(i), state.result()])
+          ),
+        };
+        const values = plan.output!.map(({ expression }) =>
+          evaluate(expression, row)
+        );
+        addResult(values, {
+          ...row,
+          ...Object.fromEntries(
+            values.map((value, i) => [outputColumn(i), value])
+          ),
+        });
+      }
+    }
+
+    if (plan.order.length) results.sort(compareResults);
+    results = results.slice(0, plan.limit);
+
+    let columns: string[];
+    let rows: QueryValue[][];
+    if (plan.output) {
+      columns = plan.output.map(({ alias }) => alias);
+      rows = results.map(({ values }) => values as QueryValue[]);
+    } else {
+      // JSON lines may not share keys, so SELECT * uses every key seen
+      const records = results.map(({ values }) => values as Row);
+      columns = [...new Set(records.flatMap((record) => Object.keys(record)))];
+      rows = records.map((record) =>
+        columns.map((column) => record[column] ?? null)
+      );
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    logger.info("Dataset query executed", {
+      datasetId,
+      fileId: file.id,
+      grouped: plan.grouped,
+      scannedRows,
+      resultRows: rows.length,
+      truncated: !!reason,
+      duration: perf.end(),
+    });
+
+    return {
+      columns,
+      rows,
+      stats: {
+        file: file.name,
+        version: version ?? null,
+        scannedRows,
+        elapsedMs,
+        truncated: !!reason,
+        ...(reason && { reason }),
+      },
+    };
+  }
+
+  static toCsv(result: QueryResult) {
+    return [
+      result.columns.map(csvEscape).join(","),
+      ...result.rows.map((row) => row.map(csvEscape).join(",")),
+    ].join("\n");
+  }
+
+  /**
+   * Validates the query shape and rewrites grouped expressions so group
+   * keys and aggregates become synthetic columns of a per-group row.
+   */
+  private static plan(query: ParsedQuery): QueryPlan {
+    if (query.where && containsAggregate(query.where)) {
+      throw new AppError("Aggregates are not allowed in WHERE", 400);
+    }
+    if (query.groupBy.some(containsAggregate)) {
+      throw new AppError("Aggregates are not allowed in GROUP BY", 400);
+    }
+    if (query.limit !== undefined && query.limit > MAX_RESULT_ROWS) {
+      throw new AppError(`LIMIT cannot exceed ${MAX_RESULT_ROWS}`, 400);
+    }
+
+    const expressions = [
+      ...(query.select ?? []).map(({ expression }) => expression),
+      ...query.orderBy.map(({ expression }) => expression),
+    ];
+    const grouped =
+      query.groupBy.length > 0 || expressions.some(containsAggregate);
+
+    if (grouped && !query.select) {
+      throw new AppError("SELECT * cannot be combined with aggregation", 400);
+    }
+
+    let columns: Set<string> | null = null;
+    if (query.select) {
+      columns = new Set();
+      for (const expression of [
+        ...expressions,
+        ...query.groupBy,
+        ...(query.where ? [query.where] : []),
+      ]) {
+        walk(expression, (node) => {
+          if (node.kind === "column") columns!.add(node.name);
+        });
+      }
+    }
+
+    const aliases = new Map(
+      (query.select ?? []).map(({ alias }, i) => [alias, i])
+    );
+    // ORDER BY may name a select alias instead of repeating the expression
+    const resolveAlias = (expression: QueryExpression): QueryExpression =>
+      expression.kind === "column" && aliases.has(expression.name)
+        ? { kind: "column", name: outputColumn(aliases.get(expression.name)!) }
+        : expression;
+
+    if (!grouped) {
+      // Alias names are not source columns
+      for (const { expression } of query.orderBy) {
+        if (expression.kind === "column" && aliases.has(expression.name)) {
+          columns?.delete(expression.name);
+        }
+      }
+
+      return {
+        grouped,
+        groupBy: [],
+        aggregates: [],
+        output: query.select,
+        order: query.orderBy.map(({ expression, descending }) => ({
+          expression: resolveAlias(expression),
+          descending,
+        })),
+        limit: query.limit ?? DEFAULT_RESULT_ROWS,
+        columns,
+      };
+    }
+
+    const groupKeys = new Map(
+      query.groupBy.map((expression, i) => [
+        formatExpression(expression),
+        groupColumn(i),
+      ])
+    );
+    const aggregates: QueryPlan["aggregates"] = [];
+    const aggregateKeys = new Map<string, string>();
+
+    const rewrite = (expression: QueryExpression): QueryExpression => {
+      const key = formatExpression(expression);
+      const group = groupKeys.get(key);
+      if (group) return { kind: "column", name: group };
+
+      switch (expression.kind) {
+        case "literal":
+          return expression;
+        case "column":
+          throw new AppError(
+            `Column ${expression.name} must appear in GROUP BY or inside an aggregate`,
+            400
+          );
+        case "unary":
+          return { ...expression, operand: rewrite(expression.operand) };
+        case "binary":
+          return {
+            ...expression,
+            left: rewrite(expression.left),
+            right: rewrite(expression.right),
+          };
+        case "isNull":
+          return { ...expression, operand: rewrite(expression.operand) };
+        case "in":
+          return {
+            ...expression,
+            operand: rewrite(expression.operand),
+            values: expression.values.map(rewrite),
+          };
+        case "like":
+          return {
+            ...expression,
+            operand: rewrite(expression.operand),
+            pattern: rewrite(expression.pattern),
+          };
+        case "call": {
+          if (!AGGREGATE_FUNCTIONS.has(expression.name)) {
+            return { ...expression, args: expression.args.map(rewrite) };
+          }
+          if (expression.args.some(containsAggregate)) {
+            throw new AppError("Aggregates cannot be nested", 400);
+          }
+
+          let name = aggregateKeys.get(key);
+          if (!name) {
+            name = aggregateColumn(aggregates.length);
+            aggregates.push(expression);
+            aggregateKeys.set(key, name);
+          }
+          return { kind: "column", name };
+        }
+      }
+    };
+
+    const output = query.select!.map(({ alias, expression }) => ({
+      alias,
+      expression: rewrite(expression),
+    }));
+    const order = query.orderBy.map(({ expression, descending }) => {
+      const resolved = resolveAlias(expression);
+      return {
+        expression: resolved === expression ? rewrite(expression) : resolved,
+        descending,
+      };
+    });
+
+    for (const { expression } of query.orderBy) {
+      if (expression.kind === "column" && aliases.has(expression.name)) {
+        columns?.delete(expression.name);
+      }
+    }
+
+    return {
+      grouped,
+      groupBy: query.groupBy,
+      aggregates,
+      output,
+      order,
+      limit: query.limit ?? DEFAULT_RESULT_ROWS,
+      columns,
+    };
+  }
+
+  /**
+   * Picks the file a query reads. A version includes, for each file name,
+   * the newest upload at or before that version; files uploaded outside
+   * any version belong to every version.
+   */
+  private static async resolveFile(
+    datasetId: string,
+    version: string | undefined,
+    from: string | undefined
+  ): Promise<File> {
+    const files = await prisma.file.findMany({
+      where: { datasetId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const candidates = files
+      .filter(
+        (file) =>
+          !version || !file.version || compareSemver(file.version, version) <= 0
+      )
+      .sort((a, b) =>
+        a.version && b.version
+          ? compareSemver(a.version, b.version) ||
+            a.createdAt.getTime() - b.createdAt.getTime()
+          : a.version
+          ? 1
+          : b.version
+          ? -1
+          : a.createdAt.getTime() - b.createdAt.getTime()
+      );
+
+    const latest = new Map<string, File>();
+    for (const file of candidates) latest.set(file.name, file);
+
+    const tabular = [...latest.values()].filter((file) =>
+      detectProfileFormat(file)
+    );
+    if (!tabular.length) {
+      throw new AppError("This dataset version has no tabular files", 404);
+    }
+
+    if (from) {
+      const file = tabular.find(
+        (candidate) =>
+          candidate.name === from ||
+          path.basename(candidate.name, path.extname(candidate.name)) === from
+      );
+      if (!file) {
+        throw new AppError(
+          `File ${from} not found; available: ${tabular
+            .map((candidate) => candidate.name)
+            .join(", ")}`,
+          404
+        );
+      }
+      return file;
+    }
+
+    if (tabular.length > 1) {
+      throw new AppError(
+        `Choose a file with FROM; available: ${tabular
+          .map((candidate) => candidate.name)
+          .join(", ")}`,
+        400
+      );
+    }
+    return tabular[0];
+  }
+
+  private static readRows(file: File, columns: Set<string> | null) {
+    const format = detectProfileFormat(file);
+
+    switch (format) {
+      case "csv":
+      case "tsv":
+        return this.readDelimitedRows(
+          file.storageKey,
+          format === "tsv" ? "\t" : ",",
+          columns,
+          this.scanRange(file)
+        );
+      case "jsonl":
+        return this.readJsonRows(file.storageKey, this.scanRange(file));
+      default:
+        return this.readParquetRows(file.storageKey, columns);
+    }
+  }
+
+  // The leading bytes read from a text file too large to scan in full
+  private static scanRange(file: File) {
+    return detectProfileFormat(file) !== "parquet" &&
+      file.size > MAX_SCANNED_BYTES
+      ? { start: 0, end: MAX_SCANNED_BYTES - 1 }
+      : undefined;
+  }
+
+  private static assertKnownColumns(
+    available: string[],
+    columns: Set<string> | null
+  ) {
+    const unknown = [...(columns ?? [])].filter(
+      (column) => !available.includes(column)
+    );
+    if (unknown.length) {
+      throw new AppError(`Unknown columns: ${unknown.join(", ")}`, 400);
+    }
+  }
+
+  private static async *readDelimitedRows(
+    storageKey: string,
+    delimiter: string,
+    columns: Set<string> | null,
+    range?: { start: number; end: number }
+  ): AsyncGenerator<Row> {
+    const parser = new CsvParser(delimiter);
+    let header: string[] | null = null;
+
+    const toRows = function* (records: string[][]) {
+      for (const record of records) {
+        if (!header) {
+          header = record.map((name) => name.trim());
+          DatasetQueryService.assertKnownColumns(header, columns);
+          continue;
+        }
+
+        const row: Row = {};
+        header.forEach((name, i) => {
+          row[name] = parseTextValue(record[i] ?? "").value;
+        });
+        yield row;
+      }
+    };
+
+    for await (const text of s3DatasetService.streamText(storageKey, range)) {
+      yield* toRows(parser.push(text));
+    }
+    // A record cut off by the range is dropped rather than read half way
+    if (!range) yield* toRows(parser.end());
+  }
+
+  // Keys missing from a line read as null, so unknown columns are not errors
+  private static async *readJsonRows(
+    storageKey: string,
+    range?: { start: number; end: number }
+  ): AsyncGenerator<Row> {
+    let buffered = "";
+    let lineNumber = 0;
+
+    const toRow = (line: string): Row | null => {
+      lineNumber++;
+      if (!line.trim()) return null;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new AppError(`Invalid JSON on line ${lineNumber}`, 422);
+      }
+
+      const record =
+        value && typeof value === "object" && !Array.isArray(value)
+          ? (value as Record<string, unknown>)
+          : { value };
+      return Object.fromEntries(
+        Object.entries(record).map(([key, item]) => [key, toQueryValue(item)])
+      );
+    };
+
+    for await (const text of s3DatasetService.streamText(storageKey, range)) {
+      const lines = (buffered + text).split("\n");
+      buffered = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const row = toRow(line);
+        if (row) yield row;
+      }
+
+      if (buffered.length > MAX_JSON_LINE_LENGTH) {
+        throw new AppError(
+          `Line ${
+            lineNumber + 1
+          } is longer than ${MAX_JSON_LINE_LENGTH} characters`,
+          413
+        );
+      }
+    }
+
+    if (range) return;
+    const row = toRow(buffered);
+    if (row) yield row;
+  }
+
+  private static async *readParquetRows(
+    storageKey: string,
+    columns: Set<string> | null
+  ): AsyncGenerator<Row> {
+    const readRange = (start: number, end: number) =>
+      s3DatasetService.getObjectRange(storageKey, start, end);
+
+    let metadata;
+    try {
+      metadata = await readParquetMetadata(
+        await s3DatasetService.getObjectSize(storageKey),
+        readRange
+      );
+    } catch (error) {
+      throw new AppError(
+        `Could not read Parquet file: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`,
+        422
+      );
+    }
+
+    this.assertKnownColumns(
+      metadata.columns.map((column) => column.path),
+      columns
+    );
+    const selected = metadata.columns.filter((column) =>
+      columns ? columns.has(column.path) : isReadableColumn(column)
+    );
+    const nested = selected.filter((column) => !isReadableColumn(column));
+    if (nested.length) {
+      throw new AppError(
+        `Nested columns cannot be queried: ${nested
+          .map((column) => column.path)
+          .join(", ")}`,
+        400
+      );
+    }
+
+    // Row groups are decoded one at a time to bound memory
+    for (const group of metadata.rowGroups) {
+      const values: QueryValue[][] = [];
+
+      const bytes = selected.reduce(
+        (total, column) => total + (group.chunks.get(column.path)?.length ?? 0),
+        0
+      );
+      if (bytes > MAX_PARQUET_ROW_GROUP_BYTES) {
+        throw new AppError(
+          "A row group of this file is too large to query; select fewer columns",
+          413
+        );
+      }
+
+      for (const column of selected) {
+        const chunk = group.chunks.get(column.path);
+        if (!chunk) {
+          values.push([]);
+          continue;
+        }
+
+        try {
+          values.push(
+            decodeColumnChunk(
+              column,
+              chunk,
+              await readRange(chunk.start, chunk.start + chunk.length - 1),
+              group.rowCount
+            )
+          );
+        } catch (error) {
+          throw new AppError(
+            `Could not read Parquet file: ${
+              error instanceof Error ? error.message : "unknown error"
+            }`,
+            422
+          );
+        }
+      }
+
+      for (let i = 0; i < group.rowCount; i++) {
+        const row: Row = {};
+        selected.forEach((column, j) => {
+          row[column.path] = values[j][i] ?? null;
+        });
+        yield row;
+      }
+    }
+  }
+}
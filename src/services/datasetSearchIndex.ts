@@ -0,0 +1,414 @@
+import path from "path";
+import { Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { tokenize } from "./searchService";
+import {
+  DATASET_FACETS,
+  DatasetFacet,
+  DatasetFacetCounts,
+  DatasetSearchOptions,
+  IndexedDataset,
+} from "@/types/dataset/search";
+
+// Standard BM25 saturation and length normalization parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Term frequency multipliers, so a title match outranks a description match
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  fileNames: 1.5,
+  description: 1,
+};
+
+const UNSPECIFIED_LICENSE = "unspecified";
+const BACKFILL_BATCH_SIZE = 100;
+
+const datasetIndexSelect = Prisma.validator<Prisma.DatasetSelect>()({
+  id: true,
+  title: true,
+  description: true,
+  tags: true,
+  fileType: true,
+  accessibility: true,
+  metadata: true,
+  card: true,
+  userWalletAddress: true,
+  files: { select: { name: true, contentType: true } },
+});
+
+type IndexableDataset = Prisma.DatasetGetPayload<{
+  select: typeof datasetIndexSelect;
+}>;
+
+// Accessibility is stored as PUBLIC, public or private depending on the writer
+const normalizeAccessibility = (accessibility: string) =>
+  accessibility.toLowerCase() === "public" ? "public" : "private";
+
+// Extension of the file name, falling back to the MIME subtype
+const fileTypeOf = (file: { name: string; contentType: string }) =>
+  path.extname(file.name).slice(1).toLowerCase() ||
+  file.contentType.split("/")[1]?.toLowerCase() ||
+  null;
+
+// Forked datasets store their metadata as a JSON string
+const licenseOf = (metadata: Prisma.JsonValue) => {
+  let value: unknown = metadata;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  const license = (value as { license?: unknown } | null)?.license;
+  return typeof license === "string" && license.trim() ? license.trim() : null;
+};
+
+export const buildDatasetDocument = (
+  dataset: IndexableDataset
+): IndexedDataset => {
+  const terms = new Map<string, number>();
+  let length = 0;
+
+  const add = (text: string | null, weight: number) => {
+    for (const token of tokenize(text ?? "")) {
+      terms.set(token, (terms.get(token) ?? 0) + weight);
+      length += weight;
+    }
+  };
+
+  add(dataset.title, FIELD_WEIGHTS.title);
+  add(dataset.description, FIELD_WEIGHTS.description);
+  add(dataset.tags.join(" "), FIELD_WEIGHTS.tags);
+  add(
+    dataset.files.map((file) => file.name).join(" "),
+    FIELD_WEIGHTS.fileNames
+  );
+
+  const fileTypes = new Set(
+    dataset.files.map(fileTypeOf).filter((type): type is string => !!type)
+  );
+  if (!fileTypes.size && dataset.fileType) {
+    fileTypes.add(dataset.fileType.toLowerCase());
+  }
+
+  return {
+    terms: Object.fromEntries(terms),
+    length,
+    fileTypes: [...fileTypes],
+    tags: [...new Set(dataset.tags)],
+    // The dataset card is authoritative; older datasets only have metadata
+    license: licenseOf(dataset.card) ?? licenseOf(dataset.metadata),
+    accessibility: normalizeAccessibility(dataset.accessibility),
+    ownerAddress: dataset.userWalletAddress,
+  };
+};
+
+const facetValues = (document: IndexedDataset, facet: DatasetFacet) => {
+  switch (facet) {
+    case "fileType":
+      return document.fileTypes;
+    case "tag":
+      return document.tags;
+    case "license":
+      return [document.license ?? UNSPECIFIED_LICENSE];
+    case "accessibility":
+      return [document.accessibility];
+  }
+};
+
+/**
+ * Inverted index over dataset titles, descriptions, tags and file names,
+ * ranked with BM25. Documents are persisted in DatasetSearchDocument so a
+ * restart only reloads them; datasets without a stored document are indexed
+ * on load.
+ */
+export class DatasetSearchIndex {
+  private documents = new Map<string, IndexedDataset>();
+  // Term -> dataset id -> weighted term frequency
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+  private loading?: Promise<void>;
+
+  load() {
+    if (!this.loading) {
+      this.loading = this.restore().catch((error) => {
+        logger.error("Failed to load dataset search index", {
+          error:
+            error instanceof Error
+              ? { name: error.name, message: error.message, stack: error.stack }
+              : error,
+        });
+        // Let the next search retry
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async restore() {
+    const perf = createPerformanceTracker("dataset-index-load");
+
+    const [stored, datasets] = await Promise.all([
+      prisma.datasetSearchDocument.findMany(),
+      prisma.dataset.findMany({ select: { id: true } }),
+    ]);
+
+    const datasetIds = new Set(datasets.map((dataset) => dataset.id));
+    const staleIds: string[] = [];
+
+    for (const document of stored) {
+      if (!datasetIds.has(document.datasetId)) {
+        staleIds.push(document.datasetId);
+        continue;
+      }
+
+      this.addToMemory(document.datasetId, {
+        terms: document.terms as Record<string, number>,
+        length: document.length,
+        fileTypes: document.fileTypes,
+        tags: document.tags,
+        license: document.license,
+        accessibility: document.accessibility,
+        ownerAddress: document.ownerAddress,
+      });
+    }
+
+    if (staleIds.length) {
+      await prisma.datasetSearchDocument.deleteMany({
+        where: { datasetId: { in: staleIds } },
+      });
+    }
+
+    const missingIds = [...datasetIds].filter(
+      (datasetId) => !this.documents.has(datasetId)
+    );
+
+    for (let i = 0; i < missingIds.length; i += BACKFILL_BATCH_SIZE) {
+      const batch = await prisma.dataset.findMany({
+        where: { id: { in: missingIds.slice(i, i + BACKFILL_BATCH_SIZE) } },
+        select: datasetIndexSelect,
+      });
+
+      for (const dataset of batch) {
+        await this.store(dataset);
+      }
+    }
+
+    logger.info("Dataset search index loaded", {
+      documents: this.documents.size,
+      terms: this.postings.size,
+      backfilled: missingIds.length,
+      removed: staleIds.length,
+      duration: perf.end(),
+    });
+  }
+
+  private addToMemory(datasetId: string, document: IndexedDataset) {
+    this.removeFromMemory(datasetId);
+
+    for (const [term, frequency] of Object.entries(document.terms)) {
+      const postings = this.postings.get(term) ?? new Map<string, number>();
+      postings.set(datasetId, frequency);
+      this.postings.set(term, postings);
+    }
+
+    this.documents.set(datasetId, document);
+    this.totalLength += document.length;
+  }
+
+  private removeFromMemory(datasetId: string) {
+    const document = this.documents.get(datasetId);
+    if (!document) return;
+
+    for (const term of Object.keys(document.terms)) {
+      const postings = this.postings.get(term);
+      postings?.delete(datasetId);
+      if (postings && !postings.size) this.postings.delete(term);
+    }
+
+    this.documents.delete(datasetId);
+    this.totalLength -= document.length;
+  }
+
+  private async store(dataset: IndexableDataset) {
+    const document = buildDatasetDocument(dataset);
+
+    await prisma.datasetSearchDocument.upsert({
+      where: { datasetId: dataset.id },
+      create: { datasetId: dataset.id, ...document },
+      update: document,
+    });
+
+    this.addToMemory(dataset.id, document);
+  }
+
+  /**
+   * Re-reads the dataset and replaces its document. Indexing failures are
+   * logged rather than thrown, since the index can always be rebuilt.
+   */
+  async indexDataset(datasetId: string) {
+    try {
+      await this.loading;
+
+      const dataset = await prisma.dataset.findUnique({
+        where: { id: datasetId },
+        select: datasetIndexSelect,
+      });
+
+      if (!dataset) {
+        await this.removeDataset(datasetId);
+        return;
+      }
+
+      await this.store(dataset);
+    } catch (error) {
+      logger.warn("Failed to index dataset", {
+        datasetId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  async removeDataset(datasetId: string) {
+    try {
+      await this.loading;
+      await prisma.datasetSearchDocument.deleteMany({ where: { datasetId } });
+      this.removeFromMemory(datasetId);
+    } catch (error) {
+      logger.warn("Failed to remove dataset from search index", {
+        datasetId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private score(terms: string[]) {
+    const scores = new Map<string, number>();
+    const count = this.documents.size;
+    const averageLength = count ? this.totalLength / count : 0;
+
+    for (const term of terms) {
+      const postings = this.postings.get(term);
+      if (!postings) continue;
+
+      const idf = Math.log(
+        1 + (count - postings.size + 0.5) / (postings.size + 0.5)
+      );
+
+      for (const [datasetId, frequency] of postings) {
+        const { length } = this.documents.get(datasetId)!;
+        const normalized =
+          (frequency * (BM25_K1 + 1)) /
+          (frequency +
+            BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength));
+
+        scores.set(datasetId, (scores.get(datasetId) ?? 0) + idf * normalized);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Ranked page of datasets visible to the viewer, with facet counts over
+   * every match after filters are applied.
+   */
+  async search(options: DatasetSearchOptions) {
+    const perf = createPerformanceTracker("dataset-search");
+    await this.load();
+
+    const terms = [...new Set(tokenize(options.query))];
+    // Without terms every dataset matches; ids break ties by creation order
+    const scores = terms.length
+      ? this.score(terms)
+      : new Map([...this.documents.keys()].map((datasetId) => [datasetId, 0]));
+
+    const filters = Object.entries(options.filters).filter(
+      (entry): entry is [DatasetFacet, string] => !!entry[1]
+    );
+
+    const matches = [...scores]
+      .filter(([datasetId]) => {
+        const document = this.documents.get(datasetId)!;
+        const visible =
+          document.accessibility === "public" ||
+          (!!options.viewerAddress &&
+            document.ownerAddress === options.viewerAddress);
+
+        return (
+          visible &&
+          filters.every(([facet, value]) =>
+            facetValues(document, facet).some(
+              (candidate) => candidate.toLowerCase() === value.toLowerCase()
+            )
+          )
+        );
+      })
+      .sort(
+        ([aId, a], [bId, b]) => b - a || (aId < bId ? 1 : aId > bId ? -1 : 0)
+      );
+
+    const counts = DATASET_FACETS.map(
+      (facet) => [facet, new Map<string, number>()] as const
+    );
+
+    for (const [datasetId] of matches) {
+      const document = this.documents.get(datasetId)!;
+      for (const [facet, values] of counts) {
+        for (const value of facetValues(document, facet)) {
+          values.set(value, (values.get(value) ?? 0) + 1);
+        }
+      }
+    }
+
+    const facets = Object.fromEntries(
+      counts.map(([facet, values]) => [facet, Object.fromEntries(values)])
+    ) as DatasetFacetCounts;
+
+    const page = matches.slice(
+      (options.page - 1) * options.limit,
+      options.page * options.limit
+    );
+
+    const datasets = await prisma.dataset.findMany({
+      where: { id: { in: page.map(([datasetId]) => datasetId) } },
+      include: {
+        user: {
+          select: {
+            name: true,
+            walletAddress: true,
+          },
+        },
+      },
+    });
+    const datasetsById = new Map(datasets.map((d) => [d.id, d]));
+
+    logger.info("Dataset search served", {
+      terms: terms.length,
+      filters: filters.length,
+      total: matches.length,
+      duration: perf.end(),
+    });
+
+    return {
+      datasets: page.flatMap(([datasetId, score]) => {
+        const dataset = datasetsById.get(datasetId);
+        return dataset ? [{ ...dataset, score: Number(score.toFixed(4)) }] : [];
+      }),
+      facets,
+      pagination: {
+        total: matches.length,
+        page: options.page,
+        pages: Math.ceil(matches.length / options.limit),
+      },
+    };
+  }
+}
+
+export const datasetSearchIndex = new DatasetSearchIndex();
@@ -1,6 +1,7 @@
 import { PrismaClient, Dataset, File, Prisma } from "@prisma/client";
 import { GitLFSDatasetService, gitLFSService, DatasetMetadata } from "./gitLFSservice";
 import { S3DatasetService } from "./s3DatasetService";
+import { DatasetCardService } from "./datasetCardService";
 import { logger } from "../utils/monitor";
 import { 
   VersionTree, 
@@ -478,11 +479,22 @@ export class DatasetVersioningService {
           throw new Error("Dataset not found or access denied");
         }
 
+        const card = DatasetCardService.parse(dataset.card);
         await this.gitLFS.createVersion(
           userWalletAddress,
           datasetId,
           input.version,
-          input.changes
+          input.changes,
+          {
+            name: dataset.title,
+            description: dataset.description || "",
+            version: input.version,
+            creator: userWalletAddress,
+            license: card.license ?? "unknown",
+            tags: dataset.tags,
+            updatedAt: new Date().toISOString(),
+            card,
+          }
         );
 
         const fileUrls = await Promise.all(
@@ -501,6 +513,7 @@ export class DatasetVersioningService {
                 contentType: file.contentType,
                 storageKey,
                 datasetId,
+                version: input.version,
               },
             });
 
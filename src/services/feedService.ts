@@ -0,0 +1,459 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { PostService, postAuthorSelect } from "./postService";
+import { ContentPreferenceService } from "./contentPreferenceService";
+import { FeedCursor, FeedOptions, FeedWindow } from "@/types/community/feed";
+
+const WINDOW_MS: Record<Exclude<FeedWindow, "all">, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+// Hot and controversial are ranked in memory over the most recent posts
+const RANKING_CANDIDATE_LIMIT = 1000;
+
+// Home feed multipliers for posts by followed users and organization members
+const FOLLOWED_USER_BOOST = 1.5;
+const FOLLOWED_ORG_BOOST = 1.25;
+
+// Reference point for hot ranking; every 12.5 hours of age costs one order
+// of magnitude of score
+const HOT_EPOCH_SECONDS = 1134028003;
+const HOT_DECAY_SECONDS = 45000;
+
+export const feedPostInclude = Prisma.validator<Prisma.PostInclude>()({
+  author: { select: postAuthorSelect },
+  community: { select: { id: true, slug: true, name: true, icon: true } },
+  _count: { select: { comments: true } },
+});
+
+export const hotScore = (score: number, createdAt: Date) => {
+  const order = Math.log10(Math.max(Math.abs(score), 1));
+  const sign = Math.sign(score);
+  const seconds = createdAt.getTime() / 1000 - HOT_EPOCH_SECONDS;
+
+  return sign * order + seconds / HOT_DECAY_SECONDS;
+};
+
+// Many votes split close to evenly rank highest
+export const controversyScore = (upvotes: number, downvotes: number) => {
+  if (upvotes <= 0 || downvotes <= 0) return 0;
+
+  const magnitude = upvotes + downvotes;
+  const balance =
+    upvotes > downvotes ? downvotes / upvotes : upvotes / downvotes;
+
+  return Math.pow(magnitude, balance);
+};
+
+export const encodeFeedCursor = (cursor: FeedCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeFeedCursor = (cursor: string): FeedCursor => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+
+    if (typeof parsed.value === "number" && typeof parsed.id === "string") {
+      return { value: parsed.value, id: parsed.id };
+    }
+  } catch {
+    // fall through to the error below
+  }
+
+  throw new CommunityError(400, "Invalid cursor");
+};
+
+// Strictly after `cursor` in a descending (value, id) ordering
+export const isAfterCursor = (value: number, id: string, cursor?: FeedCursor) =>
+  !cursor || value < cursor.value || (value === cursor.value && id < cursor.id);
+
+export class FeedService {
+  // Authors the viewer blocked, and authors who blocked the viewer
+  static async getHiddenAuthorIds(userId: string): Promise<string[]> {
+    const blocks = await prisma.blockedUser.findMany({
+      where: { OR: [{ blockerId: userId }, { blockedId: userId }] },
+      select: { blockerId: true, blockedId: true },
+    });
+
+    return Array.from(
+      new Set(
+        blocks.map((block) =>
+          block.blockerId === userId ? block.blockedId : block.blockerId
+        )
+      )
+    );
+  }
+
+  // Filters shared by every feed: visible status, blocks and NSFW preference
+  static async getViewerFilters(
+    viewerId: string
+  ): Promise<{ where: Prisma.PostWhereInput; showNSFW: boolean }> {
+    const [viewer, hiddenAuthorIds] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: viewerId },
+        select: { showNSFW: true },
+      }),
+      this.getHiddenAuthorIds(viewerId),
+    ]);
+
+    const showNSFW = !!viewer?.showNSFW;
+
+    return {
+      showNSFW,
+      where: {
+        status: "active",
+        ...(hiddenAuthorIds.length && {
+          authorId: { notIn: hiddenAuthorIds },
+        }),
+        ...(!showNSFW && { isNSFW: false }),
+      },
+    };
+  }
+
+  /**
+   * Ranks posts matching `where` and returns one page after the cursor.
+   * new and top are ordered by the database; hot and controversial are
+   * scored in memory over the latest candidates.
+   */
+  static async getRankedPage(
+    viewerId: string,
+    where: Prisma.PostWhereInput,
+    options: FeedOptions
+  ) {
+    const cursor = options.cursor
+      ? decodeFeedCursor(options.cursor)
+      : undefined;
+
+    const windowed: Prisma.PostWhereInput =
+      (options.sort === "top" || options.sort === "controversial") &&
+      options.window !== "all"
+        ? {
+            ...where,
+            createdAt: {
+              gte: new Date(Date.now() - WINDOW_MS[options.window]),
+            },
+          }
+        : where;
+
+    let ranked: { id: string; value: number }[];
+
+    if (options.sort === "new" || options.sort === "top") {
+      const field = options.sort === "new" ? "createdAt" : "score";
+      const cursorValue =
+        cursor &&
+        (field === "createdAt" ? new Date(cursor.value) : cursor.value);
+
+      const rows = await prisma.post.findMany({
+        where: {
+          AND: [
+            windowed,
+            cursor
+              ? {
+                  OR: [
+                    { [field]: { lt: cursorValue } },
+                    { [field]: cursorValue, id: { lt: cursor.id } },
+                  ],
+                }
+              : {},
+          ],
+        },
+        orderBy: [{ [field]: "desc" }, { id: "desc" }],
+        select: { id: true, score: true, createdAt: true },
+        take: options.limit + 1,
+      });
+
+      ranked = rows.map((row) => ({
+        id: row.id,
+        value: field === "createdAt" ? row.createdAt.getTime() : row.score,
+      }));
+    } else {
+      const candidates = await prisma.post.findMany({
+        where: windowed,
+        orderBy: { createdAt: "desc" },
+        select: {
+          id: true,
+          score: true,
+          upvotes: true,
+          downvotes: true,
+          createdAt: true,
+        },
+        take: RANKING_CANDIDATE_LIMIT,
+      });
+
+      ranked = candidates
+        .map((post) => ({
+          id: post.id,
+          value:
+            options.sort === "hot"
+              ? hotScore(post.score, post.createdAt)
+              : controversyScore(post.upvotes, post.downvotes),
+        }))
+        .sort((a, b) => b.value - a.value || (a.id < b.id ? 1 : -1))
+        .filter((item) => isAfterCursor(item.value, item.id, cursor))
+        .slice(0, options.limit + 1);
+    }
+
+    const hasMore = ranked.length > options.limit;
+    const page = ranked.slice(0, options.limit);
+
+    return {
+      posts: await this.hydrate(
+        viewerId,
+        page.map((item) => item.id)
+      ),
+      nextCursor: hasMore ? encodeFeedCursor(page[page.length - 1]) : null,
+      hasMore,
+    };
+  }
+
+  // Loads full posts in the given order along with the viewer's own votes
+  static async hydrate(viewerId: string, ids: string[]) {
+    if (!ids.length) return [];
+
+    const [posts, votes] = await Promise.all([
+      prisma.post.findMany({
+        where: { id: { in: ids } },
+        include: feedPostInclude,
+      }),
+      prisma.vote.findMany({
+        where: { userId: viewerId, postId: { in: ids }, commentId: null },
+        select: { postId: true, value: true },
+      }),
+    ]);
+
+    const byId = new Map(posts.map((post) => [post.id, post]));
+    const voteByPost = new Map(votes.map((vote) => [vote.postId, vote.value]));
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((post): post is NonNullable<typeof post> => !!post)
+      .map((post) => ({ ...post, userVote: voteByPost.get(post.id) ?? 0 }));
+  }
+
+  static async getCommunityFeed(
+    viewerId: string,
+    slug: string,
+    options: FeedOptions
+  ) {
+    const perf = createPerformanceTracker("community-feed");
+    const community = await CommunityService.getCommunityBySlug(slug);
+    await PostService.assertCanView(viewerId, community);
+
+    const { where, showNSFW } = await this.getViewerFilters(viewerId);
+
+    if (community.isNSFW && !showNSFW) {
+      throw new CommunityError(
+        403,
+        "Enable NSFW content in your settings to view this community"
+      );
+    }
+
+    const feed = await this.getRankedPage(
+      viewerId,
+      { ...where, communityId: community.id },
+      options
+    );
+
+    logger.info("Community feed served", {
+      communityId: community.id,
+      sort: options.sort,
+      count: feed.posts.length,
+      duration: perf.end(),
+    });
+
+    return feed;
+  }
+
+  // Archived communities and private ones the viewer is not a member of
+  static async getClosedCommunityIds(memberOf: Set<string>) {
+    const closedCommunities = await prisma.community.findMany({
+      where: { OR: [{ isPrivate: true }, { isArchived: true }] },
+      select: { id: true, isArchived: true },
+    });
+
+    return closedCommunities
+      .filter(
+        (community) => community.isArchived || !memberOf.has(community.id)
+      )
+      .map((community) => community.id);
+  }
+
+  // All public communities plus the private ones the viewer belongs to
+  static async getGlobalFeed(viewerId: string, options: FeedOptions) {
+    const perf = createPerformanceTracker("global-feed");
+
+    const [{ where }, memberships] = await Promise.all([
+      this.getViewerFilters(viewerId),
+      prisma.communityMember.findMany({
+        where: { userId: viewerId },
+        select: { communityId: true },
+      }),
+    ]);
+
+    const excluded = await this.getClosedCommunityIds(
+      new Set(memberships.map((m) => m.communityId))
+    );
+
+    const feed = await this.getRankedPage(
+      viewerId,
+      {
+        ...where,
+        ...(excluded.length && { communityId: { notIn: excluded } }),
+      },
+      options
+    );
+
+    logger.info("Global feed served", {
+      userId: viewerId,
+      sort: options.sort,
+      count: feed.posts.length,
+      duration: perf.end(),
+    });
+
+    return feed;
+  }
+
+  /**
+   * Home feed built from joined communities, followed users and members of
+   * followed organizations. Candidates are ranked by hot score plus the log
+   * of a source boost times the viewer's learned content affinity.
+   */
+  static async getHomeFeed(
+    viewerId: string,
+    options: Pick<FeedOptions, "limit" | "cursor">
+  ) {
+    const perf = createPerformanceTracker("home-feed");
+    const cursor = options.cursor
+      ? decodeFeedCursor(options.cursor)
+      : undefined;
+
+    const [{ where }, memberships, followedUsers, followedOrgs, weights] =
+      await Promise.all([
+        this.getViewerFilters(viewerId),
+        prisma.communityMember.findMany({
+          where: { userId: viewerId },
+          select: { communityId: true },
+        }),
+        prisma.userFollower.findMany({
+          where: { followerId: viewerId },
+          select: { followingId: true },
+        }),
+        prisma.organizationFollower.findMany({
+          where: { userId: viewerId },
+          select: { organizationId: true },
+        }),
+        ContentPreferenceService.getWeights(viewerId),
+      ]);
+
+    const orgMembers = followedOrgs.length
+      ? await prisma.organizationMember.findMany({
+          where: {
+            organizationId: { in: followedOrgs.map((f) => f.organizationId) },
+          },
+          select: { userId: true },
+        })
+      : [];
+
+    const memberOf = new Set(memberships.map((m) => m.communityId));
+    const followedUserIds = new Set(followedUsers.map((f) => f.followingId));
+    const orgAuthorIds = new Set(
+      orgMembers
+        .map((member) => member.userId)
+        .filter((userId) => userId !== viewerId)
+    );
+    const authorIds = [...followedUserIds, ...orgAuthorIds];
+
+    if (!memberOf.size && !authorIds.length) {
+      return { posts: [], nextCursor: null, hasMore: false };
+    }
+
+    const excluded = await this.getClosedCommunityIds(memberOf);
+
+    const candidates = await prisma.post.findMany({
+      where: {
+        AND: [
+          where,
+          excluded.length ? { communityId: { notIn: excluded } } : {},
+          {
+            OR: [
+              { communityId: { in: Array.from(memberOf) } },
+              { authorId: { in: authorIds } },
+            ],
+          },
+        ],
+      },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        type: true,
+        tags: true,
+        score: true,
+        authorId: true,
+        createdAt: true,
+        community: { select: { category: true } },
+      },
+      take: RANKING_CANDIDATE_LIMIT,
+    });
+
+    const ranked = candidates
+      .map((post) => {
+        const sourceBoost = followedUserIds.has(post.authorId)
+          ? FOLLOWED_USER_BOOST
+          : orgAuthorIds.has(post.authorId)
+          ? FOLLOWED_ORG_BOOST
+          : 1;
+        const affinity = ContentPreferenceService.affinity(weights, {
+          type: post.type,
+          tags: post.tags,
+          category: post.community.category,
+        });
+
+        return {
+          id: post.id,
+          value:
+            hotScore(post.score, post.createdAt) +
+            Math.log10(sourceBoost * affinity),
+        };
+      })
+      .sort((a, b) => b.value - a.value || (a.id < b.id ? 1 : -1))
+      .filter((item) => isAfterCursor(item.value, item.id, cursor))
+      .slice(0, options.limit + 1);
+
+    const hasMore = ranked.length > options.limit;
+    const page = ranked.slice(0, options.limit);
+    const posts = await this.hydrate(
+      viewerId,
+      page.map((item) => item.id)
+    );
+
+    logger.info("Home feed served", {
+      userId: viewerId,
+      candidates: candidates.length,
+      count: posts.length,
+      duration: perf.end(),
+    });
+
+    return {
+      posts,
+      nextCursor: hasMore ? encodeFeedCursor(page[page.length - 1]) : null,
+      hasMore,
+    };
+  }
+
+  // Client-reported reading time on a post feeds back into preferences
+  static async recordDwell(userId: string, postId: string, durationMs: number) {
+    const post = await PostService.getPostById(postId);
+
+    await ContentPreferenceService.recordSignal(
+      userId,
+      post.id,
+      ContentPreferenceService.dwellStrength(durationMs)
+    );
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,321 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { CommunityError } from "./communityService";
+import { FeedService } from "./feedService";
+import { BlockService } from "./blockService";
+import {
+  FollowListOptions,
+  FollowRelationship,
+  FollowSuggestionReason,
+} from "@/types/userProfile/follow";
+import { UserPrivacySettings } from "@/types/userProfile/userProfile";
+
+const followUserSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  walletAddress: true,
+  username: true,
+  name: true,
+  avatar: true,
+});
+
+// Upper bound on co-members read when building suggestions
+const SUGGESTION_CANDIDATE_LIMIT = 500;
+// A shared organization says more about a user than a shared community
+const SHARED_ORGANIZATION_WEIGHT = 2;
+
+export class FollowService {
+  static async getUserByWallet(walletAddress: string) {
+    const user = await prisma.user.findUnique({
+      where: { walletAddress },
+      select: { id: true, walletAddress: true, privacySettings: true },
+    });
+
+    if (!user) {
+      throw new CommunityError(404, "User not found");
+    }
+
+    return user;
+  }
+
+  // Follow lists of private profiles are only visible to their owner
+  private static async getVisibleProfile(
+    viewerId: string | undefined,
+    walletAddress: string
+  ) {
+    const user = await this.getUserByWallet(walletAddress);
+    const privacy = user.privacySettings as unknown as UserPrivacySettings;
+
+    if (privacy?.profileVisibility === "private" && viewerId !== user.id) {
+      throw new CommunityError(403, "This profile is private");
+    }
+
+    return user;
+  }
+
+  static async follow(followerId: string, walletAddress: string) {
+    const target = await this.getUserByWallet(walletAddress);
+
+    if (target.id === followerId) {
+      throw new CommunityError(400, "You cannot follow yourself");
+    }
+
+    await BlockService.assertNotBlocked(
+      followerId,
+      [target.id],
+      "You cannot follow this user"
+    );
+
+    const existing = await prisma.userFollower.findUnique({
+      where: {
+        followerId_followingId: { followerId, followingId: target.id },
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new CommunityError(409, "You already follow this user");
+    }
+
+    const follow = await prisma.userFollower.create({
+      data: { followerId, followingId: target.id },
+    });
+
+    logger.info("User followed", { followerId, followingId: target.id });
+
+    return follow;
+  }
+
+  static async unfollow(followerId: string, walletAddress: string) {
+    const target = await this.getUserByWallet(walletAddress);
+
+    const { count } = await prisma.userFollower.deleteMany({
+      where: { followerId, followingId: target.id },
+    });
+
+    if (!count) {
+      throw new CommunityError(404, "You do not follow this user");
+    }
+
+    logger.info("User unfollowed", { followerId, followingId: target.id });
+
+    return { success: true };
+  }
+
+  static async getRelationship(
+    viewerId: string,
+    walletAddress: string
+  ): Promise<FollowRelationship> {
+    const target = await this.getUserByWallet(walletAddress);
+
+    const edges = await prisma.userFollower.findMany({
+      where: {
+        OR: [
+          { followerId: viewerId, followingId: target.id },
+          { followerId: target.id, followingId: viewerId },
+        ],
+      },
+      select: { followerId: true },
+    });
+
+    const following = edges.some((edge) => edge.followerId === viewerId);
+    const followedBy = edges.some((edge) => edge.followerId === target.id);
+
+    return { following, followedBy, isMutual: following && followedBy };
+  }
+
+  /**
+   * Users who follow the profile. `isMutual` marks followers the profile
+   * owner follows back.
+   */
+  static async listFollowers(
+    viewerId: string | undefined,
+    walletAddress: string,
+    options: FollowListOptions
+  ) {
+    const profile = await this.getVisibleProfile(viewerId, walletAddress);
+    const where = { followingId: profile.id };
+
+    const [follows, total] = await Promise.all([
+      prisma.userFollower.findMany({
+        where,
+        include: { follower: { select: followUserSelect } },
+        orderBy: { createdAt: "desc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.userFollower.count({ where }),
+    ]);
+
+    const followedBack = await prisma.userFollower.findMany({
+      where: {
+        followerId: profile.id,
+        followingId: { in: follows.map((follow) => follow.followerId) },
+      },
+      select: { followingId: true },
+    });
+    const mutualIds = new Set(followedBack.map((edge) => edge.followingId));
+
+    return {
+      users: follows.map((follow) => ({
+        ...follow.follower,
+        followedAt: follow.createdAt,
+        isMutual: mutualIds.has(follow.followerId),
+      })),
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  // Users the profile follows; `isMutual` marks those who follow back
+  static async listFollowing(
+    viewerId: string | undefined,
+    walletAddress: string,
+    options: FollowListOptions
+  ) {
+    const profile = await this.getVisibleProfile(viewerId, walletAddress);
+    const where = { followerId: profile.id };
+
+    const [follows, total] = await Promise.all([
+      prisma.userFollower.findMany({
+        where,
+        include: { following: { select: followUserSelect } },
+        orderBy: { createdAt: "desc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.userFollower.count({ where }),
+    ]);
+
+    const followsBack = await prisma.userFollower.findMany({
+      where: {
+        followingId: profile.id,
+        followerId: { in: follows.map((follow) => follow.followingId) },
+      },
+      select: { followerId: true },
+    });
+    const mutualIds = new Set(followsBack.map((edge) => edge.followerId));
+
+    return {
+      users: follows.map((follow) => ({
+        ...follow.following,
+        followedAt: follow.createdAt,
+        isMutual: mutualIds.has(follow.followingId),
+      })),
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  /**
+   * Ranks users the viewer does not yet follow by how many communities and
+   * organizations they share, skipping anyone on either side of a block.
+   */
+  static async getSuggestions(userId: string, limit: number) {
+    const [memberships, affiliations, following, hiddenIds] = await Promise.all(
+      [
+        prisma.communityMember.findMany({
+          where: { userId },
+          select: { communityId: true },
+        }),
+        prisma.organizationMember.findMany({
+          where: { userId },
+          select: { organizationId: true },
+        }),
+        prisma.userFollower.findMany({
+          where: { followerId: userId },
+          select: { followingId: true },
+        }),
+        FeedService.getHiddenAuthorIds(userId),
+      ]
+    );
+
+    const excludedIds = [
+      userId,
+      ...following.map((follow) => follow.followingId),
+      ...hiddenIds,
+    ];
+
+    const [communityPeers, organizationPeers] = await Promise.all([
+      memberships.length
+        ? prisma.communityMember.findMany({
+            where: {
+              communityId: {
+                in: memberships.map((membership) => membership.communityId),
+              },
+              userId: { notIn: excludedIds },
+            },
+            select: { userId: true },
+            orderBy: { joinedAt: "desc" },
+            take: SUGGESTION_CANDIDATE_LIMIT,
+          })
+        : [],
+      affiliations.length
+        ? prisma.organizationMember.findMany({
+            where: {
+              organizationId: {
+                in: affiliations.map(
+                  (affiliation) => affiliation.organizationId
+                ),
+              },
+              userId: { notIn: excludedIds },
+            },
+            select: { userId: true },
+            orderBy: { joinedAt: "desc" },
+            take: SUGGESTION_CANDIDATE_LIMIT,
+          })
+        : [],
+    ]);
+
+    const reasons = new Map<string, FollowSuggestionReason>();
+    const reasonFor = (candidateId: string) => {
+      const reason = reasons.get(candidateId) ?? {
+        sharedCommunities: 0,
+        sharedOrganizations: 0,
+      };
+      reasons.set(candidateId, reason);
+      return reason;
+    };
+
+    communityPeers.forEach(
+      (peer) => reasonFor(peer.userId).sharedCommunities++
+    );
+    organizationPeers.forEach(
+      (peer) => reasonFor(peer.userId).sharedOrganizations++
+    );
+
+    const score = (reason: FollowSuggestionReason) =>
+      reason.sharedCommunities +
+      reason.sharedOrganizations * SHARED_ORGANIZATION_WEIGHT;
+
+    const ranked = [...reasons.entries()]
+      .sort(([, a], [, b]) => score(b) - score(a))
+      .slice(0, limit);
+
+    if (!ranked.length) return [];
+
+    const users = await prisma.user.findMany({
+      where: {
+        id: { in: ranked.map(([candidateId]) => candidateId) },
+        status: "active",
+      },
+      select: followUserSelect,
+    });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    return ranked.flatMap(([candidateId, reason]) => {
+      const user = usersById.get(candidateId);
+      return user ? [{ ...user, reason, score: score(reason) }] : [];
+    });
+  }
+}
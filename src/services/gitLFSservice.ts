@@ -4,6 +4,7 @@ import { logger } from "../utils/monitor";
 import fs from "fs/promises";
 import path from "path";
 import { FileInfo } from "@/types/dataset/dataset";
+import { DatasetCard } from "@/types/dataset/card";
 
 interface GitOperationError extends Error {
   command?: string;
@@ -33,6 +34,12 @@ interface VersionMetadata {
 
 const execAsync = promisify(exec);
 
+// Longer than any backtick run in the text, so the text cannot close it
+const codeFence = (text: string) =>
+  "`".repeat(
+    Math.max(3, ...(text.match(/`+/g) ?? []).map((run) => run.length + 1))
+  );
+
 export class GitLFSDatasetService {
   private baseDir: string;
 
@@ -190,7 +197,8 @@ export class GitLFSDatasetService {
     userId: string,
     datasetName: string,
     version: string,
-    changes: string
+    changes: string,
+    metadata?: DatasetMetadata
   ) {
     if (!this.validateVersion(version)) {
       throw new Error(
@@ -213,6 +221,14 @@ export class GitLFSDatasetService {
         JSON.stringify(versionMetadata, null, 2)
       );
 
+      // Re-render the README so the dataset card matches this version
+      if (metadata) {
+        await fs.writeFile(
+          path.join(repoPath, "README.md"),
+          this.generateReadme(metadata)
+        );
+      }
+
       await this.executeGitCommand(`
         cd ${repoPath} &&
         git add . &&
@@ -237,16 +253,18 @@ export class GitLFSDatasetService {
   }
 
   private generateReadme(metadata: DatasetMetadata): string {
-    return `# ${metadata.name}
+    const card = metadata.card;
+
+    return `${card ? this.generateCardFrontMatter(card) : ""}# ${metadata.name}
 
 ${metadata.description}
 
 ## Dataset Information
 - Creator: ${metadata.creator}
 - Version: ${metadata.version}
-- License: ${metadata.license}
+- License: ${card?.license ?? metadata.license}
 - Last Updated: ${metadata.updatedAt}
-
+${card ? this.generateCardSections(card) : ""}
 ## Tags
 ${metadata.tags.map((tag) => `- ${tag}`).join("\n")}
 
@@ -260,13 +278,86 @@ datasets/
 \`\`\`
 
 ## Usage
-[Include usage instructions here]
+Data files are stored with Git LFS. To get the files of this version:
+\`\`\`
+git checkout v${metadata.version}
+git lfs pull
+\`\`\`
 
 ## Citation
-[Include citation information here]
+${this.generateCitationBlock(card?.citation ?? this.generateCitation(metadata))}
 `;
   }
 
+  private generateCitationBlock(citation: string): string {
+    const fence = codeFence(citation);
+    return `${fence}bibtex\n${citation}\n${fence}`;
+  }
+
+  // YAML metadata block in the layout dataset hubs read from README.md.
+  // JSON strings are valid YAML scalars, so values are quoted that way.
+  private generateCardFrontMatter(card: DatasetCard): string {
+    const lines: string[] = [];
+    const list = (key: string, values: string[]) => {
+      if (!values.length) return;
+      lines.push(
+        `${key}:`,
+        ...values.map((value) => `- ${JSON.stringify(value)}`)
+      );
+    };
+
+    if (card.license) lines.push(`license: ${JSON.stringify(card.license)}`);
+    list("task_categories", card.taskCategories);
+    list("language", card.languages);
+    list("size_categories", card.sizeCategory ? [card.sizeCategory] : []);
+
+    return lines.length ? `---\n${lines.join("\n")}\n---\n\n` : "";
+  }
+
+  private generateCardSections(card: DatasetCard): string {
+    const sections: string[] = [];
+
+    if (card.taskCategories.length) {
+      sections.push(`- Task Categories: ${card.taskCategories.join(", ")}`);
+    }
+    if (card.languages.length) {
+      sections.push(`- Languages: ${card.languages.join(", ")}`);
+    }
+    if (card.sizeCategory) {
+      sections.push(`- Size Category: ${card.sizeCategory}`);
+    }
+    if (card.collectionProcess) {
+      sections.push(`\n## Collection Process\n${card.collectionProcess}`);
+    }
+    if (card.knownBiases.length) {
+      sections.push(
+        `\n## Known Biases\n${card.knownBiases
+          .map((bias) => `- ${bias}`)
+          .join("\n")}`
+      );
+    }
+
+    return sections.length ? `${sections.join("\n")}\n` : "";
+  }
+
+  // Fallback entry for datasets whose card has no citation
+  private generateCitation(metadata: DatasetMetadata): string {
+    const year =
+      new Date(metadata.updatedAt).getFullYear() || new Date().getFullYear();
+    const slug = metadata.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    const key = `${slug || "dataset"}_${year}`;
+
+    return `@misc{${key},
+  title = {${metadata.name}},
+  author = {${metadata.creator}},
+  year = {${year}},
+  version = {${metadata.version}}
+}`;
+  }
+
   private generateGitAttributes(): string {
     return `# Data files
 *.parquet filter=lfs diff=lfs merge=lfs -text
@@ -593,6 +684,7 @@ export interface DatasetMetadata {
   tags: string[];
   schema?: any;
   updatedAt: string;
+  card?: DatasetCard;
 }
 
 export const gitLFSService = new GitLFSDatasetService();
@@ -2,6 +2,9 @@ import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
 import { PrismaClient } from "@prisma/client";
 import { logger } from "@/utils/monitor";
 import { createPerformanceTracker } from "@/index";
+import { sanctionService } from "./sanctionService";
+import { BlockService } from "./blockService";
+import { CommunityError } from "./communityService";
 import {
   MessageResponse,
   ConversationResponse,
@@ -76,7 +79,8 @@ export class MessagingService {
     isGroup: boolean = false,
     groupName?: string,
     groupAvatar?: string,
-    metadata?: any
+    metadata?: any,
+    communityId?: string
   ): Promise<ConversationResponse> {
     const perf = createPerformanceTracker("create-conversation");
 
@@ -89,6 +93,7 @@ export class MessagingService {
           },
         },
         select: {
+          id: true,
           walletAddress: true,
           username: true,
           name: true,
@@ -100,6 +105,40 @@ export class MessagingService {
         throw new Error("One or more participants not found");
       }
 
+      const creator = participants.find(
+        (p) => p.walletAddress === creatorAddress
+      )!;
+      await BlockService.assertNotBlocked(
+        creator.id,
+        participants.map((p) => p.id),
+        "You cannot start a conversation with this user"
+      );
+
+      // Community conversations are limited to members and follow the
+      // community's bans and mutes from then on
+      if (communityId) {
+        const members = await prisma.communityMember.count({
+          where: {
+            communityId,
+            userId: { in: participants.map((p) => p.id) },
+          },
+        });
+        if (members !== participants.length) {
+          throw new CommunityError(
+            403,
+            "All participants must be members of the community"
+          );
+        }
+
+        for (const p of participants) {
+          if (p.walletAddress === creatorAddress) {
+            await sanctionService.assertCanParticipate(p.id, communityId);
+          } else {
+            await sanctionService.assertNotBanned(p.id, communityId);
+          }
+        }
+      }
+
       // Create conversation with participants using transaction
       const conversation = await prisma.$transaction(async (prisma) => {
         // Create the conversation
@@ -109,6 +148,7 @@ export class MessagingService {
             groupName,
             groupAvatar,
             metadata,
+            communityId,
             messageCount: 0,
           },
         });
@@ -229,6 +269,26 @@ export class MessagingService {
         throw new Error("Not a member of this conversation");
       }
 
+      const senderUser = participant.conversation.participants.find(
+        (p) => p.walletAddress === walletAddress
+      )?.user;
+
+      // Blocks only silence direct messages; group chats stay usable
+      if (senderUser && !participant.conversation.isGroup) {
+        await BlockService.assertNotBlocked(
+          senderUser.id,
+          participant.conversation.participants
+            .filter((p) => !p.leftAt)
+            .map((p) => p.user.id),
+          "You cannot message this user"
+        );
+      }
+
+      const { communityId } = participant.conversation;
+      if (communityId && senderUser) {
+        await sanctionService.assertCanParticipate(senderUser.id, communityId);
+      }
+
       // Encrypt the message
       const { encrypted, iv } = this.encrypt(content);
 
@@ -0,0 +1,1211 @@
+import { Comment, Community, Post, Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { validation } from "@/utils/security";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { PostService, postAuthorSelect } from "./postService";
+import { CommentService } from "./commentService";
+import {
+  ModerationActionInput,
+  ModerationActionType,
+  ModerationLogOptions,
+  ModerationQueueOptions,
+} from "@/types/community/moderation";
+
+// Callers may pass their interactive transaction so the log commits with it
+type TransactionClient = Pick<typeof prisma, "moderationAction">;
+
+type ModerationTransaction = Pick<
+  typeof prisma,
+  | "post"
+  | "comment"
+  | "community"
+  | "communityMember"
+  | "bannedUser"
+  | "mutedUser"
+>;
+
+// State captured when the action was taken, used to undo it
+interface ModerationActionMetadata {
+  previousStatus?: string;
+  banId?: string;
+  muteId?: string;
+  // Membership a ban took away, restored when the ban is undone
+  membership?: {
+    role: string;
+    reputation: number;
+    joinedAt: string;
+    hasTokenAccess: boolean;
+    tokenVerifiedAt: string | null;
+  };
+  // Lifted sanction, restored when an unban or unmute is undone
+  sanction?: {
+    reason: string;
+    issuedBy: string;
+    expiresAt: string | null;
+  };
+}
+
+// Hidden statuses a moderator can review and publish
+type HeldStatus = "pending" | "spam";
+const HELD_STATUSES: HeldStatus[] = ["pending", "spam"];
+
+const isExpired = (expiresAt: Date | null) =>
+  !!expiresAt && expiresAt <= new Date();
+
+const REVERSIBLE_ACTIONS: ModerationActionType[] = [
+  "remove_post",
+  "approve_post",
+  "remove_comment",
+  "approve_comment",
+  "ban",
+  "mute",
+  "unban",
+  "unmute",
+  "lock_post",
+  "unlock_post",
+  "pin_post",
+  "unpin_post",
+];
+
+// Undoing these needs user management rather than post management
+const SANCTION_ACTIONS: ModerationActionType[] = [
+  "ban",
+  "mute",
+  "unban",
+  "unmute",
+];
+
+export class ModerationService {
+  // Every moderation decision leaves an audit row
+  static async logAction(
+    input: ModerationActionInput,
+    tx: TransactionClient = prisma
+  ) {
+    const action = await tx.moderationAction.create({
+      data: {
+        type: input.type,
+        moderatorId: input.moderatorId,
+        targetId: input.targetId,
+        targetType: input.targetType,
+        reason: input.reason,
+        communityId: input.communityId ?? null,
+        metadata: input.metadata as Prisma.InputJsonValue | undefined,
+        expiresAt: input.expiresAt ?? null,
+      },
+    });
+
+    logger.info("Moderation action recorded", {
+      actionId: action.id,
+      type: action.type,
+      moderatorId: action.moderatorId,
+      targetType: action.targetType,
+      targetId: action.targetId,
+      communityId: action.communityId,
+    });
+
+    return action;
+  }
+
+  // Community ids the user moderates, and whether they are site staff
+  static async getModerationScope(userId: string) {
+    const [user, moderated, created] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { isAdmin: true, isModerator: true },
+      }),
+      prisma.communityModerator.findMany({
+        where: { userId },
+        select: { communityId: true },
+      }),
+      prisma.community.findMany({
+        where: { creatorId: userId },
+        select: { id: true },
+      }),
+    ]);
+
+    return {
+      isStaff: !!(user?.isAdmin || user?.isModerator),
+      communityIds: Array.from(
+        new Set([
+          ...moderated.map((m) => m.communityId),
+          ...created.map((c) => c.id),
+        ])
+      ),
+    };
+  }
+
+  // Site staff handle anything that is not tied to a community
+  static async assertCanModerateCommunity(
+    userId: string,
+    communityId: string | null
+  ) {
+    const scope = await this.getModerationScope(userId);
+    const allowed = communityId
+      ? scope.communityIds.includes(communityId)
+      : scope.isStaff;
+
+    if (!allowed) {
+      throw new CommunityError(403, "Moderator access required");
+    }
+  }
+
+  /**
+   * Where-clause limiting moderation records to one community, or to every
+   * community the user moderates when no slug is given.
+   */
+  static async getScopeFilter(userId: string, communitySlug?: string) {
+    if (communitySlug) {
+      const community = await CommunityService.getCommunityBySlug(
+        communitySlug
+      );
+      await CommunityService.assertCanModerate(userId, community);
+      return { OR: [{ communityId: community.id }] };
+    }
+
+    const scope = await this.getModerationScope(userId);
+
+    if (!scope.communityIds.length && !scope.isStaff) {
+      throw new CommunityError(403, "Moderator access required");
+    }
+
+    return {
+      OR: [
+        { communityId: { in: scope.communityIds } },
+        ...(scope.isStaff ? [{ communityId: null }] : []),
+      ],
+    };
+  }
+
+  // Like getScopeFilter, for content that always belongs to a community
+  private static async getModeratedCommunityIds(
+    userId: string,
+    communitySlug?: string
+  ) {
+    if (communitySlug) {
+      const community = await CommunityService.getCommunityBySlug(
+        communitySlug
+      );
+      await CommunityService.assertCanModerate(userId, community);
+      return [community.id];
+    }
+
+    const { communityIds } = await this.getModerationScope(userId);
+
+    if (!communityIds.length) {
+      throw new CommunityError(403, "Moderator access required");
+    }
+
+    return communityIds;
+  }
+
+  private static async execute<T>(
+    operation: string,
+    context: Record<string, unknown>,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const perf = createPerformanceTracker(`moderation-${operation}`);
+
+    try {
+      const result = await fn();
+
+      const duration = perf.end();
+      logger.info(`Moderation ${operation} completed`, {
+        ...context,
+        duration,
+      });
+
+      return result;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error(`Error during moderation ${operation}:`, {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        ...context,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  private static async getModeratedPost(moderatorId: string, postId: string) {
+    const post = await PostService.getPostById(postId);
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: post.communityId },
+    });
+    await CommunityService.assertCanModerate(
+      moderatorId,
+      community,
+      "canManagePosts"
+    );
+
+    return { post, community };
+  }
+
+  static async removePost(moderatorId: string, postId: string, reason: string) {
+    return await this.execute(
+      "remove-post",
+      { moderatorId, postId },
+      async () => {
+        const { post } = await this.getModeratedPost(moderatorId, postId);
+        return await this.applyPostRemoval(moderatorId, post, reason);
+      }
+    );
+  }
+
+  // Also used by automated moderation, which has no moderator to check
+  static async applyPostRemoval(
+    moderatorId: string,
+    post: Post,
+    reason: string,
+    metadata?: Record<string, unknown>
+  ) {
+    if (post.status === "removed" || post.status === "deleted") {
+      throw new CommunityError(409, "Post was already removed");
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Only succeeds while the post keeps the status read above, so a
+      // concurrent removal or delete cannot uncount it twice
+      const { count } = await tx.post.updateMany({
+        where: { id: post.id, status: post.status },
+        data: { status: "removed" },
+      });
+
+      if (!count) {
+        throw new CommunityError(409, "Post was already removed");
+      }
+
+      // Held posts were never counted
+      if (post.status === "active") {
+        await tx.community.update({
+          where: { id: post.communityId },
+          data: { postCount: { decrement: 1 } },
+        });
+      }
+
+      return await this.logAction(
+        {
+          type: "remove_post",
+          moderatorId,
+          targetId: post.id,
+          targetType: "post",
+          reason,
+          communityId: post.communityId,
+          metadata: {
+            ...metadata,
+            previousStatus: post.status,
+            authorId: post.authorId,
+          },
+        },
+        tx
+      );
+    });
+  }
+
+  // Posts held for approval, or hidden by the spam filter, awaiting review
+  static async listPostQueue(
+    moderatorId: string,
+    status: HeldStatus,
+    options: ModerationQueueOptions
+  ) {
+    const where: Prisma.PostWhereInput = {
+      communityId: {
+        in: await this.getModeratedCommunityIds(
+          moderatorId,
+          options.communitySlug
+        ),
+      },
+      status,
+    };
+
+    const [posts, total] = await Promise.all([
+      prisma.post.findMany({
+        where,
+        include: {
+          author: { select: postAuthorSelect },
+          community: { select: { id: true, slug: true, name: true } },
+        },
+        orderBy: { createdAt: "asc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.post.count({ where }),
+    ]);
+
+    return {
+      posts,
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  static async listSpamComments(
+    moderatorId: string,
+    options: ModerationQueueOptions
+  ) {
+    const where: Prisma.CommentWhereInput = {
+      post: {
+        communityId: {
+          in: await this.getModeratedCommunityIds(
+            moderatorId,
+            options.communitySlug
+          ),
+        },
+      },
+      status: "spam",
+    };
+
+    const [comments, total] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: {
+          author: { select: postAuthorSelect },
+          post: { select: { id: true, title: true, communityId: true } },
+        },
+        orderBy: { createdAt: "asc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.comment.count({ where }),
+    ]);
+
+    return {
+      comments,
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  // Publishes a post held for approval or restores a spam false positive
+  static async approvePost(
+    moderatorId: string,
+    postId: string,
+    reason?: string
+  ) {
+    return await this.execute(
+      "approve-post",
+      { moderatorId, postId },
+      async () => {
+        const { post } = await this.getModeratedPost(moderatorId, postId);
+
+        return await prisma.$transaction(async (tx) => {
+          // Guards against a concurrent approval or removal
+          const { count } = await tx.post.updateMany({
+            where: { id: post.id, status: { in: HELD_STATUSES } },
+            data: { status: "active" },
+          });
+
+          if (!count) {
+            throw new CommunityError(409, "Post is not awaiting review");
+          }
+
+          await tx.community.update({
+            where: { id: post.communityId },
+            data: { postCount: { increment: 1 } },
+          });
+
+          return await this.logAction(
+            {
+              type: "approve_post",
+              moderatorId,
+              targetId: post.id,
+              targetType: "post",
+              reason: reason ?? "",
+              communityId: post.communityId,
+              metadata: {
+                previousStatus: post.status,
+                authorId: post.authorId,
+              },
+            },
+            tx
+          );
+        });
+      }
+    );
+  }
+
+  // Restores a comment the spam filter hid
+  static async approveComment(
+    moderatorId: string,
+    commentId: string,
+    reason?: string
+  ) {
+    return await this.execute(
+      "approve-comment",
+      { moderatorId, commentId },
+      async () => {
+        const comment = await CommentService.getCommentById(commentId);
+        const { community } = await this.getModeratedPost(
+          moderatorId,
+          comment.postId
+        );
+
+        return await prisma.$transaction(async (tx) => {
+          const { count } = await tx.comment.updateMany({
+            where: { id: comment.id, status: "spam" },
+            data: { status: "active" },
+          });
+
+          if (!count) {
+            throw new CommunityError(409, "Comment is not awaiting review");
+          }
+
+          return await this.logAction(
+            {
+              type: "approve_comment",
+              moderatorId,
+              targetId: comment.id,
+              targetType: "comment",
+              reason: reason ?? "",
+              communityId: community.id,
+              metadata: {
+                previousStatus: comment.status,
+                authorId: comment.authorId,
+                postId: comment.postId,
+              },
+            },
+            tx
+          );
+        });
+      }
+    );
+  }
+
+  static async removeComment(
+    moderatorId: string,
+    commentId: string,
+    reason: string
+  ) {
+    return await this.execute(
+      "remove-comment",
+      { moderatorId, commentId },
+      async () => {
+        const comment = await CommentService.getCommentById(commentId);
+        const { community } = await this.getModeratedPost(
+          moderatorId,
+          comment.postId
+        );
+
+        return await this.applyCommentRemoval(
+          moderatorId,
+          comment,
+          community.id,
+          reason
+        );
+      }
+    );
+  }
+
+  static async applyCommentRemoval(
+    moderatorId: string,
+    comment: Comment,
+    communityId: string,
+    reason: string,
+    metadata?: Record<string, unknown>
+  ) {
+    if (comment.status === "removed" || comment.status === "deleted") {
+      throw new CommunityError(409, "Comment was already removed");
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.comment.update({
+        where: { id: comment.id },
+        data: { status: "removed" },
+      });
+
+      return await this.logAction(
+        {
+          type: "remove_comment",
+          moderatorId,
+          targetId: comment.id,
+          targetType: "comment",
+          reason,
+          communityId,
+          metadata: {
+            ...metadata,
+            previousStatus: comment.status,
+            authorId: comment.authorId,
+            postId: comment.postId,
+          },
+        },
+        tx
+      );
+    });
+  }
+
+  static async lockPost(
+    moderatorId: string,
+    postId: string,
+    locked: boolean,
+    reason?: string
+  ) {
+    return await this.execute(
+      locked ? "lock-post" : "unlock-post",
+      { moderatorId, postId },
+      async () => {
+        const { post, community } = await this.getModeratedPost(
+          moderatorId,
+          postId
+        );
+
+        if (post.isLocked === locked) {
+          throw new CommunityError(
+            409,
+            `Post is already ${locked ? "locked" : "unlocked"}`
+          );
+        }
+
+        return await prisma.$transaction(async (tx) => {
+          await tx.post.update({
+            where: { id: post.id },
+            data: { isLocked: locked },
+          });
+
+          return await this.logAction(
+            {
+              type: locked ? "lock_post" : "unlock_post",
+              moderatorId,
+              targetId: post.id,
+              targetType: "post",
+              reason: reason ?? "",
+              communityId: community.id,
+            },
+            tx
+          );
+        });
+      }
+    );
+  }
+
+  static async pinPost(
+    moderatorId: string,
+    postId: string,
+    pinned: boolean,
+    reason?: string
+  ) {
+    return await this.execute(
+      pinned ? "pin-post" : "unpin-post",
+      { moderatorId, postId },
+      async () => {
+        const { post, community } = await this.getModeratedPost(
+          moderatorId,
+          postId
+        );
+
+        if (post.isPinned === pinned) {
+          throw new CommunityError(
+            409,
+            `Post is already ${pinned ? "pinned" : "unpinned"}`
+          );
+        }
+
+        if (pinned && post.status !== "active") {
+          throw new CommunityError(409, "Only active posts can be pinned");
+        }
+
+        return await prisma.$transaction(async (tx) => {
+          await tx.post.update({
+            where: { id: post.id },
+            data: { isPinned: pinned },
+          });
+
+          return await this.logAction(
+            {
+              type: pinned ? "pin_post" : "unpin_post",
+              moderatorId,
+              targetId: post.id,
+              targetType: "post",
+              reason: reason ?? "",
+              communityId: community.id,
+            },
+            tx
+          );
+        });
+      }
+    );
+  }
+
+  private static async assertCanSanction(
+    moderatorId: string,
+    community: Community,
+    userId: string
+  ) {
+    await CommunityService.assertCanModerate(
+      moderatorId,
+      community,
+      "canManageUsers"
+    );
+
+    if (userId === moderatorId) {
+      throw new CommunityError(400, "You cannot sanction yourself");
+    }
+
+    if (userId === community.creatorId) {
+      throw new CommunityError(
+        403,
+        "The community creator cannot be sanctioned"
+      );
+    }
+
+    const user = validation.isValidObjectId(userId)
+      ? await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true },
+        })
+      : null;
+
+    if (!user) {
+      throw new CommunityError(404, "User not found");
+    }
+  }
+
+  // A missing expiry makes the ban permanent
+  static async banUser(
+    moderatorId: string,
+    community: Community,
+    userId: string,
+    reason: string,
+    expiresAt?: Date | null
+  ) {
+    return await this.execute(
+      "ban",
+      { moderatorId, communityId: community.id, userId },
+      async () => {
+        await this.assertCanSanction(moderatorId, community, userId);
+
+        if (expiresAt && expiresAt <= new Date()) {
+          throw new CommunityError(400, "Ban expiry must be in the future");
+        }
+
+        return await prisma.$transaction(async (tx) => {
+          const existing = await tx.bannedUser.findUnique({
+            where: {
+              communityId_userId: { communityId: community.id, userId },
+            },
+          });
+
+          if (existing && !isExpired(existing.expiresAt)) {
+            throw new CommunityError(409, "User is already banned");
+          }
+
+          // An expired row the sweeper has not reached yet
+          if (existing) {
+            await tx.bannedUser.delete({ where: { id: existing.id } });
+          }
+
+          const ban = await tx.bannedUser.create({
+            data: {
+              communityId: community.id,
+              userId,
+              reason,
+              bannedBy: moderatorId,
+              expiresAt: expiresAt ?? null,
+            },
+          });
+
+          // Membership is what grants access to a private community
+          const membership = await tx.communityMember.findUnique({
+            where: {
+              communityId_userId: { communityId: community.id, userId },
+            },
+          });
+
+          if (membership) {
+            await tx.communityMember.delete({ where: { id: membership.id } });
+            await tx.community.update({
+              where: { id: community.id },
+              data: { memberCount: { decrement: 1 } },
+            });
+          }
+
+          const action = await this.logAction(
+            {
+              type: "ban",
+              moderatorId,
+              targetId: userId,
+              targetType: "user",
+              reason,
+              communityId: community.id,
+              metadata: {
+                banId: ban.id,
+                ...(membership && {
+                  membership: {
+                    role: membership.role,
+                    reputation: membership.reputation,
+                    joinedAt: membership.joinedAt.toISOString(),
+                    hasTokenAccess: membership.hasTokenAccess,
+                    tokenVerifiedAt:
+                      membership.tokenVerifiedAt?.toISOString() ?? null,
+                  },
+                }),
+              },
+              expiresAt: ban.expiresAt,
+            },
+            tx
+          );
+
+          return { ban, action };
+        });
+      }
+    );
+  }
+
+  static async muteUser(
+    moderatorId: string,
+    community: Community,
+    userId: string,
+    reason: string,
+    expiresAt: Date
+  ) {
+    return await this.execute(
+      "mute",
+      { moderatorId, communityId: community.id, userId },
+      async () => {
+        await this.assertCanSanction(moderatorId, community, userId);
+
+        if (expiresAt <= new Date()) {
+          throw new CommunityError(400, "Mute expiry must be in the future");
+        }
+
+        return await prisma.$transaction(async (tx) => {
+          const existing = await tx.mutedUser.findUnique({
+            where: {
+              communityId_userId: { communityId: community.id, userId },
+            },
+          });
+
+          if (existing && !isExpired(existing.expiresAt)) {
+            throw new CommunityError(409, "User is already muted");
+          }
+
+          // An expired row the sweeper has not reached yet
+          if (existing) {
+            await tx.mutedUser.delete({ where: { id: existing.id } });
+          }
+
+          const mute = await tx.mutedUser.create({
+            data: {
+              communityId: community.id,
+              userId,
+              reason,
+              mutedBy: moderatorId,
+              expiresAt,
+            },
+          });
+
+          const action = await this.logAction(
+            {
+              type: "mute",
+              moderatorId,
+              targetId: userId,
+              targetType: "user",
+              reason,
+              communityId: community.id,
+              metadata: { muteId: mute.id },
+              expiresAt,
+            },
+            tx
+          );
+
+          return { mute, action };
+        });
+      }
+    );
+  }
+
+  static async unbanUser(
+    moderatorId: string,
+    community: Community,
+    userId: string,
+    reason?: string
+  ) {
+    return await this.execute(
+      "unban",
+      { moderatorId, communityId: community.id, userId },
+      async () => {
+        await CommunityService.assertCanModerate(
+          moderatorId,
+          community,
+          "canManageUsers"
+        );
+
+        return await prisma.$transaction(async (tx) => {
+          const ban = await tx.bannedUser.findUnique({
+            where: {
+              communityId_userId: { communityId: community.id, userId },
+            },
+          });
+
+          if (!ban || isExpired(ban.expiresAt)) {
+            throw new CommunityError(404, "User is not banned");
+          }
+
+          await tx.bannedUser.delete({ where: { id: ban.id } });
+
+          return await this.logAction(
+            {
+              type: "unban",
+              moderatorId,
+              targetId: userId,
+              targetType: "user",
+              reason: reason ?? "",
+              communityId: community.id,
+              metadata: {
+                sanction: {
+                  reason: ban.reason,
+                  issuedBy: ban.bannedBy,
+                  expiresAt: ban.expiresAt?.toISOString() ?? null,
+                },
+              },
+            },
+            tx
+          );
+        });
+      }
+    );
+  }
+
+  static async unmuteUser(
+    moderatorId: string,
+    community: Community,
+    userId: string,
+    reason?: string
+  ) {
+    return await this.execute(
+      "unmute",
+      { moderatorId, communityId: community.id, userId },
+      async () => {
+        await CommunityService.assertCanModerate(
+          moderatorId,
+          community,
+          "canManageUsers"
+        );
+
+        return await prisma.$transaction(async (tx) => {
+          const mute = await tx.mutedUser.findUnique({
+            where: {
+              communityId_userId: { communityId: community.id, userId },
+            },
+          });
+
+          if (!mute || isExpired(mute.expiresAt)) {
+            throw new CommunityError(404, "User is not muted");
+          }
+
+          await tx.mutedUser.delete({ where: { id: mute.id } });
+
+          return await this.logAction(
+            {
+              type: "unmute",
+              moderatorId,
+              targetId: userId,
+              targetType: "user",
+              reason: reason ?? "",
+              communityId: community.id,
+              metadata: {
+                sanction: {
+                  reason: mute.reason,
+                  issuedBy: mute.mutedBy,
+                  expiresAt: mute.expiresAt.toISOString(),
+                },
+              },
+            },
+            tx
+          );
+        });
+      }
+    );
+  }
+
+  // Puts back whatever the action changed, refusing if the target moved on
+  private static async reverseEffect(
+    tx: ModerationTransaction,
+    type: ModerationActionType,
+    targetId: string,
+    communityId: string,
+    metadata: ModerationActionMetadata
+  ) {
+    switch (type) {
+      case "remove_post": {
+        const post = await tx.post.findUnique({ where: { id: targetId } });
+        if (!post || post.status !== "removed") {
+          throw new CommunityError(409, "Post is no longer removed");
+        }
+        const status = metadata.previousStatus ?? "active";
+        await tx.post.update({
+          where: { id: post.id },
+          data: { status },
+        });
+        if (status === "active") {
+          await tx.community.update({
+            where: { id: post.communityId },
+            data: { postCount: { increment: 1 } },
+          });
+        }
+        return;
+      }
+      case "approve_post": {
+        const { count } = await tx.post.updateMany({
+          where: { id: targetId, status: "active" },
+          data: { status: metadata.previousStatus ?? "pending" },
+        });
+        if (!count) {
+          throw new CommunityError(409, "Post is no longer active");
+        }
+        await tx.community.update({
+          where: { id: communityId },
+          data: { postCount: { decrement: 1 } },
+        });
+        return;
+      }
+      case "approve_comment": {
+        const { count } = await tx.comment.updateMany({
+          where: { id: targetId, status: "active" },
+          data: { status: metadata.previousStatus ?? "spam" },
+        });
+        if (!count) {
+          throw new CommunityError(409, "Comment is no longer active");
+        }
+        return;
+      }
+      case "remove_comment": {
+        const comment = await tx.comment.findUnique({
+          where: { id: targetId },
+        });
+        if (!comment || comment.status !== "removed") {
+          throw new CommunityError(409, "Comment is no longer removed");
+        }
+        await tx.comment.update({
+          where: { id: comment.id },
+          data: { status: metadata.previousStatus ?? "active" },
+        });
+        return;
+      }
+      case "ban": {
+        const { count } = await tx.bannedUser.deleteMany({
+          where: { id: metadata.banId },
+        });
+        if (!count) {
+          throw new CommunityError(409, "Ban is no longer in effect");
+        }
+
+        const membership = metadata.membership;
+        if (!membership) return;
+
+        const existing = await tx.communityMember.findUnique({
+          where: {
+            communityId_userId: { communityId, userId: targetId },
+          },
+        });
+        if (existing) return;
+
+        await tx.communityMember.create({
+          data: {
+            communityId,
+            userId: targetId,
+            role: membership.role,
+            reputation: membership.reputation,
+            joinedAt: new Date(membership.joinedAt),
+            hasTokenAccess: membership.hasTokenAccess,
+            tokenVerifiedAt: membership.tokenVerifiedAt
+              ? new Date(membership.tokenVerifiedAt)
+              : null,
+          },
+        });
+        await tx.community.update({
+          where: { id: communityId },
+          data: { memberCount: { increment: 1 } },
+        });
+        return;
+      }
+      case "mute": {
+        const { count } = await tx.mutedUser.deleteMany({
+          where: { id: metadata.muteId },
+        });
+        if (!count) {
+          throw new CommunityError(409, "Mute is no longer in effect");
+        }
+        return;
+      }
+      case "unban":
+      case "unmute": {
+        const sanction = metadata.sanction;
+        const expiresAt = sanction?.expiresAt
+          ? new Date(sanction.expiresAt)
+          : null;
+
+        if (!sanction || isExpired(expiresAt)) {
+          throw new CommunityError(409, "The lifted sanction has expired");
+        }
+
+        const where = {
+          communityId_userId: { communityId, userId: targetId },
+        };
+        const data = {
+          communityId,
+          userId: targetId,
+          reason: sanction.reason,
+        };
+
+        const existing =
+          type === "unban"
+            ? await tx.bannedUser.findUnique({ where })
+            : await tx.mutedUser.findUnique({ where });
+
+        if (existing) {
+          throw new CommunityError(409, "User has been sanctioned again");
+        }
+
+        if (type === "unban") {
+          await tx.bannedUser.create({
+            data: { ...data, bannedBy: sanction.issuedBy, expiresAt },
+          });
+        } else {
+          await tx.mutedUser.create({
+            data: {
+              ...data,
+              mutedBy: sanction.issuedBy,
+              expiresAt: expiresAt!,
+            },
+          });
+        }
+        return;
+      }
+      case "lock_post":
+      case "unlock_post": {
+        const locked = type === "lock_post";
+        const { count } = await tx.post.updateMany({
+          where: { id: targetId, isLocked: locked },
+          data: { isLocked: !locked },
+        });
+        if (!count) {
+          throw new CommunityError(
+            409,
+            `Post is no longer ${locked ? "locked" : "unlocked"}`
+          );
+        }
+        return;
+      }
+      case "pin_post":
+      case "unpin_post": {
+        const pinned = type === "pin_post";
+        const { count } = await tx.post.updateMany({
+          where: { id: targetId, isPinned: pinned },
+          data: { isPinned: !pinned },
+        });
+        if (!count) {
+          throw new CommunityError(
+            409,
+            `Post is no longer ${pinned ? "pinned" : "unpinned"}`
+          );
+        }
+        return;
+      }
+      default:
+        throw new CommunityError(400, "This action cannot be undone");
+    }
+  }
+
+  static async undoAction(moderatorId: string, actionId: string) {
+    return await this.execute("undo", { moderatorId, actionId }, async () => {
+      const action = validation.isValidObjectId(actionId)
+        ? await prisma.moderationAction.findUnique({ where: { id: actionId } })
+        : null;
+
+      if (!action) {
+        throw new CommunityError(404, "Moderation action not found");
+      }
+
+      await this.assertCanModerateCommunity(moderatorId, action.communityId);
+
+      const type = action.type as ModerationActionType;
+      if (!REVERSIBLE_ACTIONS.includes(type)) {
+        throw new CommunityError(400, "This action cannot be undone");
+      }
+
+      if (action.reversedAt) {
+        throw new CommunityError(409, "Action was already undone");
+      }
+
+      const community = await prisma.community.findUniqueOrThrow({
+        where: { id: action.communityId! },
+      });
+      await CommunityService.assertCanModerate(
+        moderatorId,
+        community,
+        SANCTION_ACTIONS.includes(type) ? "canManageUsers" : "canManagePosts"
+      );
+
+      return await prisma.$transaction(async (tx) => {
+        await this.reverseEffect(
+          tx,
+          type,
+          action.targetId,
+          action.communityId!,
+          (action.metadata ?? {}) as ModerationActionMetadata
+        );
+
+        // Guards against a concurrent undo of the same action
+        const { count } = await tx.moderationAction.updateMany({
+          where: { id: action.id, reversedAt: null },
+          data: { reversedAt: new Date(), reversedBy: moderatorId },
+        });
+
+        if (!count) {
+          throw new CommunityError(409, "Action was already undone");
+        }
+
+        return await tx.moderationAction.findUniqueOrThrow({
+          where: { id: action.id },
+        });
+      });
+    });
+  }
+
+  static async listActions(moderatorId: string, options: ModerationLogOptions) {
+    const where: Prisma.ModerationActionWhereInput = {
+      ...(await this.getScopeFilter(moderatorId, options.communitySlug)),
+      ...(options.type && { type: options.type }),
+      ...(options.targetId && { targetId: options.targetId }),
+    };
+
+    const [actions, total] = await Promise.all([
+      prisma.moderationAction.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.moderationAction.count({ where }),
+    ]);
+
+    return {
+      actions,
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { Post, Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { PostService } from "./postService";
+import { CreatePollInput, PollData } from "@/types/community/post";
+
+export class PollService {
+  // Normalizes the create payload into the stored PollData shape
+  static buildPollData(input: CreatePollInput): PollData {
+    const texts = input.options.map((option) => option.trim());
+
+    if (
+      new Set(texts.map((text) => text.toLowerCase())).size !== texts.length
+    ) {
+      throw new CommunityError(400, "Poll options must be unique");
+    }
+
+    let closesAt: string | null = null;
+    if (input.closesAt) {
+      const deadline = new Date(input.closesAt);
+      if (deadline.getTime() <= Date.now()) {
+        throw new CommunityError(400, "Poll deadline must be in the future");
+      }
+      closesAt = deadline.toISOString();
+    }
+
+    return {
+      options: texts.map((text, index) => ({ id: String(index), text })),
+      multipleChoice: !!input.multipleChoice,
+      closesAt,
+      hideResultsUntilClosed: !!input.hideResultsUntilClosed,
+    };
+  }
+
+  static isClosed(poll: PollData): boolean {
+    return !!poll.closesAt && new Date(poll.closesAt).getTime() <= Date.now();
+  }
+
+  private static getPollData(post: Post): PollData {
+    if (post.type !== "poll" || !post.pollData) {
+      throw new CommunityError(404, "Post has no poll");
+    }
+
+    return post.pollData as unknown as PollData;
+  }
+
+  static async getResults(viewerId: string, postId: string) {
+    const post = await PostService.getPostById(postId);
+    const poll = this.getPollData(post);
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: post.communityId },
+    });
+
+    await PostService.assertCanView(viewerId, community);
+
+    const ballots = await prisma.pollVote.findMany({
+      where: { postId: post.id },
+      select: { userId: true, optionIds: true },
+    });
+
+    const closed = this.isClosed(poll);
+    const ownBallot = ballots.find((ballot) => ballot.userId === viewerId);
+
+    // Authors and moderators can always watch the tallies come in
+    const canSeeResults =
+      !poll.hideResultsUntilClosed ||
+      closed ||
+      post.authorId === viewerId ||
+      (await CommunityService.isModerator(viewerId, community));
+
+    const tallies = new Map(poll.options.map((option) => [option.id, 0]));
+    for (const ballot of ballots) {
+      for (const optionId of ballot.optionIds) {
+        tallies.set(optionId, (tallies.get(optionId) ?? 0) + 1);
+      }
+    }
+
+    return {
+      postId: post.id,
+      multipleChoice: poll.multipleChoice,
+      closesAt: poll.closesAt,
+      isClosed: closed,
+      hideResultsUntilClosed: poll.hideResultsUntilClosed,
+      totalVoters: ballots.length,
+      userVote: ownBallot?.optionIds ?? null,
+      options: poll.options.map((option) => ({
+        ...option,
+        votes: canSeeResults ? tallies.get(option.id) ?? 0 : null,
+      })),
+    };
+  }
+
+  static async castVote(userId: string, postId: string, optionIds: string[]) {
+    const perf = createPerformanceTracker("cast-poll-vote");
+
+    try {
+      const post = await PostService.getPostById(postId);
+      const poll = this.getPollData(post);
+
+      if (post.status !== "active") {
+        throw new CommunityError(409, "This post is not accepting votes");
+      }
+
+      if (post.isLocked || this.isClosed(poll)) {
+        throw new CommunityError(409, "This poll is closed");
+      }
+
+      const community = await prisma.community.findUniqueOrThrow({
+        where: { id: post.communityId },
+      });
+      await PostService.assertCanPost(userId, community);
+
+      const selected = Array.from(new Set(optionIds));
+      const validIds = new Set(poll.options.map((option) => option.id));
+
+      if (selected.some((optionId) => !validIds.has(optionId))) {
+        throw new CommunityError(400, "Unknown poll option");
+      }
+
+      if (!poll.multipleChoice && selected.length > 1) {
+        throw new CommunityError(400, "This poll allows a single choice");
+      }
+
+      try {
+        await prisma.pollVote.create({
+          data: { postId: post.id, userId, optionIds: selected },
+        });
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          throw new CommunityError(409, "You have already voted in this poll");
+        }
+        throw error;
+      }
+
+      const duration = perf.end();
+      logger.info("Poll vote cast", {
+        postId,
+        userId,
+        optionCount: selected.length,
+        duration,
+      });
+
+      return await this.getResults(userId, postId);
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error casting poll vote:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        postId,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,446 @@
+import { Community, Post, Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { validation } from "@/utils/security";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError, sanitize } from "./communityService";
+import { CommunityMembershipService } from "./communityMembershipService";
+import { PollService } from "./pollService";
+import { sanctionService } from "./sanctionService";
+import { AutoModService } from "./autoModService";
+import { fingerprintContent, spamFilter } from "./spamFilterService";
+import {
+  CreatePostInput,
+  PostStatus,
+  UpdatePostInput,
+} from "@/types/community/post";
+
+export const postAuthorSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  name: true,
+  avatar: true,
+});
+
+// Statuses that only the author and community moderators may see
+export const HIDDEN_STATUSES: PostStatus[] = ["pending", "removed", "spam"];
+
+export class PostService {
+  static async getPostById(postId: string): Promise<Post> {
+    const post = validation.isValidObjectId(postId)
+      ? await prisma.post.findUnique({ where: { id: postId } })
+      : null;
+
+    if (!post || post.status === "deleted") {
+      throw new CommunityError(404, "Post not found");
+    }
+
+    return post;
+  }
+
+  // Members only; token gated communities also require a passing balance check
+  static async assertCanPost(userId: string, community: Community) {
+    if (community.isArchived) {
+      throw new CommunityError(409, "Archived communities are read-only");
+    }
+
+    await sanctionService.assertCanParticipate(userId, community.id);
+
+    const membership = await CommunityMembershipService.getMembership(
+      userId,
+      community.id
+    );
+
+    if (!membership) {
+      throw new CommunityError(403, "Join the community to participate");
+    }
+
+    if (community.tokenGated && !membership.hasTokenAccess) {
+      throw new CommunityError(
+        403,
+        "Your token balance no longer meets the community requirement"
+      );
+    }
+
+    return membership;
+  }
+
+  static async assertCanView(viewerId: string, community: Community) {
+    if (!community.isPrivate) return;
+
+    // Bans remove the membership; this also covers rows left by older bans
+    await sanctionService.assertNotBanned(viewerId, community.id);
+
+    if (
+      !(await CommunityMembershipService.getMembership(
+        viewerId,
+        community.id
+      )) &&
+      !(await CommunityService.isModerator(viewerId, community))
+    ) {
+      throw new CommunityError(403, "This community is private");
+    }
+  }
+
+  private static validateContent(input: CreatePostInput) {
+    switch (input.type) {
+      case "link":
+        if (!input.url) {
+          throw new CommunityError(400, "Link posts require a url");
+        }
+        break;
+      case "image":
+      case "video":
+        if (!input.mediaUrls?.length) {
+          throw new CommunityError(
+            400,
+            `${input.type} posts require at least one media url`
+          );
+        }
+        break;
+      case "poll":
+        if (!input.pollData) {
+          throw new CommunityError(400, "Poll posts require pollData");
+        }
+        break;
+    }
+  }
+
+  static async createPost(userId: string, input: CreatePostInput) {
+    const perf = createPerformanceTracker("create-post");
+
+    try {
+      const community = await CommunityService.getCommunityBySlug(
+        input.communitySlug
+      );
+
+      if (!community.allowedContentTypes.includes(input.type)) {
+        throw new CommunityError(
+          400,
+          `${input.type} posts are not allowed in this community`
+        );
+      }
+
+      this.validateContent(input);
+      await this.assertCanPost(userId, community);
+
+      const isModerator = await CommunityService.isModerator(userId, community);
+
+      if (!isModerator) {
+        await spamFilter.assertMinimumKarma(userId, community);
+      }
+
+      const spam = await spamFilter.check(
+        {
+          kind: "post",
+          authorId: userId,
+          communityId: community.id,
+          title: input.title,
+          content: input.content,
+        },
+        community.autoSpamFilter && !isModerator
+      );
+
+      const status: PostStatus = spam.isSpam
+        ? "spam"
+        : community.requirePostApproval && !isModerator
+        ? "pending"
+        : "active";
+
+      const post = await prisma.$transaction(async (tx) => {
+        const created = await tx.post.create({
+          data: {
+            title: sanitize(input.title) || input.title,
+            content: input.content,
+            type: input.type,
+            url: input.type === "link" ? input.url : undefined,
+            mediaUrls:
+              input.type === "image" || input.type === "video"
+                ? input.mediaUrls
+                : [],
+            pollData:
+              input.type === "poll" && input.pollData
+                ? (PollService.buildPollData(
+                    input.pollData
+                  ) as unknown as Prisma.InputJsonValue)
+                : undefined,
+            flair: sanitize(input.flair),
+            tags: input.tags ?? [],
+            isNSFW: community.isNSFW || !!input.isNSFW,
+            isSpoiler: !!input.isSpoiler,
+            status,
+            spamScore: spam.spamScore,
+            fingerprint: spam.fingerprint,
+            authorId: userId,
+            communityId: community.id,
+          },
+          include: { author: { select: postAuthorSelect } },
+        });
+
+        await tx.userAction.create({
+          data: {
+            userId,
+            type: "post_create",
+            targetId: created.id,
+            targetType: "post",
+            metadata: { communityId: community.id, status },
+          },
+        });
+
+        // Held posts are counted once a moderator approves them
+        if (status === "active") {
+          await tx.community.update({
+            where: { id: community.id },
+            data: { postCount: { increment: 1 } },
+          });
+        }
+
+        await tx.communityMember.update({
+          where: {
+            communityId_userId: { communityId: community.id, userId },
+          },
+          data: { lastActive: new Date() },
+        });
+
+        return created;
+      });
+
+      const { removed } = await AutoModService.runOnPost(post);
+      if (removed) post.status = "removed";
+
+      const duration = perf.end();
+      logger.info("Post created", {
+        postId: post.id,
+        communityId: community.id,
+        userId,
+        type: post.type,
+        status,
+        duration,
+      });
+
+      return post;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error creating post:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        communitySlug: input.communitySlug,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  static async getPost(viewerId: string, postId: string) {
+    const post = await this.getPostById(postId);
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: post.communityId },
+    });
+
+    await this.assertCanView(viewerId, community);
+
+    if (
+      HIDDEN_STATUSES.includes(post.status as PostStatus) &&
+      post.authorId !== viewerId &&
+      !(await CommunityService.isModerator(viewerId, community))
+    ) {
+      throw new CommunityError(404, "Post not found");
+    }
+
+    const viewed = await prisma.post.update({
+      where: { id: post.id },
+      data: { views: { increment: 1 } },
+      include: {
+        author: { select: postAuthorSelect },
+        community: {
+          select: { id: true, slug: true, name: true, icon: true },
+        },
+        _count: { select: { comments: true } },
+      },
+    });
+
+    return viewed;
+  }
+
+  static async updatePost(
+    userId: string,
+    postId: string,
+    input: UpdatePostInput
+  ) {
+    const perf = createPerformanceTracker("update-post");
+
+    try {
+      const post = await this.getPostById(postId);
+
+      if (post.authorId !== userId) {
+        throw new CommunityError(403, "Only the author can edit this post");
+      }
+
+      if (post.status === "removed" || post.status === "spam") {
+        throw new CommunityError(409, "Removed posts cannot be edited");
+      }
+
+      const community = await prisma.community.findUniqueOrThrow({
+        where: { id: post.communityId },
+      });
+      await sanctionService.assertCanParticipate(userId, community.id);
+
+      const newContent =
+        input.content !== post.content ? input.content : undefined;
+
+      // Edited text goes through the same checks as a new post. Light
+      // edits keep the fingerprint and would only match the post itself.
+      let spam: Awaited<ReturnType<typeof spamFilter.check>> | null = null;
+      if (
+        newContent !== undefined &&
+        fingerprintContent(
+          [post.title, newContent].filter(Boolean).join("\n")
+        ) !== post.fingerprint
+      ) {
+        const isModerator = await CommunityService.isModerator(
+          userId,
+          community
+        );
+        spam = await spamFilter.check(
+          {
+            kind: "post",
+            authorId: userId,
+            communityId: community.id,
+            title: post.title,
+            content: newContent,
+          },
+          community.autoSpamFilter && !isModerator
+        );
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const saved = await tx.post.update({
+          where: { id: post.id },
+          data: {
+            ...input,
+            flair: sanitize(input.flair),
+            isNSFW: community.isNSFW || input.isNSFW,
+            ...(spam && {
+              spamScore: spam.spamScore,
+              fingerprint: spam.fingerprint,
+              ...(spam.isSpam && { status: "spam" }),
+            }),
+          },
+          include: { author: { select: postAuthorSelect } },
+        });
+
+        // Only active posts are counted
+        if (spam?.isSpam && post.status === "active") {
+          await tx.community.update({
+            where: { id: post.communityId },
+            data: { postCount: { decrement: 1 } },
+          });
+        }
+
+        return saved;
+      });
+
+      if (newContent !== undefined) {
+        const { removed } = await AutoModService.runOnPost(updated);
+        if (removed) updated.status = "removed";
+      }
+
+      const duration = perf.end();
+      logger.info("Post updated", {
+        postId,
+        userId,
+        updatedFields: Object.keys(input),
+        duration,
+      });
+
+      return updated;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error updating post:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        postId,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  // Authors delete their own posts; the record is kept for threads and reports
+  static async deletePost(userId: string, postId: string) {
+    const perf = createPerformanceTracker("delete-post");
+
+    try {
+      const post = await this.getPostById(postId);
+
+      if (post.authorId !== userId) {
+        throw new CommunityError(403, "Only the author can delete this post");
+      }
+
+      await prisma.$transaction(async (tx) => {
+        // Guards the count below against a concurrent delete or removal
+        const { count } = await tx.post.updateMany({
+          where: { id: post.id, status: post.status },
+          data: {
+            status: "deleted",
+            content: "",
+            url: null,
+            mediaUrls: [],
+          },
+        });
+
+        if (!count) {
+          throw new CommunityError(409, "Post was changed, please try again");
+        }
+
+        // Only active posts are counted; removal already took it out
+        if (post.status === "active") {
+          await tx.community.update({
+            where: { id: post.communityId },
+            data: { postCount: { decrement: 1 } },
+          });
+        }
+      });
+
+      const duration = perf.end();
+      logger.info("Post deleted", {
+        postId,
+        communityId: post.communityId,
+        userId,
+        duration,
+      });
+
+      return { success: true };
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error deleting post:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        postId,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { Prisma, Report } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { validation } from "@/utils/security";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { PostService } from "./postService";
+import { CommentService } from "./commentService";
+import { ModerationService } from "./moderationService";
+import {
+  CreateReportInput,
+  ReportQueueOptions,
+  ReportType,
+} from "@/types/community/moderation";
+
+// Report column holding the reported entity for each report type
+const TARGET_FIELD = {
+  post: "postId",
+  comment: "commentId",
+  community: "targetCommunityId",
+  user: "targetUserId",
+} as const satisfies Record<ReportType, keyof Report>;
+
+type TargetField = (typeof TARGET_FIELD)[ReportType];
+
+const reportInclude = Prisma.validator<Prisma.ReportInclude>()({
+  reporter: { select: { id: true, username: true } },
+  post: { select: { id: true, title: true, status: true, authorId: true } },
+  comment: {
+    select: { id: true, content: true, status: true, authorId: true },
+  },
+  community: { select: { id: true, slug: true, name: true } },
+});
+
+const targetWhere = (type: ReportType, targetId: string) =>
+  ({ type, [TARGET_FIELD[type]]: targetId } as Prisma.ReportWhereInput);
+
+const getTargetId = (
+  report: Pick<Report, "type"> & Partial<Record<TargetField, string | null>>
+) => report[TARGET_FIELD[report.type as ReportType]] as string;
+
+export class ReportService {
+  // Resolves the report target and the community whose moderators handle it
+  private static async resolveTarget(
+    reporterId: string,
+    input: CreateReportInput
+  ): Promise<Prisma.ReportUncheckedCreateInput> {
+    const base = {
+      type: input.type,
+      reason: input.reason,
+      details: input.details,
+      reporterId,
+    };
+
+    switch (input.type) {
+      case "post": {
+        const post = await PostService.getPostById(input.targetId);
+        return { ...base, postId: post.id, communityId: post.communityId };
+      }
+      case "comment": {
+        const comment = await CommentService.getCommentById(input.targetId);
+        const post = await PostService.getPostById(comment.postId);
+        return {
+          ...base,
+          commentId: comment.id,
+          postId: post.id,
+          communityId: post.communityId,
+        };
+      }
+      case "community": {
+        const community = validation.isValidObjectId(input.targetId)
+          ? await prisma.community.findUnique({
+              where: { id: input.targetId },
+              select: { id: true },
+            })
+          : null;
+        if (!community) {
+          throw new CommunityError(404, "Community not found");
+        }
+        // No communityId: the community's own moderators must not review it
+        return { ...base, targetCommunityId: community.id };
+      }
+      case "user": {
+        if (input.targetId === reporterId) {
+          throw new CommunityError(400, "You cannot report yourself");
+        }
+        const user = validation.isValidObjectId(input.targetId)
+          ? await prisma.user.findUnique({
+              where: { id: input.targetId },
+              select: { id: true },
+            })
+          : null;
+        if (!user) {
+          throw new CommunityError(404, "User not found");
+        }
+        const community = input.communitySlug
+          ? await CommunityService.getCommunityBySlug(input.communitySlug)
+          : undefined;
+        return { ...base, targetUserId: user.id, communityId: community?.id };
+      }
+    }
+  }
+
+  static async submitReport(reporterId: string, input: CreateReportInput) {
+    const perf = createPerformanceTracker("submit-report");
+
+    try {
+      const data = await this.resolveTarget(reporterId, input);
+
+      // One open report per reporter and target
+      const existing = await prisma.report.findFirst({
+        where: {
+          ...targetWhere(input.type, getTargetId(data)),
+          reporterId,
+          status: "pending",
+        },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new CommunityError(409, "You have already reported this");
+      }
+
+      const report = await prisma.report.create({ data });
+
+      const duration = perf.end();
+      logger.info("Report submitted", {
+        reportId: report.id,
+        type: report.type,
+        communityId: report.communityId,
+        reporterId,
+        duration,
+      });
+
+      return report;
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error submitting report:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        type: input.type,
+        targetId: input.targetId,
+        reporterId,
+        duration,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Moderators see reports for the communities they cover; site staff also
+   * see reports that are not tied to any community.
+   */
+  static async getQueue(moderatorId: string, options: ReportQueueOptions) {
+    const where: Prisma.ReportWhereInput = {
+      ...(await ModerationService.getScopeFilter(
+        moderatorId,
+        options.communitySlug
+      )),
+      status: options.status,
+    };
+
+    const [reports, total] = await Promise.all([
+      prisma.report.findMany({
+        where,
+        include: reportInclude,
+        orderBy: { createdAt: "asc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.report.count({ where }),
+    ]);
+
+    return {
+      reports,
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  // Closes every open report on the same target in one decision
+  static async reviewReport(
+    moderatorId: string,
+    reportId: string,
+    decision: "resolved" | "rejected",
+    resolution: string
+  ) {
+    const perf = createPerformanceTracker("review-report");
+
+    try {
+      const report = validation.isValidObjectId(reportId)
+        ? await prisma.report.findUnique({ where: { id: reportId } })
+        : null;
+
+      if (!report) {
+        throw new CommunityError(404, "Report not found");
+      }
+
+      if (report.status !== "pending") {
+        throw new CommunityError(409, "Report was already reviewed");
+      }
+
+      await ModerationService.assertCanModerateCommunity(
+        moderatorId,
+        report.communityId
+      );
+
+      const type = report.type as ReportType;
+      const targetId = getTargetId(report);
+
+      const { count, action } = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.report.updateMany({
+          where: { ...targetWhere(type, targetId), status: "pending" },
+          data: {
+            status: decision,
+            resolution,
+            resolvedBy: moderatorId,
+            resolvedAt: new Date(),
+          },
+        });
+
+        const action = await ModerationService.logAction(
+          {
+            type:
+              decision === "resolved" ? "report_resolved" : "report_rejected",
+            moderatorId,
+            targetId,
+            targetType: type,
+            reason: resolution,
+            communityId: report.communityId,
+            metadata: { reportId: report.id, reportsClosed: count },
+          },
+          tx
+        );
+
+        return { count, action };
+      });
+
+      const duration = perf.end();
+      logger.info("Report reviewed", {
+        reportId,
+        decision,
+        reportsClosed: count,
+        moderatorId,
+        duration,
+      });
+
+      return {
+        report: await prisma.report.findUniqueOrThrow({
+          where: { id: report.id },
+          include: reportInclude,
+        }),
+        reportsClosed: count,
+        moderationActionId: action.id,
+      };
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error reviewing report:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        reportId,
+        moderatorId,
+        duration,
+      });
+      throw error;
+    }
+  }
+}
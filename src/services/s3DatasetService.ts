@@ -2,6 +2,7 @@ import {
   S3Client,
   PutObjectCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   ListObjectsV2Command,
   DeleteObjectCommand,
 } from "@aws-sdk/client-s3";
@@ -317,6 +318,66 @@ export class S3DatasetService {
     return url;
   }
 
+  // Streams the object, or only the inclusive byte range when one is given
+  async getObjectStream(
+    storageKey: string,
+    range?: { start: number; end?: number }
+  ): Promise<Readable> {
+    return this.withRetry(async () => {
+      const command = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: storageKey,
+        Range: range ? `bytes=${range.start}-${range.end ?? ""}` : undefined,
+      });
+
+      const response = await this.s3Client.send(command);
+      return response.Body as Readable;
+    }, "Get object stream");
+  }
+
+  async getObjectRange(
+    storageKey: string,
+    start: number,
+    end: number
+  ): Promise<Buffer> {
+    const stream = await this.getObjectStream(storageKey, { start, end });
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  // Decodes the object (or inclusive byte range) as UTF-8 text chunks.
+  // Breaking out of the loop stops the download.
+  async *streamText(
+    storageKey: string,
+    range?: { start: number; end?: number }
+  ): AsyncGenerator<string> {
+    const stream = await this.getObjectStream(storageKey, range);
+    const decoder = new TextDecoder();
+
+    try {
+      for await (const chunk of stream) {
+        yield decoder.decode(chunk, { stream: true });
+      }
+      yield decoder.decode();
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  async getObjectSize(storageKey: string): Promise<number> {
+    return this.withRetry(async () => {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: storageKey })
+      );
+      return response.ContentLength ?? 0;
+    }, "Head object");
+  }
+
   async listDatasetFiles(
     userId: string,
     datasetName: string,
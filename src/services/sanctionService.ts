@@ -0,0 +1,255 @@
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { NotificationType, SourceType } from "./userNotificationService";
+import { notificationService } from "@/types/notifications/notificaitons";
+import {
+  SanctionKind,
+  SanctionListOptions,
+} from "@/types/community/moderation";
+
+const SWEEP_INTERVAL_MS =
+  Number(process.env.SANCTION_SWEEP_INTERVAL_MS) || 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+const sanctionUserSelect = {
+  id: true,
+  username: true,
+  name: true,
+  avatar: true,
+} as const;
+
+// The sweeper runs on an interval, so expiry is also checked on read.
+// Mutes always carry an expiry and only need the second branch.
+const activeWhere = () => ({
+  OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+export class SanctionService {
+  private sweeper?: ReturnType<typeof setInterval>;
+  private sweeping = false;
+
+  async getActiveBan(userId: string, communityId: string) {
+    return await prisma.bannedUser.findFirst({
+      where: { userId, communityId, ...activeWhere() },
+    });
+  }
+
+  async getActiveMute(userId: string, communityId: string) {
+    return await prisma.mutedUser.findFirst({
+      where: { userId, communityId, expiresAt: { gt: new Date() } },
+    });
+  }
+
+  async assertNotBanned(userId: string, communityId: string) {
+    const ban = await this.getActiveBan(userId, communityId);
+
+    if (ban) {
+      throw new CommunityError(
+        403,
+        ban.expiresAt
+          ? `You are banned from this community until ${ban.expiresAt.toISOString()}`
+          : "You are banned from this community"
+      );
+    }
+  }
+
+  // Posting, commenting and messaging are closed to banned and muted users
+  async assertCanParticipate(userId: string, communityId: string) {
+    await this.assertNotBanned(userId, communityId);
+
+    const mute = await this.getActiveMute(userId, communityId);
+
+    if (mute) {
+      throw new CommunityError(
+        403,
+        `You are muted in this community until ${mute.expiresAt.toISOString()}`
+      );
+    }
+  }
+
+  async listSanctions(
+    moderatorId: string,
+    slug: string,
+    kind: SanctionKind,
+    options: SanctionListOptions
+  ) {
+    const community = await CommunityService.getCommunityBySlug(slug);
+    await CommunityService.assertCanModerate(
+      moderatorId,
+      community,
+      "canManageUsers"
+    );
+
+    const page = {
+      include: { user: { select: sanctionUserSelect } },
+      take: options.limit,
+      skip: (options.page - 1) * options.limit,
+    };
+
+    const [items, total] =
+      kind === "ban"
+        ? await Promise.all([
+            prisma.bannedUser.findMany({
+              where: { communityId: community.id, ...activeWhere() },
+              orderBy: { bannedAt: "desc" },
+              ...page,
+            }),
+            prisma.bannedUser.count({
+              where: { communityId: community.id, ...activeWhere() },
+            }),
+          ])
+        : await Promise.all([
+            prisma.mutedUser.findMany({
+              where: {
+                communityId: community.id,
+                expiresAt: { gt: new Date() },
+              },
+              orderBy: { mutedAt: "desc" },
+              ...page,
+            }),
+            prisma.mutedUser.count({
+              where: {
+                communityId: community.id,
+                expiresAt: { gt: new Date() },
+              },
+            }),
+          ]);
+
+    return {
+      items,
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  private async notifyLifted(
+    kind: SanctionKind,
+    userId: string,
+    community: { id: string; name: string; slug: string }
+  ) {
+    try {
+      await notificationService.createNotification(
+        userId,
+        NotificationType.COMMUNITY_UPDATE,
+        kind === "ban" ? "Community ban lifted" : "Community mute lifted",
+        kind === "ban"
+          ? `Your ban from ${community.name} has expired`
+          : `Your mute in ${community.name} has expired`,
+        SourceType.COMMUNITY,
+        community.id,
+        { slug: community.slug, sanction: kind }
+      );
+    } catch (error) {
+      logger.warn("Failed to notify user of lifted sanction", {
+        kind,
+        userId,
+        communityId: community.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private async liftExpired(kind: SanctionKind, now: Date) {
+    let lifted = 0;
+
+    while (true) {
+      const query = {
+        where: { expiresAt: { lte: now } },
+        include: {
+          community: { select: { id: true, name: true, slug: true } },
+        },
+        take: SWEEP_BATCH_SIZE,
+      };
+
+      const expired =
+        kind === "ban"
+          ? await prisma.bannedUser.findMany(query)
+          : await prisma.mutedUser.findMany(query);
+
+      if (!expired.length) break;
+
+      for (const sanction of expired) {
+        // Deleting by id leaves a replacement sanction untouched
+        const { count } =
+          kind === "ban"
+            ? await prisma.bannedUser.deleteMany({
+                where: { id: sanction.id },
+              })
+            : await prisma.mutedUser.deleteMany({
+                where: { id: sanction.id },
+              });
+
+        if (!count) continue;
+        lifted++;
+
+        logger.info("Expired sanction lifted", {
+          kind,
+          userId: sanction.userId,
+          communityId: sanction.communityId,
+          expiresAt: sanction.expiresAt,
+        });
+
+        await this.notifyLifted(kind, sanction.userId, sanction.community);
+      }
+
+      if (expired.length < SWEEP_BATCH_SIZE) break;
+    }
+
+    return lifted;
+  }
+
+  async sweepExpired() {
+    if (this.sweeping) return;
+    this.sweeping = true;
+    const perf = createPerformanceTracker("sanction-sweep");
+
+    try {
+      const now = new Date();
+      const bans = await this.liftExpired("ban", now);
+      const mutes = await this.liftExpired("mute", now);
+
+      const duration = perf.end();
+      if (bans || mutes) {
+        logger.info("Sanction sweep completed", { bans, mutes, duration });
+      }
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error sweeping expired sanctions:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        duration,
+      });
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  startSweeper(intervalMs = SWEEP_INTERVAL_MS) {
+    this.stopSweeper();
+    this.sweeper = setInterval(() => this.sweepExpired(), intervalMs);
+
+    logger.info("Sanction expiry sweeper scheduled", { intervalMs });
+  }
+
+  stopSweeper() {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+}
+
+export const sanctionService = new SanctionService();
@@ -0,0 +1,211 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { csvEscape } from "@/utils/csvParser";
+import { CommunityError } from "./communityService";
+import { PostService } from "./postService";
+import { feedPostInclude } from "./feedService";
+import {
+  ContentPreferenceService,
+  SIGNAL_STRENGTH,
+} from "./contentPreferenceService";
+import {
+  SavedPostExportFormat,
+  SavedPostListOptions,
+} from "@/types/community/savedPost";
+
+const normalizeCategory = (category?: string | null) =>
+  category?.trim() || null;
+
+export class SavedPostService {
+  // Saving an already saved post just moves it to the given category
+  static async savePost(userId: string, postId: string, category?: string) {
+    const post = await PostService.getPostById(postId);
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: post.communityId },
+    });
+    await PostService.assertCanView(userId, community);
+
+    const existing = await prisma.savedPost.findUnique({
+      where: { userId_postId: { userId, postId: post.id } },
+      select: { id: true },
+    });
+
+    const saved = await prisma.savedPost.upsert({
+      where: { userId_postId: { userId, postId: post.id } },
+      create: {
+        userId,
+        postId: post.id,
+        category: normalizeCategory(category),
+      },
+      update: { category: normalizeCategory(category) },
+    });
+
+    if (!existing) {
+      await ContentPreferenceService.recordSignal(
+        userId,
+        post.id,
+        SIGNAL_STRENGTH.save
+      );
+    }
+
+    logger.info("Post saved", { userId, postId, category: saved.category });
+
+    return saved;
+  }
+
+  static async unsavePost(userId: string, postId: string) {
+    const { count } = await prisma.savedPost.deleteMany({
+      where: { userId, postId },
+    });
+
+    if (!count) {
+      throw new CommunityError(404, "Post is not saved");
+    }
+
+    return { success: true };
+  }
+
+  static async listSaved(userId: string, options: SavedPostListOptions) {
+    const where: Prisma.SavedPostWhereInput = {
+      userId,
+      ...(options.category !== undefined && {
+        category: normalizeCategory(options.category),
+      }),
+    };
+
+    const [saved, total] = await Promise.all([
+      prisma.savedPost.findMany({
+        where,
+        include: { post: { include: feedPostInclude } },
+        orderBy: { createdAt: "desc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.savedPost.count({ where }),
+    ]);
+
+    return {
+      saved: saved.map(({ post, ...entry }) => ({
+        ...entry,
+        // Keep the bookmark but drop content that is no longer public
+        post:
+          post.status === "active"
+            ? post
+            : { id: post.id, status: post.status },
+      })),
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  static async listCategories(userId: string) {
+    const groups = await prisma.savedPost.groupBy({
+      by: ["category"],
+      where: { userId },
+      _count: { _all: true },
+    });
+
+    return groups
+      .map((group) => ({ name: group.category, count: group._count._all }))
+      .sort((a, b) => (a.name ?? "").localeCompare(b.name ?? ""));
+  }
+
+  // Renaming onto an existing category merges the two
+  static async renameCategory(userId: string, from: string, to: string) {
+    return await this.mergeCategories(userId, [from], to);
+  }
+
+  static async mergeCategories(
+    userId: string,
+    sources: string[],
+    target: string
+  ) {
+    const targetName = normalizeCategory(target);
+    const sourceNames = sources
+      .map((source) => normalizeCategory(source))
+      .filter((name): name is string => !!name && name !== targetName);
+
+    if (!sourceNames.length) {
+      throw new CommunityError(400, "Nothing to merge");
+    }
+
+    const { count } = await prisma.savedPost.updateMany({
+      where: { userId, category: { in: sourceNames } },
+      data: { category: targetName },
+    });
+
+    if (!count) {
+      throw new CommunityError(404, "Category not found");
+    }
+
+    logger.info("Saved post categories merged", {
+      userId,
+      sources: sourceNames,
+      target: targetName,
+      moved: count,
+    });
+
+    return { category: targetName, moved: count };
+  }
+
+  static async exportSaved(userId: string, format: SavedPostExportFormat) {
+    const saved = await prisma.savedPost.findMany({
+      where: { userId },
+      include: {
+        post: {
+          select: {
+            id: true,
+            title: true,
+            type: true,
+            url: true,
+            status: true,
+            createdAt: true,
+            community: { select: { slug: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const rows = saved.map((entry) => ({
+      postId: entry.post.id,
+      title: entry.post.status === "active" ? entry.post.title : null,
+      type: entry.post.type,
+      url: entry.post.status === "active" ? entry.post.url : null,
+      community: entry.post.community.slug,
+      category: entry.category,
+      status: entry.post.status,
+      postedAt: entry.post.createdAt.toISOString(),
+      savedAt: entry.createdAt.toISOString(),
+    }));
+
+    if (format === "json") {
+      return JSON.stringify(rows, null, 2);
+    }
+
+    const columns = [
+      "postId",
+      "title",
+      "type",
+      "url",
+      "community",
+      "category",
+      "status",
+      "postedAt",
+      "savedAt",
+    ] as const;
+
+    return [
+      columns.join(","),
+      ...rows.map((row) =>
+        columns.map((column) => csvEscape(row[column])).join(",")
+      ),
+    ].join("\n");
+  }
+}
@@ -0,0 +1,687 @@
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { validation } from "@/utils/security";
+import { createPerformanceTracker } from "@/index";
+import { CommunityService, CommunityError } from "./communityService";
+import { FeedService } from "./feedService";
+import { postAuthorSelect } from "./postService";
+import {
+  AutocompleteSuggestion,
+  SEARCH_TYPES,
+  SearchField,
+  SearchHistoryOptions,
+  SearchOptions,
+  SearchResult,
+  SearchType,
+} from "@/types/search/search";
+
+// Matches per type are ranked in memory, so each type reads a bounded set
+const CANDIDATE_LIMIT = 100;
+const MAX_TERMS = 8;
+const EXCERPT_LENGTH = 200;
+// How far back queries count towards popular autocomplete suggestions
+const POPULAR_QUERY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+// A query is only suggested to others once this many users have searched it,
+// so one person's searches never show up in someone else's suggestions
+const POPULAR_QUERY_MIN_USERS = 5;
+// Query/user pairs read when ranking popular queries
+const POPULAR_QUERY_SCAN_LIMIT = 1000;
+
+// Points per query term, by how well it matches a word in the field
+const EXACT_WORD_POINTS = 3;
+const PREFIX_POINTS = 2;
+const SUBSTRING_POINTS = 1;
+const PHRASE_BONUS = 4;
+const EXACT_FIELD_BONUS = 6;
+// Popularity only nudges ties; relevance dominates
+const POPULARITY_WEIGHT = 0.1;
+
+// Filters other than the date range only apply to some types; types that
+// cannot honor an active filter are left out of the results
+const COMMUNITY_FILTER_TYPES: SearchType[] = ["posts"];
+const TAG_FILTER_TYPES: SearchType[] = ["posts", "datasets"];
+
+export const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * Relevance of a document to the query terms. Terms also match as word
+ * prefixes, so partially typed words still find results.
+ */
+export const scoreFields = (terms: string[], fields: SearchField[]) => {
+  const phrase = terms.join(" ");
+  const matched = new Set<string>();
+  let score = 0;
+
+  for (const field of fields) {
+    if (!field.value) continue;
+
+    const text = field.value.toLowerCase();
+    const words = tokenize(text);
+    let points = 0;
+
+    for (const term of terms) {
+      if (words.includes(term)) {
+        points += EXACT_WORD_POINTS;
+      } else if (words.some((word) => word.startsWith(term))) {
+        points += PREFIX_POINTS;
+      } else if (text.includes(term)) {
+        points += SUBSTRING_POINTS;
+      } else {
+        continue;
+      }
+      matched.add(term);
+    }
+
+    if (terms.length > 1 && words.join(" ").includes(phrase)) {
+      points += PHRASE_BONUS;
+    }
+    if (words.join(" ") === phrase) {
+      points += EXACT_FIELD_BONUS;
+    }
+
+    score += points * field.weight;
+  }
+
+  // Documents matching every term outrank those matching a few heavily
+  return score * (matched.size / terms.length);
+};
+
+const withPopularity = (relevance: number, popularity: number) =>
+  relevance * (1 + POPULARITY_WEIGHT * Math.log10(1 + Math.max(popularity, 0)));
+
+// Case-insensitive match of any term in any of the fields
+const anyTermMatches = (terms: string[], fields: string[]) =>
+  terms.flatMap((term) =>
+    fields.map((field) => ({
+      [field]: { contains: term, mode: "insensitive" as const },
+    }))
+  );
+
+const dateRange = (options: SearchOptions) =>
+  options.from || options.to
+    ? {
+        createdAt: {
+          ...(options.from && { gte: options.from }),
+          ...(options.to && { lte: options.to }),
+        },
+      }
+    : {};
+
+interface SearchContext {
+  viewerId: string;
+  walletAddress: string;
+  memberOf: Set<string>;
+  hiddenUserIds: string[];
+  terms: string[];
+  communityId?: string;
+}
+
+export class SearchService {
+  static parseTypes(type?: string): SearchType[] {
+    if (!type) return [...SEARCH_TYPES];
+
+    const types = type
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const unknown = types.filter(
+      (value) => !SEARCH_TYPES.includes(value as SearchType)
+    );
+
+    if (unknown.length || !types.length) {
+      throw new CommunityError(
+        400,
+        `Unknown search type: ${unknown.join(", ") || type}`
+      );
+    }
+
+    return [...new Set(types)] as SearchType[];
+  }
+
+  static async search(viewerId: string, options: SearchOptions) {
+    const perf = createPerformanceTracker("search");
+    const terms = [...new Set(tokenize(options.query))].slice(0, MAX_TERMS);
+
+    if (!terms.length) {
+      throw new CommunityError(400, "Search query has no searchable terms");
+    }
+
+    if (options.from && options.to && options.from > options.to) {
+      throw new CommunityError(400, "`from` must be before `to`");
+    }
+
+    const types = options.types.filter(
+      (type) =>
+        (!options.communitySlug || COMMUNITY_FILTER_TYPES.includes(type)) &&
+        (!options.tags?.length || TAG_FILTER_TYPES.includes(type))
+    );
+
+    const [viewer, memberships, hiddenUserIds, community] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: viewerId },
+        select: { walletAddress: true },
+      }),
+      prisma.communityMember.findMany({
+        where: { userId: viewerId },
+        select: { communityId: true },
+      }),
+      FeedService.getHiddenAuthorIds(viewerId),
+      options.communitySlug
+        ? CommunityService.getCommunityBySlug(options.communitySlug)
+        : undefined,
+    ]);
+
+    const context: SearchContext = {
+      viewerId,
+      walletAddress: viewer.walletAddress,
+      memberOf: new Set(memberships.map((m) => m.communityId)),
+      hiddenUserIds,
+      terms,
+      communityId: community?.id,
+    };
+
+    const searchers: Record<
+      SearchType,
+      (
+        context: SearchContext,
+        options: SearchOptions
+      ) => Promise<SearchResult[]>
+    > = {
+      users: this.searchUsers,
+      communities: this.searchCommunities,
+      posts: this.searchPosts,
+      datasets: this.searchDatasets,
+      organizations: this.searchOrganizations,
+    };
+
+    const results = (
+      await Promise.all(
+        types.map((type) => searchers[type].call(this, context, options))
+      )
+    )
+      .flat()
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const total = results.length;
+    const page = results.slice(
+      (options.page - 1) * options.limit,
+      options.page * options.limit
+    );
+
+    await this.recordQuery(viewerId, options, total);
+
+    logger.info("Search served", {
+      userId: viewerId,
+      types,
+      terms: terms.length,
+      total,
+      duration: perf.end(),
+    });
+
+    return {
+      results: page.map((result) => ({
+        ...result,
+        score: Number(result.score.toFixed(4)),
+      })),
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  // History is best effort; a failed write never fails the search
+  private static async recordQuery(
+    userId: string,
+    options: SearchOptions,
+    resultCount: number
+  ) {
+    try {
+      await prisma.searchHistory.create({
+        data: {
+          userId,
+          query: options.query.trim(),
+          type:
+            options.types.length === SEARCH_TYPES.length
+              ? null
+              : options.types.join(","),
+          resultCount,
+        },
+      });
+    } catch (error) {
+      logger.warn("Failed to record search history", {
+        userId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  static async listHistory(userId: string, options: SearchHistoryOptions) {
+    const where = { userId };
+
+    const [history, total] = await Promise.all([
+      prisma.searchHistory.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: options.limit,
+        skip: (options.page - 1) * options.limit,
+      }),
+      prisma.searchHistory.count({ where }),
+    ]);
+
+    return {
+      history,
+      pagination: {
+        total,
+        page: options.page,
+        limit: options.limit,
+        totalPages: Math.ceil(total / options.limit),
+        hasMore: options.page * options.limit < total,
+      },
+    };
+  }
+
+  static async deleteHistoryEntry(userId: string, entryId: string) {
+    const { count } = validation.isValidObjectId(entryId)
+      ? await prisma.searchHistory.deleteMany({
+          where: { id: entryId, userId },
+        })
+      : { count: 0 };
+
+    if (!count) {
+      throw new CommunityError(404, "Search history entry not found");
+    }
+
+    return { success: true };
+  }
+
+  static async clearHistory(userId: string) {
+    const { count } = await prisma.searchHistory.deleteMany({
+      where: { userId },
+    });
+
+    logger.info("Search history cleared", { userId, deleted: count });
+
+    return { deleted: count };
+  }
+
+  /**
+   * Completions for a partial query, in order: the user's own recent
+   * searches, queries popular with everyone lately, then names of users,
+   * communities and datasets starting with the prefix.
+   */
+  static async autocomplete(
+    userId: string,
+    prefix: string,
+    limit: number
+  ): Promise<AutocompleteSuggestion[]> {
+    const text = prefix.trim();
+    if (!text) return [];
+
+    const startsWith = { startsWith: text, mode: "insensitive" as const };
+
+    const [viewer, memberships, hiddenUserIds] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { walletAddress: true },
+      }),
+      prisma.communityMember.findMany({
+        where: { userId },
+        select: { communityId: true },
+      }),
+      FeedService.getHiddenAuthorIds(userId),
+    ]);
+
+    const [history, popular, users, communities, datasets] = await Promise.all([
+      prisma.searchHistory.findMany({
+        where: { userId, query: startsWith },
+        select: { query: true },
+        orderBy: { createdAt: "desc" },
+        take: limit * 3,
+      }),
+      prisma.searchHistory.groupBy({
+        by: ["query", "userId"],
+        where: {
+          query: startsWith,
+          resultCount: { gt: 0 },
+          createdAt: {
+            gte: new Date(Date.now() - POPULAR_QUERY_WINDOW_MS),
+          },
+        },
+        orderBy: { _max: { createdAt: "desc" } },
+        take: POPULAR_QUERY_SCAN_LIMIT,
+      }),
+      prisma.user.findMany({
+        where: {
+          status: "active",
+          id: { notIn: hiddenUserIds },
+          username: startsWith,
+        },
+        select: { id: true, username: true },
+        orderBy: { reputation: "desc" },
+        take: limit,
+      }),
+      prisma.community.findMany({
+        where: {
+          isArchived: false,
+          slug: startsWith,
+          OR: [
+            { isPrivate: false },
+            { id: { in: memberships.map((m) => m.communityId) } },
+          ],
+        },
+        select: { id: true, slug: true },
+        orderBy: { memberCount: "desc" },
+        take: limit,
+      }),
+      prisma.dataset.findMany({
+        where: {
+          title: startsWith,
+          OR: [
+            { accessibility: "PUBLIC" },
+            { userWalletAddress: viewer.walletAddress },
+          ],
+        },
+        select: { id: true, title: true },
+        orderBy: { downloads: "desc" },
+        take: limit,
+      }),
+    ]);
+
+    const candidates: AutocompleteSuggestion[] = [
+      ...history.map((entry) => ({
+        text: entry.query,
+        source: "history" as const,
+      })),
+      ...this.rankPopularQueries(popular)
+        .slice(0, limit)
+        .map((query) => ({ text: query, source: "popular" as const })),
+      ...users.map((user) => ({
+        text: user.username,
+        source: "user" as const,
+        id: user.id,
+      })),
+      ...communities.map((community) => ({
+        text: community.slug,
+        source: "community" as const,
+        id: community.id,
+      })),
+      ...datasets.map((dataset) => ({
+        text: dataset.title,
+        source: "dataset" as const,
+        id: dataset.id,
+      })),
+    ];
+
+    // Query suggestions collapse case variants; entities keep their own row
+    const seen = new Set<string>();
+    return candidates
+      .filter((candidate) => {
+        const key = candidate.id ?? candidate.text.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit);
+  }
+
+  // Each row is one user's searches for a query; rows per query = users
+  private static rankPopularQueries(rows: { query: string }[]) {
+    const users = new Map<string, number>();
+    for (const { query } of rows) {
+      users.set(query, (users.get(query) ?? 0) + 1);
+    }
+
+    return [...users]
+      .filter(([, count]) => count >= POPULAR_QUERY_MIN_USERS)
+      .sort((a, b) => b[1] - a[1])
+      .map(([query]) => query);
+  }
+
+  private static async searchUsers(
+    context: SearchContext,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const users = await prisma.user.findMany({
+      where: {
+        status: "active",
+        id: { notIn: context.hiddenUserIds },
+        ...dateRange(options),
+        OR: anyTermMatches(context.terms, ["username", "name"]),
+      },
+      select: {
+        id: true,
+        walletAddress: true,
+        username: true,
+        name: true,
+        avatar: true,
+        reputation: true,
+      },
+      take: CANDIDATE_LIMIT,
+    });
+
+    return users.map(({ reputation, ...user }) => ({
+      type: "users",
+      id: user.id,
+      score: withPopularity(
+        scoreFields(context.terms, [
+          { value: user.username, weight: 3 },
+          { value: user.name, weight: 2 },
+        ]),
+        reputation
+      ),
+      item: user,
+    }));
+  }
+
+  private static async searchCommunities(
+    context: SearchContext,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const communities = await prisma.community.findMany({
+      where: {
+        isArchived: false,
+        ...dateRange(options),
+        AND: [
+          {
+            OR: [{ isPrivate: false }, { id: { in: [...context.memberOf] } }],
+          },
+          {
+            OR: anyTermMatches(context.terms, [
+              "name",
+              "slug",
+              "description",
+              "category",
+            ]),
+          },
+        ],
+      },
+      select: {
+        id: true,
+        slug: true,
+        name: true,
+        description: true,
+        icon: true,
+        category: true,
+        isPrivate: true,
+        isNSFW: true,
+        memberCount: true,
+        createdAt: true,
+      },
+      take: CANDIDATE_LIMIT,
+    });
+
+    return communities.map((community) => ({
+      type: "communities",
+      id: community.id,
+      score: withPopularity(
+        scoreFields(context.terms, [
+          { value: community.name, weight: 3 },
+          { value: community.slug, weight: 2 },
+          { value: community.category, weight: 1.5 },
+          { value: community.description, weight: 1 },
+        ]),
+        community.memberCount
+      ),
+      item: community,
+    }));
+  }
+
+  private static async searchPosts(
+    context: SearchContext,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const [{ where }, closedCommunityIds] = await Promise.all([
+      FeedService.getViewerFilters(context.viewerId),
+      FeedService.getClosedCommunityIds(context.memberOf),
+    ]);
+
+    if (
+      context.communityId &&
+      closedCommunityIds.includes(context.communityId)
+    ) {
+      return [];
+    }
+
+    const posts = await prisma.post.findMany({
+      where: {
+        ...where,
+        ...dateRange(options),
+        ...(context.communityId
+          ? { communityId: context.communityId }
+          : closedCommunityIds.length && {
+              communityId: { notIn: closedCommunityIds },
+            }),
+        ...(options.tags?.length && { tags: { hasSome: options.tags } }),
+        OR: anyTermMatches(context.terms, ["title", "content", "flair"]),
+      },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        type: true,
+        flair: true,
+        tags: true,
+        score: true,
+        isNSFW: true,
+        createdAt: true,
+        author: { select: postAuthorSelect },
+        community: { select: { id: true, slug: true, name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: CANDIDATE_LIMIT,
+    });
+
+    return posts.map(({ content, ...post }) => ({
+      type: "posts",
+      id: post.id,
+      score: withPopularity(
+        scoreFields(context.terms, [
+          { value: post.title, weight: 3 },
+          { value: post.tags.join(" "), weight: 2 },
+          { value: post.flair, weight: 1.5 },
+          { value: content, weight: 1 },
+        ]),
+        post.score
+      ),
+      item: { ...post, excerpt: content.slice(0, EXCERPT_LENGTH) },
+    }));
+  }
+
+  private static async searchDatasets(
+    context: SearchContext,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const datasets = await prisma.dataset.findMany({
+      where: {
+        ...dateRange(options),
+        ...(options.tags?.length && { tags: { hasSome: options.tags } }),
+        AND: [
+          {
+            OR: [
+              { accessibility: "PUBLIC" },
+              { userWalletAddress: context.walletAddress },
+            ],
+          },
+          {
+            OR: [
+              ...anyTermMatches(context.terms, ["title", "description"]),
+              { tags: { hasSome: context.terms } },
+            ],
+          },
+        ],
+      },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        tags: true,
+        fileType: true,
+        downloads: true,
+        accessibility: true,
+        createdAt: true,
+        user: { select: { name: true, walletAddress: true } },
+      },
+      take: CANDIDATE_LIMIT,
+    });
+
+    return datasets.map((dataset) => ({
+      type: "datasets",
+      id: dataset.id,
+      score: withPopularity(
+        scoreFields(context.terms, [
+          { value: dataset.title, weight: 3 },
+          { value: dataset.tags.join(" "), weight: 2 },
+          { value: dataset.description, weight: 1 },
+        ]),
+        dataset.downloads
+      ),
+      item: dataset,
+    }));
+  }
+
+  private static async searchOrganizations(
+    context: SearchContext,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const organizations = await prisma.organization.findMany({
+      where: {
+        visibility: "PUBLIC",
+        isArchived: false,
+        ...dateRange(options),
+        OR: anyTermMatches(context.terms, ["name", "description"]),
+      },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        badge: true,
+        organizationLogo: true,
+        createdAt: true,
+        _count: { select: { followers: true } },
+      },
+      take: CANDIDATE_LIMIT,
+    });
+
+    return organizations.map(({ _count, ...organization }) => ({
+      type: "organizations",
+      id: organization.id,
+      score: withPopularity(
+        scoreFields(context.terms, [
+          { value: organization.name, weight: 3 },
+          { value: organization.description, weight: 1 },
+        ]),
+        _count.followers
+      ),
+      item: { ...organization, followerCount: _count.followers },
+    }));
+  }
+}
@@ -0,0 +1,223 @@
+import { createHash } from "crypto";
+import { Community } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { CommunityError } from "./communityService";
+import {
+  SpamCheckInput,
+  SpamSignal,
+  SpamSubject,
+  SpamVerdict,
+} from "@/types/community/spam";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPAM_THRESHOLD = Number(process.env.SPAM_SCORE_THRESHOLD) || 0.7;
+const MIN_FINGERPRINT_LENGTH = 20;
+const DUPLICATE_WINDOW_MS = 7 * DAY_MS;
+const VELOCITY_WINDOW_MS = 60 * 60 * 1000;
+// Posts and comments per window before velocity starts to count
+const VELOCITY_ALLOWANCE = 5;
+const VELOCITY_CEILING = 20;
+const NEW_ACCOUNT_DAYS = 30;
+
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>()]+|\bwww\.[^\s<>()]+/gi;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Hash of the text with case, punctuation and spacing removed, so light
+ * edits of the same message share a fingerprint.
+ */
+export const fingerprintContent = (text: string) => {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+  return normalized.length < MIN_FINGERPRINT_LENGTH
+    ? null
+    : createHash("sha256").update(normalized).digest("hex");
+};
+
+export const linkDensitySignal: SpamSignal = {
+  name: "linkDensity",
+  weight: 0.6,
+  score({ text, links }) {
+    if (!links.length) return 0;
+    const words = text.split(/\s+/).filter(Boolean).length;
+    // One link per ten words, or ten links overall, is the ceiling
+    return clamp(
+      Math.max((links.length / Math.max(words, 1)) * 10, links.length / 10)
+    );
+  },
+};
+
+// Same text posted recently, weighted up when it spans communities
+export const duplicateContentSignal: SpamSignal = {
+  name: "duplicateContent",
+  weight: 0.8,
+  async score({ fingerprint, communityId }) {
+    if (!fingerprint) return 0;
+    const since = new Date(Date.now() - DUPLICATE_WINDOW_MS);
+
+    const [posts, comments] = await Promise.all([
+      prisma.post.findMany({
+        where: { fingerprint, createdAt: { gte: since } },
+        select: { communityId: true },
+        take: 50,
+      }),
+      prisma.comment.findMany({
+        where: { fingerprint, createdAt: { gte: since } },
+        select: { post: { select: { communityId: true } } },
+        take: 50,
+      }),
+    ]);
+
+    const communities = new Set([
+      ...posts.map((post) => post.communityId),
+      ...comments.map((comment) => comment.post.communityId),
+    ]);
+    if (!communities.size) return 0;
+
+    communities.delete(communityId);
+    return clamp(0.4 + communities.size * 0.2);
+  },
+};
+
+export const postingVelocitySignal: SpamSignal = {
+  name: "postingVelocity",
+  weight: 0.6,
+  async score({ authorId }) {
+    const recent = await prisma.userAction.count({
+      where: {
+        userId: authorId,
+        type: { in: ["post_create", "comment_create"] },
+        createdAt: { gte: new Date(Date.now() - VELOCITY_WINDOW_MS) },
+      },
+    });
+
+    return clamp(
+      (recent - VELOCITY_ALLOWANCE) / (VELOCITY_CEILING - VELOCITY_ALLOWANCE)
+    );
+  },
+};
+
+export const accountAgeSignal: SpamSignal = {
+  name: "accountAge",
+  weight: 0.3,
+  score({ author }) {
+    const ageDays = (Date.now() - author.createdAt.getTime()) / DAY_MS;
+    return clamp(1 - ageDays / NEW_ACCOUNT_DAYS);
+  },
+};
+
+export class SpamFilterService {
+  private signals: SpamSignal[];
+
+  constructor(signals: SpamSignal[]) {
+    this.signals = [...signals];
+  }
+
+  registerSignal(signal: SpamSignal) {
+    this.signals = [
+      ...this.signals.filter((existing) => existing.name !== signal.name),
+      signal,
+    ];
+  }
+
+  removeSignal(name: string) {
+    this.signals = this.signals.filter((signal) => signal.name !== name);
+  }
+
+  // Applies to global reputation; callers exempt community moderators
+  async assertMinimumKarma(
+    userId: string,
+    community: Pick<Community, "minimumKarma">
+  ) {
+    if (community.minimumKarma <= 0) return;
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { reputation: true },
+    });
+
+    if (user.reputation < community.minimumKarma) {
+      throw new CommunityError(
+        403,
+        `Posting here requires at least ${community.minimumKarma} karma`
+      );
+    }
+  }
+
+  /**
+   * Signals are combined as a noisy-or, so any one strong signal can flag
+   * content while weak signals only add up when several agree.
+   */
+  async score(subject: SpamSubject): Promise<SpamVerdict> {
+    const signals: Record<string, number> = {};
+    let clean = 1;
+
+    for (const signal of this.signals) {
+      try {
+        const value = clamp(await signal.score(subject));
+        signals[signal.name] = value;
+        clean *= 1 - signal.weight * value;
+      } catch (error) {
+        logger.warn("Spam signal failed", {
+          signal: signal.name,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    const score = Number((1 - clean).toFixed(4));
+    return { score, isSpam: score >= SPAM_THRESHOLD, signals };
+  }
+
+  /**
+   * Fingerprints every submission so later duplicates can be found, and
+   * scores it when the community's spam filter applies to the author.
+   */
+  async check(input: SpamCheckInput, enabled: boolean) {
+    const text = [input.title, input.content].filter(Boolean).join("\n");
+    const fingerprint = fingerprintContent(text);
+
+    if (!enabled) {
+      return { fingerprint, spamScore: null, isSpam: false };
+    }
+
+    const author = await prisma.user.findUniqueOrThrow({
+      where: { id: input.authorId },
+      select: { createdAt: true, reputation: true },
+    });
+
+    const verdict = await this.score({
+      kind: input.kind,
+      authorId: input.authorId,
+      communityId: input.communityId,
+      text,
+      links: text.match(LINK_PATTERN) ?? [],
+      fingerprint,
+      author,
+    });
+
+    if (verdict.isSpam) {
+      logger.warn("Content marked as spam", {
+        kind: input.kind,
+        authorId: input.authorId,
+        communityId: input.communityId,
+        score: verdict.score,
+        signals: verdict.signals,
+      });
+    }
+
+    return { fingerprint, spamScore: verdict.score, isSpam: verdict.isSpam };
+  }
+}
+
+export const spamFilter = new SpamFilterService([
+  linkDensitySignal,
+  duplicateContentSignal,
+  postingVelocitySignal,
+  accountAgeSignal,
+]);
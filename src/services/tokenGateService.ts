@@ -0,0 +1,324 @@
+import { Community } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { CommunityError } from "./communityService";
+import {
+  ChainRpcProvider,
+  TokenStandard,
+  createChainRpcProvider,
+  normalizeChainId,
+} from "./chainRpcProvider";
+import { NotificationType, SourceType } from "./userNotificationService";
+import { notificationService } from "@/types/notifications/notificaitons";
+
+type GatedCommunity = Pick<
+  Community,
+  | "id"
+  | "name"
+  | "slug"
+  | "creatorId"
+  | "tokenGated"
+  | "tokenAddress"
+  | "tokenChainId"
+  | "tokenStandard"
+  | "requiredBalance"
+>;
+
+export interface TokenGateResult {
+  eligible: boolean;
+  balance: number;
+  requiredBalance: number;
+  checkedAt: Date;
+}
+
+interface CachedBalance {
+  balance: number;
+  checkedAt: Date;
+  expiresAt: number;
+}
+
+const BALANCE_CACHE_TTL_MS =
+  Number(process.env.TOKEN_GATE_CACHE_TTL_MS) || 5 * 60 * 1000;
+const REVERIFY_INTERVAL_MS =
+  Number(process.env.TOKEN_GATE_REVERIFY_INTERVAL_MS) || 60 * 60 * 1000;
+const REVERIFY_BATCH_SIZE = 100;
+
+export class TokenGateService {
+  private cache = new Map<string, CachedBalance>();
+  private verifier?: ReturnType<typeof setInterval>;
+  private verifying = false;
+
+  constructor(private provider: ChainRpcProvider) {}
+
+  setProvider(provider: ChainRpcProvider) {
+    this.provider = provider;
+    this.cache.clear();
+  }
+
+  private cacheKey(community: GatedCommunity, walletAddress: string) {
+    return [
+      normalizeChainId(community.tokenChainId!),
+      community.tokenAddress!.toLowerCase(),
+      walletAddress.toLowerCase(),
+    ].join(":");
+  }
+
+  private async getBalance(
+    community: GatedCommunity,
+    walletAddress: string,
+    fresh = false
+  ): Promise<CachedBalance> {
+    const key = this.cacheKey(community, walletAddress);
+    const cached = this.cache.get(key);
+
+    if (!fresh && cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const balance = await this.provider.getTokenBalance({
+      chainId: community.tokenChainId!,
+      tokenAddress: community.tokenAddress!,
+      walletAddress,
+      standard: (community.tokenStandard as TokenStandard) || "erc20",
+    });
+
+    const entry = {
+      balance,
+      checkedAt: new Date(),
+      expiresAt: Date.now() + BALANCE_CACHE_TTL_MS,
+    };
+    this.cache.set(key, entry);
+
+    return entry;
+  }
+
+  async checkAccess(
+    community: GatedCommunity,
+    walletAddress: string,
+    fresh = false
+  ): Promise<TokenGateResult> {
+    const requiredBalance = community.requiredBalance ?? 0;
+
+    if (!community.tokenGated) {
+      return {
+        eligible: true,
+        balance: 0,
+        requiredBalance,
+        checkedAt: new Date(),
+      };
+    }
+
+    if (!community.tokenAddress || !community.tokenChainId) {
+      throw new CommunityError(
+        409,
+        "Community token gate is not fully configured"
+      );
+    }
+
+    const { balance, checkedAt } = await this.getBalance(
+      community,
+      walletAddress,
+      fresh
+    );
+
+    return {
+      eligible: balance >= requiredBalance,
+      balance,
+      requiredBalance,
+      checkedAt,
+    };
+  }
+
+  async assertAccess(
+    community: GatedCommunity,
+    walletAddress: string
+  ): Promise<TokenGateResult> {
+    const result = await this.checkAccess(community, walletAddress);
+
+    if (!result.eligible) {
+      throw new CommunityError(
+        403,
+        `Holding at least ${result.requiredBalance} of the community token is required`
+      );
+    }
+
+    return result;
+  }
+
+  // Re-checks a single member and stores the outcome on their membership
+  async verifyMember(community: GatedCommunity, userId: string) {
+    const membership = await prisma.communityMember.findUnique({
+      where: { communityId_userId: { communityId: community.id, userId } },
+      include: { user: { select: { walletAddress: true } } },
+    });
+
+    if (!membership) {
+      throw new CommunityError(404, "Not a member of this community");
+    }
+
+    const result = await this.checkAccess(
+      community,
+      membership.user.walletAddress,
+      true
+    );
+    await this.applyResult(community, membership, result);
+
+    return result;
+  }
+
+  private async applyResult(
+    community: GatedCommunity,
+    membership: {
+      id: string;
+      userId: string;
+      role: string;
+      hasTokenAccess: boolean;
+    },
+    result: TokenGateResult
+  ) {
+    // The creator always keeps access to their own community
+    const eligible =
+      result.eligible || membership.userId === community.creatorId;
+    const demoted = membership.hasTokenAccess && !eligible;
+
+    await prisma.communityMember.update({
+      where: { id: membership.id },
+      data: {
+        hasTokenAccess: eligible,
+        tokenVerifiedAt: result.checkedAt,
+        ...(demoted && { role: "member" }),
+      },
+    });
+
+    if (demoted) {
+      logger.info("Member demoted below token gate requirement", {
+        communityId: community.id,
+        userId: membership.userId,
+        previousRole: membership.role,
+        balance: result.balance,
+        requiredBalance: result.requiredBalance,
+      });
+
+      await notificationService.createNotification(
+        membership.userId,
+        NotificationType.COMMUNITY_UPDATE,
+        "Community access reduced",
+        `Your token balance fell below the ${result.requiredBalance} required by ${community.name}`,
+        SourceType.COMMUNITY,
+        community.id,
+        {
+          slug: community.slug,
+          balance: result.balance,
+          requiredBalance: result.requiredBalance,
+        }
+      );
+    }
+
+    return demoted;
+  }
+
+  async verifyCommunityMembers(community: GatedCommunity) {
+    let cursor: string | undefined;
+    let checked = 0;
+    let demoted = 0;
+    let failed = 0;
+
+    while (true) {
+      const members = await prisma.communityMember.findMany({
+        where: { communityId: community.id },
+        include: { user: { select: { walletAddress: true } } },
+        orderBy: { id: "asc" },
+        take: REVERIFY_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (members.length === 0) break;
+
+      for (const member of members) {
+        try {
+          const result = await this.checkAccess(
+            community,
+            member.user.walletAddress,
+            true
+          );
+          if (await this.applyResult(community, member, result)) demoted++;
+          checked++;
+        } catch (error) {
+          // RPC hiccups must not demote anyone; retry on the next run
+          failed++;
+          logger.warn("Token gate verification failed for member", {
+            communityId: community.id,
+            userId: member.userId,
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+      }
+
+      cursor = members[members.length - 1].id;
+    }
+
+    return { checked, demoted, failed };
+  }
+
+  async verifyAllCommunities() {
+    if (this.verifying) return;
+    this.verifying = true;
+    const perf = createPerformanceTracker("token-gate-reverify");
+
+    try {
+      const communities = await prisma.community.findMany({
+        where: { tokenGated: true, isArchived: false },
+      });
+
+      for (const community of communities) {
+        const stats = await this.verifyCommunityMembers(community);
+        logger.info("Token gated community re-verified", {
+          communityId: community.id,
+          ...stats,
+        });
+      }
+
+      const duration = perf.end();
+      logger.info("Token gate re-verification completed", {
+        communities: communities.length,
+        provider: this.provider.name,
+        duration,
+      });
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error re-verifying token gated communities:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        duration,
+      });
+    } finally {
+      this.verifying = false;
+    }
+  }
+
+  startPeriodicVerification(intervalMs = REVERIFY_INTERVAL_MS) {
+    this.stopPeriodicVerification();
+    this.verifier = setInterval(() => this.verifyAllCommunities(), intervalMs);
+
+    logger.info("Token gate re-verification scheduled", {
+      intervalMs,
+      provider: this.provider.name,
+    });
+  }
+
+  stopPeriodicVerification() {
+    if (this.verifier) {
+      clearInterval(this.verifier);
+      this.verifier = undefined;
+    }
+  }
+}
+
+export const tokenGateService = new TokenGateService(createChainRpcProvider());
@@ -11,6 +11,7 @@ export enum NotificationType {
   MENTION = "MENTION",
   REVENUE_SHARE_UPDATE = "REVENUE_SHARE_UPDATE",
   BILLING_UPDATE = "BILLING_UPDATE",
+  COMMUNITY_UPDATE = "COMMUNITY_UPDATE",
 }
 
 export enum SourceType {
@@ -19,6 +20,7 @@ export enum SourceType {
   SYSTEM = "SYSTEM",
   USER = "USER",
   MESSAGING = "MESSAGING",
+  COMMUNITY = "COMMUNITY",
 }
 
 interface NotificationPreferences {
@@ -36,6 +38,7 @@ interface NotificationPreferences {
   [NotificationType.MENTION]: boolean;
   [NotificationType.REVENUE_SHARE_UPDATE]: boolean;
   [NotificationType.BILLING_UPDATE]: boolean;
+  [NotificationType.COMMUNITY_UPDATE]: boolean;
 }
 
 export class UserNotificationService {
@@ -0,0 +1,239 @@
+import { Community, Prisma } from "@prisma/client";
+import prisma from "@/middleware/prismaclient";
+import { logger } from "@/utils/monitor";
+import { createPerformanceTracker } from "@/index";
+import { CommunityError } from "./communityService";
+import { PostService } from "./postService";
+import { CommentService } from "./commentService";
+import { CommunityMembershipService } from "./communityMembershipService";
+import { sanctionService } from "./sanctionService";
+import {
+  ContentPreferenceService,
+  SIGNAL_STRENGTH,
+} from "./contentPreferenceService";
+import { VoteTarget, VoteValue } from "@/types/community/vote";
+
+interface ResolvedTarget {
+  type: VoteTarget;
+  id: string;
+  postId: string;
+  authorId: string;
+  community: Community;
+}
+
+// Concurrent votes on the same content conflict on its counters
+const MAX_VOTE_ATTEMPTS = 3;
+
+const isPrismaError = (error: unknown, code: string) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === code;
+
+// Per-counter changes when a user's vote goes from `from` to `to` (0 = none)
+const voteDelta = (from: number, to: number) => ({
+  score: to - from,
+  upvotes: (to === 1 ? 1 : 0) - (from === 1 ? 1 : 0),
+  downvotes: (to === -1 ? 1 : 0) - (from === -1 ? 1 : 0),
+});
+
+export class VoteService {
+  // Locked or removed content, and its comments, no longer accept votes
+  private static async resolveTarget(
+    userId: string,
+    type: VoteTarget,
+    id: string
+  ): Promise<ResolvedTarget> {
+    const comment =
+      type === "comment" ? await CommentService.getCommentById(id) : undefined;
+    const post = await PostService.getPostById(comment?.postId ?? id);
+
+    if (post.status !== "active") {
+      throw new CommunityError(409, "This post is not accepting votes");
+    }
+
+    if (comment && comment.status !== "active") {
+      throw new CommunityError(409, "This comment has been removed");
+    }
+
+    if (post.isLocked) {
+      throw new CommunityError(409, "This post is locked");
+    }
+
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: post.communityId },
+    });
+
+    if (community.isArchived) {
+      throw new CommunityError(409, "Archived communities are read-only");
+    }
+
+    await PostService.assertCanView(userId, community);
+    await sanctionService.assertCanParticipate(userId, community.id);
+
+    // Token gated communities hold votes to the same balance check as posts
+    if (community.tokenGated) {
+      const membership = await CommunityMembershipService.getMembership(
+        userId,
+        community.id
+      );
+      if (!membership) {
+        throw new CommunityError(403, "Join the community to participate");
+      }
+      if (!membership.hasTokenAccess) {
+        throw new CommunityError(
+          403,
+          "Your token balance no longer meets the community requirement"
+        );
+      }
+    }
+
+    return {
+      type,
+      id,
+      postId: post.id,
+      authorId: comment?.authorId ?? post.authorId,
+      community,
+    };
+  }
+
+  private static async applyVote(
+    userId: string,
+    target: ResolvedTarget,
+    value: 0 | VoteValue
+  ) {
+    const commentId = target.type === "comment" ? target.id : null;
+
+    return await prisma.$transaction(async (tx) => {
+      const existing = await tx.vote.findFirst({
+        where: { userId, postId: target.postId, commentId },
+      });
+      const previous = existing?.value ?? 0;
+
+      if (previous === value) {
+        return { previous, delta: voteDelta(0, 0) };
+      }
+
+      if (!existing) {
+        await tx.vote.create({
+          data: { userId, postId: target.postId, commentId, value },
+        });
+      } else if (value === 0) {
+        await tx.vote.delete({ where: { id: existing.id } });
+      } else {
+        await tx.vote.update({ where: { id: existing.id }, data: { value } });
+      }
+
+      const delta = voteDelta(previous, value);
+      const counters = {
+        score: { increment: delta.score },
+        upvotes: { increment: delta.upvotes },
+        downvotes: { increment: delta.downvotes },
+      };
+
+      if (target.type === "comment") {
+        await tx.comment.update({ where: { id: target.id }, data: counters });
+      } else {
+        await tx.post.update({ where: { id: target.id }, data: counters });
+      }
+
+      // Voting on your own content does not earn reputation
+      if (delta.score !== 0 && target.authorId !== userId) {
+        await tx.user.update({
+          where: { id: target.authorId },
+          data: { reputation: { increment: delta.score } },
+        });
+
+        await tx.communityMember.updateMany({
+          where: {
+            communityId: target.community.id,
+            userId: target.authorId,
+          },
+          data: { reputation: { increment: delta.score } },
+        });
+      }
+
+      return { previous, delta };
+    });
+  }
+
+  // value 0 removes the vote; an opposite value switches it
+  static async castVote(
+    userId: string,
+    type: VoteTarget,
+    id: string,
+    value: 0 | VoteValue
+  ) {
+    const perf = createPerformanceTracker("cast-vote");
+
+    try {
+      const target = await this.resolveTarget(userId, type, id);
+
+      let result;
+      for (let attempt = 1; !result; attempt++) {
+        try {
+          result = await this.applyVote(userId, target, value);
+        } catch (error) {
+          // A concurrent first vote from the same user won the race
+          if (isPrismaError(error, "P2002")) {
+            throw new CommunityError(409, "Vote is already being recorded");
+          }
+          // Write conflict with another vote; the transaction is safe to rerun
+          if (isPrismaError(error, "P2034")) {
+            if (attempt < MAX_VOTE_ATTEMPTS) continue;
+            throw new CommunityError(
+              409,
+              "Too many votes at once, please try again"
+            );
+          }
+          throw error;
+        }
+      }
+
+      if (type === "post" && result.previous !== value) {
+        await ContentPreferenceService.recordSignal(
+          userId,
+          target.postId,
+          (value - result.previous) * SIGNAL_STRENGTH.vote
+        );
+      }
+
+      const counters =
+        type === "comment"
+          ? await prisma.comment.findUniqueOrThrow({
+              where: { id },
+              select: { score: true, upvotes: true, downvotes: true },
+            })
+          : await prisma.post.findUniqueOrThrow({
+              where: { id },
+              select: { score: true, upvotes: true, downvotes: true },
+            });
+
+      const duration = perf.end();
+      logger.info("Vote recorded", {
+        targetType: type,
+        targetId: id,
+        userId,
+        from: result.previous,
+        to: value,
+        duration,
+      });
+
+      return { value, ...counters };
+    } catch (error) {
+      const duration = perf.end();
+      logger.error("Error recording vote:", {
+        error:
+          error instanceof Error
+            ? {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+              }
+            : error,
+        targetType: type,
+        targetId: id,
+        userId,
+        duration,
+      });
+      throw error;
+    }
+  }
+}
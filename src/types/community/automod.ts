@@ -0,0 +1,118 @@
+import { Static, t } from "elysia";
+
+export const AUTOMOD_CONDITION_TYPES = [
+  "keyword",
+  "regex",
+  "user_age",
+  "karma_threshold",
+] as const;
+
+export const AUTOMOD_COMBINATOR_TYPES = ["all", "any", "not"] as const;
+
+export const AUTOMOD_RULE_TYPES = [
+  ...AUTOMOD_CONDITION_TYPES,
+  ...AUTOMOD_COMBINATOR_TYPES,
+] as const;
+
+export const AUTOMOD_ACTIONS = ["remove", "flag", "notify_mods"] as const;
+
+export type AutoModRuleType = (typeof AUTOMOD_RULE_TYPES)[number];
+export type AutoModAction = (typeof AUTOMOD_ACTIONS)[number];
+
+export type AutoModField = "title" | "content" | "url";
+
+export interface KeywordConfig {
+  keywords: string[];
+  fields?: AutoModField[];
+  caseSensitive?: boolean;
+  // Match only whole words rather than substrings
+  wholeWord?: boolean;
+}
+
+export interface RegexConfig {
+  pattern: string;
+  flags?: string;
+  fields?: AutoModField[];
+}
+
+// Matches authors whose account is younger than minDays
+export interface UserAgeConfig {
+  minDays: number;
+}
+
+// Matches authors whose reputation is below minKarma
+export interface KarmaThresholdConfig {
+  minKarma: number;
+  // "community" uses the author's reputation within the community
+  scope?: "global" | "community";
+}
+
+export interface CombinatorConfig {
+  conditions: AutoModCondition[];
+}
+
+export interface NotConfig {
+  condition: AutoModCondition;
+}
+
+export type AutoModCondition =
+  | { type: "keyword"; config: KeywordConfig }
+  | { type: "regex"; config: RegexConfig }
+  | { type: "user_age"; config: UserAgeConfig }
+  | { type: "karma_threshold"; config: KarmaThresholdConfig }
+  | { type: "all" | "any"; config: CombinatorConfig }
+  | { type: "not"; config: NotConfig };
+
+// Content and author facts a rule is evaluated against
+export interface AutoModSubject {
+  kind: "post" | "comment";
+  id: string;
+  communityId: string;
+  authorId: string;
+  title?: string;
+  content: string;
+  url?: string | null;
+  createdAt: Date;
+  author: {
+    createdAt: Date;
+    reputation: number;
+    communityReputation: number;
+  };
+}
+
+const ruleTypeSchema = t.Union(
+  AUTOMOD_RULE_TYPES.map((type) => t.Literal(type))
+);
+const ruleActionSchema = t.Union(
+  AUTOMOD_ACTIONS.map((action) => t.Literal(action))
+);
+
+// Configs are validated per type by the rule engine
+const ruleConfigSchema = t.Record(t.String(), t.Unknown());
+
+export const createAutoModRuleSchema = t.Object({
+  name: t.String({ minLength: 1, maxLength: 100 }),
+  description: t.Optional(t.String({ maxLength: 500 })),
+  type: ruleTypeSchema,
+  config: ruleConfigSchema,
+  action: ruleActionSchema,
+  isEnabled: t.Optional(t.Boolean()),
+});
+
+export const updateAutoModRuleSchema = t.Partial(createAutoModRuleSchema);
+
+export const autoModDryRunSchema = t.Object({
+  // Either an unsaved rule or the id of a saved one
+  rule: t.Optional(
+    t.Object({
+      type: ruleTypeSchema,
+      config: ruleConfigSchema,
+    })
+  ),
+  ruleId: t.Optional(t.String()),
+  limit: t.Optional(t.Number({ minimum: 1, maximum: 200 })),
+});
+
+export type CreateAutoModRuleInput = Static<typeof createAutoModRuleSchema>;
+export type UpdateAutoModRuleInput = Static<typeof updateAutoModRuleSchema>;
+export type AutoModDryRunInput = Static<typeof autoModDryRunSchema>;
@@ -0,0 +1,52 @@
+import { Static, t } from "elysia";
+
+export type CommentStatus = "active" | "removed" | "spam" | "deleted";
+
+// Replies nested deeper than this are rejected
+export const MAX_COMMENT_DEPTH = 50;
+
+export const createCommentSchema = t.Object({
+  content: t.String({ minLength: 1, maxLength: 10000 }),
+  parentId: t.Optional(t.String()),
+});
+
+export const updateCommentSchema = t.Object({
+  content: t.String({ minLength: 1, maxLength: 10000 }),
+});
+
+export type CreateCommentInput = Static<typeof createCommentSchema>;
+export type UpdateCommentInput = Static<typeof updateCommentSchema>;
+
+export interface CommentTreeOptions {
+  // Levels of replies to include below the requested level
+  depth: number;
+  limit: number;
+  cursor?: string;
+  parentId?: string;
+}
+
+export interface CommentTreeNode {
+  id: string;
+  content: string;
+  status: string;
+  author: {
+    id: string;
+    username: string;
+    name: string | null;
+    avatar: string | null;
+  } | null;
+  score: number;
+  upvotes: number;
+  downvotes: number;
+  depth: number;
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  replies: CommentTreeNode[];
+  // Set when replies exist beyond the fetched depth
+  moreReplies: {
+    parentId: string;
+    cursor: string | null;
+    remaining: number;
+  } | null;
+}
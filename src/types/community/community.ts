@@ -0,0 +1,127 @@
+import { Static, t } from "elysia";
+
+export const COMMUNITY_CONTENT_TYPES = [
+  "text",
+  "link",
+  "image",
+  "video",
+  "poll",
+] as const;
+
+export type CommunityContentType = (typeof COMMUNITY_CONTENT_TYPES)[number];
+
+export type CommunitySort = "members" | "new";
+
+export interface CommunityRule {
+  title: string;
+  description?: string;
+}
+
+export const TOKEN_STANDARDS = ["erc20", "erc721"] as const;
+
+export interface CommunityListOptions {
+  page: number;
+  limit: number;
+  category?: string;
+  tags?: string[];
+  isNSFW?: boolean;
+  sort: CommunitySort;
+}
+
+const contentTypeSchema = t.Union(
+  COMMUNITY_CONTENT_TYPES.map((type) => t.Literal(type))
+);
+
+const ruleSchema = t.Object({
+  title: t.String({ minLength: 1, maxLength: 100 }),
+  description: t.Optional(t.String({ maxLength: 500 })),
+});
+
+const communitySettingsSchema = {
+  name: t.String({ minLength: 3, maxLength: 100 }),
+  description: t.Optional(t.String({ maxLength: 1000 })),
+  icon: t.Optional(t.String()),
+  banner: t.Optional(t.String()),
+  isPrivate: t.Optional(t.Boolean()),
+  isNSFW: t.Optional(t.Boolean()),
+  language: t.Optional(t.String({ minLength: 2, maxLength: 10 })),
+  allowedContentTypes: t.Optional(t.Array(contentTypeSchema, { minItems: 1 })),
+  requirePostApproval: t.Optional(t.Boolean()),
+  autoSpamFilter: t.Optional(t.Boolean()),
+  minimumKarma: t.Optional(t.Integer({ minimum: 0 })),
+  rules: t.Optional(t.Array(ruleSchema, { maxItems: 25 })),
+  tags: t.Optional(t.Array(t.String({ maxLength: 30 }), { maxItems: 10 })),
+  category: t.Optional(t.String({ maxLength: 50 })),
+  tokenGated: t.Optional(t.Boolean()),
+  tokenAddress: t.Optional(t.String({ pattern: "^0x[a-fA-F0-9]{40}$" })),
+  tokenChainId: t.Optional(t.String({ pattern: "^0x[0-9a-fA-F]+$|^\\d+$" })),
+  tokenStandard: t.Optional(
+    t.Union(TOKEN_STANDARDS.map((standard) => t.Literal(standard)))
+  ),
+  requiredBalance: t.Optional(t.Number({ minimum: 0 })),
+};
+
+export const createCommunitySchema = t.Object({
+  ...communitySettingsSchema,
+  slug: t.String({ pattern: "^[a-z0-9][a-z0-9_-]{2,49}$" }),
+});
+
+export const updateCommunitySchema = t.Partial(
+  t.Object(communitySettingsSchema)
+);
+
+export type CreateCommunityInput = Static<typeof createCommunitySchema>;
+export type UpdateCommunityInput = Static<typeof updateCommunitySchema>;
+
+// Member role tiers, ordered from lowest to highest
+export const COMMUNITY_MEMBER_ROLES = ["member", "contributor", "vip"] as const;
+
+export type CommunityMemberRole = (typeof COMMUNITY_MEMBER_ROLES)[number];
+
+export type JoinRequestStatus = "pending" | "approved" | "rejected";
+
+// The body may be omitted when there is no message for the moderators
+export const joinCommunitySchema = t.Optional(
+  t.Object({
+    message: t.Optional(t.String({ maxLength: 500 })),
+  })
+);
+
+export type JoinCommunityInput = Static<typeof joinCommunitySchema>;
+
+export const COMMUNITY_PERMISSIONS = [
+  "canManagePosts",
+  "canManageUsers",
+  "canManageRules",
+  "canManageAutoMod",
+  "canManageModerators",
+] as const;
+
+export type CommunityPermission = (typeof COMMUNITY_PERMISSIONS)[number];
+
+export type CommunityPermissions = Record<CommunityPermission, boolean>;
+
+const communityPermissionsSchema = t.Partial(
+  t.Object({
+    canManagePosts: t.Boolean(),
+    canManageUsers: t.Boolean(),
+    canManageRules: t.Boolean(),
+    canManageAutoMod: t.Boolean(),
+    canManageModerators: t.Boolean(),
+  })
+);
+
+export const addModeratorSchema = t.Object({
+  userId: t.String(),
+  // Omitted permissions default to post moderation only
+  permissions: t.Optional(communityPermissionsSchema),
+});
+
+export const updateModeratorSchema = t.Object({
+  permissions: communityPermissionsSchema,
+});
+
+export type AddModeratorInput = Static<typeof addModeratorSchema>;
+export type CommunityPermissionsInput = Static<
+  typeof communityPermissionsSchema
+>;
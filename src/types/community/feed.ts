@@ -0,0 +1,33 @@
+import { Static, t } from "elysia";
+
+export const FEED_SORTS = ["hot", "new", "top", "controversial"] as const;
+
+export type FeedSort = (typeof FEED_SORTS)[number];
+
+export const FEED_WINDOWS = ["day", "week", "month", "all"] as const;
+
+export type FeedWindow = (typeof FEED_WINDOWS)[number];
+
+export interface FeedOptions {
+  sort: FeedSort;
+  // Only used by the top and controversial sorts
+  window: FeedWindow;
+  limit: number;
+  cursor?: string;
+}
+
+// Position of the last item of a page: its sort value and id as tie-breaker
+export interface FeedCursor {
+  value: number;
+  id: string;
+}
+
+export type ContentPreferenceType = "tag" | "category" | "content_type";
+
+export const feedSignalSchema = t.Object({
+  postId: t.String(),
+  type: t.Literal("dwell"),
+  durationMs: t.Integer({ minimum: 0, maximum: 60 * 60 * 1000 }),
+});
+
+export type FeedSignalInput = Static<typeof feedSignalSchema>;
@@ -0,0 +1,115 @@
+import { Static, t } from "elysia";
+
+export const REPORT_TYPES = ["post", "comment", "user", "community"] as const;
+
+export type ReportType = (typeof REPORT_TYPES)[number];
+
+export type ReportStatus = "pending" | "resolved" | "rejected";
+
+export const MODERATION_ACTION_TYPES = [
+  "remove_post",
+  "remove_comment",
+  "approve_post",
+  "approve_comment",
+  "ban",
+  "mute",
+  "unban",
+  "unmute",
+  "lock_post",
+  "unlock_post",
+  "pin_post",
+  "unpin_post",
+  "report_resolved",
+  "report_rejected",
+  "automod_flag",
+  "automod_notify",
+  "add_moderator",
+  "update_moderator",
+  "remove_moderator",
+] as const;
+
+export type ModerationActionType = (typeof MODERATION_ACTION_TYPES)[number];
+
+export type ModerationTargetType = "user" | "post" | "comment" | "community";
+
+export interface ModerationActionInput {
+  type: ModerationActionType;
+  moderatorId: string;
+  targetId: string;
+  targetType: ModerationTargetType;
+  reason: string;
+  communityId?: string | null;
+  metadata?: Record<string, unknown>;
+  expiresAt?: Date | null;
+}
+
+export const createReportSchema = t.Object({
+  type: t.Union(REPORT_TYPES.map((type) => t.Literal(type))),
+  targetId: t.String(),
+  reason: t.String({ minLength: 1, maxLength: 100 }),
+  details: t.Optional(t.String({ maxLength: 2000 })),
+  // Lets user reports be routed to a community's moderators
+  communitySlug: t.Optional(t.String()),
+});
+
+export const reviewReportSchema = t.Object({
+  resolution: t.String({ minLength: 1, maxLength: 1000 }),
+});
+
+export type CreateReportInput = Static<typeof createReportSchema>;
+export type ReviewReportInput = Static<typeof reviewReportSchema>;
+
+export const moderationReasonSchema = t.Object({
+  reason: t.String({ minLength: 1, maxLength: 1000 }),
+});
+
+// Lock and pin toggles may be sent without a body
+export const optionalModerationReasonSchema = t.Optional(
+  t.Object({
+    reason: t.Optional(t.String({ minLength: 1, maxLength: 1000 })),
+  })
+);
+
+export type SanctionKind = "ban" | "mute";
+
+export const banUserSchema = t.Object({
+  userId: t.String(),
+  reason: t.String({ minLength: 1, maxLength: 1000 }),
+  // Omit for a permanent ban
+  expiresAt: t.Optional(t.String({ format: "date-time" })),
+});
+
+export const muteUserSchema = t.Object({
+  userId: t.String(),
+  reason: t.String({ minLength: 1, maxLength: 1000 }),
+  expiresAt: t.String({ format: "date-time" }),
+});
+
+export type BanUserInput = Static<typeof banUserSchema>;
+export type MuteUserInput = Static<typeof muteUserSchema>;
+
+export interface SanctionListOptions {
+  page: number;
+  limit: number;
+}
+
+export interface ModerationLogOptions {
+  page: number;
+  limit: number;
+  communitySlug?: string;
+  type?: ModerationActionType;
+  targetId?: string;
+}
+
+export interface ModerationQueueOptions {
+  page: number;
+  limit: number;
+  communitySlug?: string;
+}
+
+export interface ReportQueueOptions {
+  page: number;
+  limit: number;
+  status: ReportStatus;
+  communitySlug?: string;
+}
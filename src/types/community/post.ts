@@ -0,0 +1,60 @@
+import { Static, t } from "elysia";
+import { COMMUNITY_CONTENT_TYPES } from "./community";
+
+export type PostStatus = "active" | "pending" | "removed" | "spam" | "deleted";
+
+export interface PollOption {
+  id: string;
+  text: string;
+}
+
+// Shape stored in Post.pollData
+export interface PollData {
+  options: PollOption[];
+  multipleChoice: boolean;
+  closesAt: string | null;
+  hideResultsUntilClosed: boolean;
+}
+
+export const createPollSchema = t.Object({
+  options: t.Array(t.String({ minLength: 1, maxLength: 100 }), {
+    minItems: 2,
+    maxItems: 10,
+  }),
+  multipleChoice: t.Optional(t.Boolean()),
+  closesAt: t.Optional(t.String({ format: "date-time" })),
+  hideResultsUntilClosed: t.Optional(t.Boolean()),
+});
+
+export const pollVoteSchema = t.Object({
+  optionIds: t.Array(t.String(), { minItems: 1, maxItems: 10 }),
+});
+
+export type CreatePollInput = Static<typeof createPollSchema>;
+export type PollVoteInput = Static<typeof pollVoteSchema>;
+
+const urlSchema = t.String({ pattern: "^https?://", maxLength: 2048 });
+
+const postDetailsSchema = {
+  content: t.String({ maxLength: 40000 }),
+  flair: t.Optional(t.String({ maxLength: 64 })),
+  tags: t.Optional(t.Array(t.String({ maxLength: 30 }), { maxItems: 10 })),
+  isNSFW: t.Optional(t.Boolean()),
+  isSpoiler: t.Optional(t.Boolean()),
+};
+
+export const createPostSchema = t.Object({
+  ...postDetailsSchema,
+  communitySlug: t.String(),
+  title: t.String({ minLength: 1, maxLength: 300 }),
+  type: t.Union(COMMUNITY_CONTENT_TYPES.map((type) => t.Literal(type))),
+  url: t.Optional(urlSchema),
+  mediaUrls: t.Optional(t.Array(urlSchema, { maxItems: 20 })),
+  pollData: t.Optional(createPollSchema),
+});
+
+// Title, type and attached media are fixed once a post is published
+export const updatePostSchema = t.Partial(t.Object(postDetailsSchema));
+
+export type CreatePostInput = Static<typeof createPostSchema>;
+export type UpdatePostInput = Static<typeof updatePostSchema>;
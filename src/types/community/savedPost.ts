@@ -0,0 +1,33 @@
+import { Static, t } from "elysia";
+
+const categorySchema = t.String({ minLength: 1, maxLength: 50 });
+
+// The body may be omitted entirely to save without a category
+export const savePostSchema = t.Optional(
+  t.Object({
+    category: t.Optional(categorySchema),
+  })
+);
+
+export const renameSavedCategorySchema = t.Object({
+  name: categorySchema,
+});
+
+export const mergeSavedCategoriesSchema = t.Object({
+  sources: t.Array(categorySchema, { minItems: 1, maxItems: 20 }),
+  target: categorySchema,
+});
+
+export type SavePostInput = Static<typeof savePostSchema>;
+export type MergeSavedCategoriesInput = Static<
+  typeof mergeSavedCategoriesSchema
+>;
+
+export type SavedPostExportFormat = "json" | "csv";
+
+export interface SavedPostListOptions {
+  page: number;
+  limit: number;
+  // null selects bookmarks without a category
+  category?: string | null;
+}
@@ -0,0 +1,38 @@
+// Content under evaluation, with the author facts signals need
+export interface SpamSubject {
+  kind: "post" | "comment";
+  authorId: string;
+  communityId: string;
+  // Title and body as written, excluding the post's own link
+  text: string;
+  // Links embedded in the text
+  links: string[];
+  // Null when the content is too short to fingerprint meaningfully
+  fingerprint: string | null;
+  author: {
+    createdAt: Date;
+    reputation: number;
+  };
+}
+
+export interface SpamSignal {
+  name: string;
+  // Most the signal can contribute on its own, between 0 and 1
+  weight: number;
+  // Suspicion between 0 (clean) and 1 (certainly spam)
+  score(subject: SpamSubject): Promise<number> | number;
+}
+
+export interface SpamVerdict {
+  score: number;
+  isSpam: boolean;
+  signals: Record<string, number>;
+}
+
+export interface SpamCheckInput {
+  kind: SpamSubject["kind"];
+  authorId: string;
+  communityId: string;
+  title?: string;
+  content: string;
+}
@@ -0,0 +1,11 @@
+import { Static, t } from "elysia";
+
+export type VoteTarget = "post" | "comment";
+
+export type VoteValue = 1 | -1;
+
+export const voteSchema = t.Object({
+  value: t.Union([t.Literal(1), t.Literal(-1)]),
+});
+
+export type VoteInput = Static<typeof voteSchema>;
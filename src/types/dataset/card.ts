@@ -0,0 +1,94 @@
+import { Static, t } from "elysia";
+
+// SPDX identifiers, lowercased, plus the usual catch-alls
+export const DATASET_LICENSES = [
+  "apache-2.0",
+  "mit",
+  "bsd-3-clause",
+  "gpl-3.0",
+  "cc0-1.0",
+  "cc-by-4.0",
+  "cc-by-sa-4.0",
+  "cc-by-nc-4.0",
+  "cc-by-nc-sa-4.0",
+  "odc-by",
+  "odbl",
+  "pddl",
+  "other",
+  "unknown",
+] as const;
+
+export const DATASET_TASK_CATEGORIES = [
+  "text-classification",
+  "token-classification",
+  "question-answering",
+  "summarization",
+  "translation",
+  "text-generation",
+  "image-classification",
+  "object-detection",
+  "image-segmentation",
+  "audio-classification",
+  "automatic-speech-recognition",
+  "tabular-classification",
+  "tabular-regression",
+  "time-series-forecasting",
+  "reinforcement-learning",
+  "other",
+] as const;
+
+// Number of records in the dataset
+export const DATASET_SIZE_CATEGORIES = [
+  "n<1K",
+  "1K<n<10K",
+  "10K<n<100K",
+  "100K<n<1M",
+  "1M<n<10M",
+  "10M<n<100M",
+  "100M<n<1B",
+  "n>1B",
+] as const;
+
+export type DatasetLicense = (typeof DATASET_LICENSES)[number];
+export type DatasetTaskCategory = (typeof DATASET_TASK_CATEGORIES)[number];
+export type DatasetSizeCategory = (typeof DATASET_SIZE_CATEGORIES)[number];
+
+export const datasetCardSchema = t.Object({
+  license: t.Optional(
+    t.Union(DATASET_LICENSES.map((license) => t.Literal(license)))
+  ),
+  taskCategories: t.Optional(
+    t.Array(
+      t.Union(DATASET_TASK_CATEGORIES.map((category) => t.Literal(category))),
+      { maxItems: 10 }
+    )
+  ),
+  // ISO 639 codes with an optional region or script, e.g. en, pt-BR
+  languages: t.Optional(
+    t.Array(t.String({ pattern: "^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$" }), {
+      maxItems: 50,
+    })
+  ),
+  sizeCategory: t.Optional(
+    t.Union(DATASET_SIZE_CATEGORIES.map((size) => t.Literal(size)))
+  ),
+  collectionProcess: t.Optional(t.String({ maxLength: 5000 })),
+  knownBiases: t.Optional(
+    t.Array(t.String({ minLength: 1, maxLength: 1000 }), { maxItems: 20 })
+  ),
+  citation: t.Optional(t.String({ maxLength: 10000 })),
+});
+
+export type DatasetCardInput = Static<typeof datasetCardSchema>;
+
+// What is stored on Dataset.card and returned by the API
+export interface DatasetCard {
+  license: DatasetLicense | null;
+  taskCategories: DatasetTaskCategory[];
+  languages: string[];
+  sizeCategory: DatasetSizeCategory | null;
+  collectionProcess: string | null;
+  knownBiases: string[];
+  // BibTeX entry
+  citation: string | null;
+}
@@ -0,0 +1,33 @@
+import { t } from "elysia";
+import { ProfileFormat } from "./profile";
+
+export const previewQuerySchema = t.Object({
+  offset: t.Optional(t.String()),
+  limit: t.Optional(t.String()),
+  // Comma separated column names; every column when omitted
+  columns: t.Optional(t.String()),
+  // "true" returns randomly sampled rows instead of a page; offset is ignored
+  sample: t.Optional(t.String()),
+});
+
+export interface PreviewOptions {
+  offset: number;
+  limit: number;
+  columns?: string[];
+  sample: boolean;
+}
+
+export interface FilePreview {
+  format: ProfileFormat;
+  columns: string[];
+  // One array per row, aligned with columns
+  rows: unknown[][];
+  offset: number;
+  limit: number;
+  sample: boolean;
+  // Null when it cannot be known without reading further
+  hasMore: boolean | null;
+  totalRows: number | null;
+  // Nested Parquet columns, which previews cannot show
+  omittedColumns?: string[];
+}
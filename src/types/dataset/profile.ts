@@ -0,0 +1,58 @@
+export const PROFILE_FORMATS = ["csv", "tsv", "jsonl", "parquet"] as const;
+
+export type ProfileFormat = (typeof PROFILE_FORMATS)[number];
+
+export type ColumnType =
+  | "integer"
+  | "float"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "string"
+  | "json"
+  | "binary"
+  | "null";
+
+export interface HistogramBin {
+  // Inclusive lower bound; the last bin also includes its upper bound
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  // Non-null values seen per inferred type, when types were mixed
+  typeCounts?: Partial<Record<ColumnType, number>>;
+  count: number;
+  // Null when the format carries no statistics for the column
+  nullCount: number | null;
+  nullRatio: number | null;
+  distinctCount: number | null;
+  // True when distinctCount is a lower bound
+  distinctApproximate?: boolean;
+  min: number | string | boolean | null;
+  max: number | string | boolean | null;
+  mean: number | null;
+  histogram: HistogramBin[] | null;
+}
+
+export interface FileProfile {
+  format: ProfileFormat;
+  rowCount: number;
+  // True when only the first part of the file was read
+  sampled: boolean;
+  columns: ColumnProfile[];
+  profiledAt: string;
+}
+
+export type ProfileStatus = "pending" | "complete" | "failed" | "unsupported";
+
+// Stored under File.metadata.profile
+export interface StoredFileProfile {
+  status: ProfileStatus;
+  updatedAt: string;
+  result?: FileProfile;
+  error?: string;
+}
@@ -0,0 +1,93 @@
+import { Static, t } from "elysia";
+
+export const QUERY_OUTPUT_FORMATS = ["json", "csv"] as const;
+
+export type QueryOutputFormat = (typeof QUERY_OUTPUT_FORMATS)[number];
+
+export const datasetQuerySchema = t.Object({
+  // SELECT ... [FROM file] [WHERE ...] [GROUP BY ...] [ORDER BY ...] [LIMIT n]
+  sql: t.String({ minLength: 1, maxLength: 4000 }),
+  // Semver of the dataset version to query; the latest files when omitted
+  version: t.Optional(t.String()),
+  format: t.Optional(
+    t.Union(QUERY_OUTPUT_FORMATS.map((format) => t.Literal(format)))
+  ),
+});
+
+export type DatasetQueryInput = Static<typeof datasetQuerySchema>;
+
+export type QueryValue = number | string | boolean | null;
+
+export type BinaryOperator =
+  | "AND"
+  | "OR"
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/";
+
+export type QueryExpression =
+  | { kind: "literal"; value: QueryValue }
+  | { kind: "column"; name: string }
+  | { kind: "unary"; operator: "NOT" | "-"; operand: QueryExpression }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: QueryExpression;
+      right: QueryExpression;
+    }
+  | { kind: "isNull"; operand: QueryExpression; negated: boolean }
+  | {
+      kind: "in";
+      operand: QueryExpression;
+      values: QueryExpression[];
+      negated: boolean;
+    }
+  | {
+      kind: "like";
+      operand: QueryExpression;
+      pattern: QueryExpression;
+      negated: boolean;
+    }
+  // Scalar functions and aggregates; COUNT(*) has no arguments
+  | { kind: "call"; name: string; args: QueryExpression[] };
+
+export interface SelectItem {
+  expression: QueryExpression;
+  alias: string;
+}
+
+export interface OrderItem {
+  expression: QueryExpression;
+  descending: boolean;
+}
+
+export interface ParsedQuery {
+  // Null for SELECT *
+  select: SelectItem[] | null;
+  from?: string;
+  where?: QueryExpression;
+  groupBy: QueryExpression[];
+  orderBy: OrderItem[];
+  limit?: number;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: QueryValue[][];
+  stats: {
+    file: string;
+    version: string | null;
+    scannedRows: number;
+    elapsedMs: number;
+    // Set when a budget stopped the scan before the end of the file
+    truncated: boolean;
+    reason?: "row_budget" | "time_budget" | "byte_budget";
+  };
+}
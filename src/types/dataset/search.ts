@@ -0,0 +1,31 @@
+export const DATASET_FACETS = [
+  "fileType",
+  "tag",
+  "license",
+  "accessibility",
+] as const;
+
+export type DatasetFacet = (typeof DATASET_FACETS)[number];
+
+// Value -> number of matching datasets, per facet
+export type DatasetFacetCounts = Record<DatasetFacet, Record<string, number>>;
+
+export interface DatasetSearchOptions {
+  query: string;
+  // Private datasets are only visible to their owner
+  viewerAddress?: string;
+  filters: Partial<Record<DatasetFacet, string>>;
+  page: number;
+  limit: number;
+}
+
+// What the index keeps per dataset, in memory and in DatasetSearchDocument
+export interface IndexedDataset {
+  terms: Record<string, number>;
+  length: number;
+  fileTypes: string[];
+  tags: string[];
+  license: string | null;
+  accessibility: string;
+  ownerAddress: string | null;
+}
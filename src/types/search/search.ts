@@ -0,0 +1,75 @@
+import { Static, t } from "elysia";
+
+export const SEARCH_TYPES = [
+  "users",
+  "communities",
+  "posts",
+  "datasets",
+  "organizations",
+] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export const searchQuerySchema = t.Object({
+  q: t.String({ minLength: 1, maxLength: 200 }),
+  // Comma separated subset of SEARCH_TYPES; every type when omitted
+  type: t.Optional(t.String()),
+  // Community slug, limits results to posts in that community
+  community: t.Optional(t.String()),
+  from: t.Optional(t.String({ format: "date-time" })),
+  to: t.Optional(t.String({ format: "date-time" })),
+  // Comma separated; matches posts and datasets carrying any of the tags
+  tags: t.Optional(t.String()),
+  page: t.Optional(t.String()),
+  limit: t.Optional(t.String()),
+});
+
+export type SearchQueryInput = Static<typeof searchQuerySchema>;
+
+export const autocompleteQuerySchema = t.Object({
+  q: t.String({ minLength: 1, maxLength: 100 }),
+  limit: t.Optional(t.String()),
+});
+
+export interface SearchHistoryOptions {
+  page: number;
+  limit: number;
+}
+
+export type AutocompleteSource =
+  | "history"
+  | "popular"
+  | "user"
+  | "community"
+  | "dataset";
+
+export interface AutocompleteSuggestion {
+  text: string;
+  source: AutocompleteSource;
+  // Set for entity suggestions so clients can link straight to them
+  id?: string;
+}
+
+export interface SearchOptions {
+  query: string;
+  types: SearchType[];
+  communitySlug?: string;
+  from?: Date;
+  to?: Date;
+  tags?: string[];
+  page: number;
+  limit: number;
+}
+
+// A searchable text field and how much a match in it counts
+export interface SearchField {
+  value: string | null | undefined;
+  weight: number;
+}
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  score: number;
+  item: Record<string, unknown>;
+}
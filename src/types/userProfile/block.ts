@@ -0,0 +1,13 @@
+import { Static, t } from "elysia";
+
+export const blockUserSchema = t.Object({
+  // Private note for the blocker, never shown to the blocked user
+  reason: t.Optional(t.String({ maxLength: 500 })),
+});
+
+export type BlockUserInput = Static<typeof blockUserSchema>;
+
+export interface BlockListOptions {
+  page: number;
+  limit: number;
+}
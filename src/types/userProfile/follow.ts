@@ -0,0 +1,16 @@
+export interface FollowListOptions {
+  page: number;
+  limit: number;
+}
+
+export interface FollowRelationship {
+  following: boolean;
+  followedBy: boolean;
+  isMutual: boolean;
+}
+
+// Why a user was suggested, so clients can explain the suggestion
+export interface FollowSuggestionReason {
+  sharedCommunities: number;
+  sharedOrganizations: number;
+}
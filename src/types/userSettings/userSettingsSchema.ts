@@ -9,6 +9,7 @@ export type UserSettingsSchema = {
   avatar?: string;
   language?: string;
   theme?: string;
+  showNSFW?: boolean;
   githubProfileLink?: string;
   xProfileLink?: string;
   discordProfileLink?: string;
@@ -33,6 +34,7 @@ export const userSettingsSchema = t.Object({
   avatar: t.Optional(t.String()),
   language: t.Optional(t.String()),
   theme: t.Optional(t.String()),
+  showNSFW: t.Optional(t.Boolean()),
   githubProfileLink: t.Optional(t.String()),
   xProfileLink: t.Optional(t.String()),
   discordProfileLink: t.Optional(t.String()),
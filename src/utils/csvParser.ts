@@ -0,0 +1,80 @@
+/**
+ * Incremental RFC 4180 parser. Text is pushed in chunks of any size and each
+ * call returns the records completed so far; a record split across chunks is
+ * carried over to the next call. Blank lines are skipped.
+ */
+export class CsvParser {
+  private field = "";
+  private record: string[] = [];
+  private inQuotes = false;
+  // A quote inside a quoted field: either an escaped quote or the closing one
+  private quotePending = false;
+  // A \r was just read, so a following \n belongs to the same line break
+  private afterCarriageReturn = false;
+
+  constructor(private delimiter = ",") {}
+
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+
+    for (const char of chunk) {
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+        } else {
+          if (char === '"') this.quotePending = true;
+          else this.field += char;
+          continue;
+        }
+      }
+
+      if (this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (char === "\n") continue;
+      }
+
+      if (char === '"' && this.field === "") {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.record.push(this.field);
+        this.field = "";
+      } else if (char === "\n" || char === "\r") {
+        this.endRecord(records);
+        this.afterCarriageReturn = char === "\r";
+      } else {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  // Returns the last record when the input does not end with a line break
+  end(): string[][] {
+    const records: string[][] = [];
+    this.inQuotes = false;
+    this.quotePending = false;
+
+    if (this.field || this.record.length) this.endRecord(records);
+    return records;
+  }
+
+  private endRecord(records: string[][]) {
+    this.record.push(this.field);
+    const record = this.record;
+    this.field = "";
+    this.record = [];
+
+    if (record.length > 1 || record[0] !== "") records.push(record);
+  }
+}
+
+export const csvEscape = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,507 @@
+import { ColumnType } from "@/types/dataset/profile";
+
+/**
+ * Minimal reader for the Parquet file footer (FileMetaData), enough to get
+ * the schema, row count and per-column chunk statistics without decoding any
+ * data pages. The footer is Thrift encoded with the compact protocol.
+ */
+
+const MAGIC = "PAR1";
+// Footers beyond this are almost certainly corrupt and not worth buffering
+const MAX_FOOTER_BYTES = 16 * 1024 * 1024;
+
+// Thrift compact protocol type ids
+const THRIFT_TYPES = {
+  STOP: 0,
+  TRUE: 1,
+  FALSE: 2,
+  BYTE: 3,
+  I16: 4,
+  I32: 5,
+  I64: 6,
+  DOUBLE: 7,
+  BINARY: 8,
+  LIST: 9,
+  SET: 10,
+  MAP: 11,
+  STRUCT: 12,
+} as const;
+
+export type ThriftValue =
+  | boolean
+  | number
+  | bigint
+  | Buffer
+  | ThriftValue[]
+  | ThriftStruct;
+
+export interface ThriftStruct {
+  [fieldId: number]: ThriftValue | undefined;
+}
+
+// Parquet physical types
+export const PHYSICAL_TYPES = {
+  BOOLEAN: 0,
+  INT32: 1,
+  INT64: 2,
+  INT96: 3,
+  FLOAT: 4,
+  DOUBLE: 5,
+  BYTE_ARRAY: 6,
+  FIXED_LEN_BYTE_ARRAY: 7,
+} as const;
+
+// Subset of Parquet converted (legacy logical) types we interpret
+export const CONVERTED_TYPES = {
+  UTF8: 0,
+  ENUM: 4,
+  DECIMAL: 5,
+  DATE: 6,
+  TIMESTAMP_MILLIS: 9,
+  TIMESTAMP_MICROS: 10,
+  JSON: 19,
+} as const;
+
+export class CompactReader {
+  private offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  // Bytes consumed so far
+  get position() {
+    return this.offset;
+  }
+
+  private byte() {
+    if (this.offset >= this.buffer.length) {
+      throw new Error("Unexpected end of Parquet footer");
+    }
+    return this.buffer[this.offset++];
+  }
+
+  private varint() {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = this.byte();
+      result |= BigInt(byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return result;
+      shift += 7n;
+    }
+  }
+
+  private zigzag() {
+    const value = this.varint();
+    return (value >> 1n) ^ -(value & 1n);
+  }
+
+  private read(type: number): ThriftValue {
+    switch (type) {
+      case THRIFT_TYPES.TRUE:
+        return true;
+      case THRIFT_TYPES.FALSE:
+        return false;
+      case THRIFT_TYPES.BYTE:
+        return (this.byte() << 24) >> 24;
+      case THRIFT_TYPES.I16:
+      case THRIFT_TYPES.I32:
+        return Number(this.zigzag());
+      case THRIFT_TYPES.I64:
+        return this.zigzag();
+      case THRIFT_TYPES.DOUBLE: {
+        if (this.offset + 8 > this.buffer.length) {
+          throw new Error("Unexpected end of Parquet footer");
+        }
+        const value = this.buffer.readDoubleLE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case THRIFT_TYPES.BINARY: {
+        const length = Number(this.varint());
+        if (this.offset + length > this.buffer.length) {
+          throw new Error("Unexpected end of Parquet footer");
+        }
+        const value = this.buffer.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+      }
+      case THRIFT_TYPES.LIST:
+      case THRIFT_TYPES.SET: {
+        const header = this.byte();
+        const elementType = header & 0x0f;
+        const size = header >> 4 === 0x0f ? Number(this.varint()) : header >> 4;
+        const items: ThriftValue[] = [];
+        for (let i = 0; i < size; i++) {
+          // Booleans in collections take a byte each instead of living in the type
+          items.push(
+            elementType === THRIFT_TYPES.TRUE ||
+              elementType === THRIFT_TYPES.FALSE
+              ? this.byte() === THRIFT_TYPES.TRUE
+              : this.read(elementType)
+          );
+        }
+        return items;
+      }
+      case THRIFT_TYPES.MAP: {
+        const size = Number(this.varint());
+        if (!size) return [];
+        const types = this.byte();
+        const entries: ThriftValue[] = [];
+        for (let i = 0; i < size; i++) {
+          entries.push([this.read(types >> 4), this.read(types & 0x0f)]);
+        }
+        return entries;
+      }
+      case THRIFT_TYPES.STRUCT:
+        return this.readStruct();
+      default:
+        throw new Error(`Unknown Thrift type ${type} in Parquet footer`);
+    }
+  }
+
+  readStruct(): ThriftStruct {
+    const struct: ThriftStruct = {};
+    let fieldId = 0;
+
+    for (;;) {
+      const header = this.byte();
+      if (header === THRIFT_TYPES.STOP) return struct;
+
+      const delta = header >> 4;
+      fieldId = delta ? fieldId + delta : Number(this.zigzag());
+      struct[fieldId] = this.read(header & 0x0f);
+    }
+  }
+}
+
+export interface ParquetColumnStats {
+  name: string;
+  type: ColumnType;
+  nullCount: number | null;
+  distinctCount: number | null;
+  min: number | string | boolean | null;
+  max: number | string | boolean | null;
+}
+
+export interface ParquetFooter {
+  rowCount: number;
+  columns: ParquetColumnStats[];
+}
+
+export interface LeafColumn {
+  path: string;
+  type: ColumnType;
+  physicalType: number;
+  convertedType?: number;
+  logicalType?: ThriftStruct;
+  scale: number;
+  // Byte width of FIXED_LEN_BYTE_ARRAY values
+  typeLength: number;
+  maxDefinitionLevel: number;
+  maxRepetitionLevel: number;
+}
+
+// Where one column of one row group lives in the file
+export interface ParquetColumnChunk {
+  codec: number;
+  numValues: number;
+  start: number;
+  length: number;
+  statistics?: ThriftStruct;
+}
+
+export interface ParquetRowGroup {
+  rowCount: number;
+  chunks: Map<string, ParquetColumnChunk>;
+}
+
+export interface ParquetMetadata {
+  rowCount: number;
+  columns: LeafColumn[];
+  rowGroups: ParquetRowGroup[];
+}
+
+// Field repetition in the schema
+const REPETITION = { REQUIRED: 0, OPTIONAL: 1, REPEATED: 2 } as const;
+
+const text = (value: ThriftValue | undefined) =>
+  Buffer.isBuffer(value) ? value.toString("utf8") : "";
+
+const toNumber = (value: ThriftValue | undefined) =>
+  typeof value === "bigint"
+    ? Number(value)
+    : typeof value === "number"
+    ? value
+    : null;
+
+const columnTypeOf = (
+  column: Pick<LeafColumn, "physicalType" | "convertedType" | "logicalType">
+): ColumnType => {
+  const logical = column.logicalType;
+  if (logical) {
+    // LogicalType is a union; the set field id says which type it is
+    if (logical[1] || logical[4] || logical[14]) return "string";
+    if (logical[12]) return "json";
+    if (logical[5]) return "float";
+    if (logical[6]) return "date";
+    if (logical[8]) return "datetime";
+  }
+
+  switch (column.convertedType) {
+    case CONVERTED_TYPES.UTF8:
+    case CONVERTED_TYPES.ENUM:
+      return "string";
+    case CONVERTED_TYPES.JSON:
+      return "json";
+    case CONVERTED_TYPES.DECIMAL:
+      return "float";
+    case CONVERTED_TYPES.DATE:
+      return "date";
+    case CONVERTED_TYPES.TIMESTAMP_MILLIS:
+    case CONVERTED_TYPES.TIMESTAMP_MICROS:
+      return "datetime";
+  }
+
+  switch (column.physicalType) {
+    case PHYSICAL_TYPES.BOOLEAN:
+      return "boolean";
+    case PHYSICAL_TYPES.INT32:
+    case PHYSICAL_TYPES.INT64:
+      return "integer";
+    case PHYSICAL_TYPES.INT96:
+      return "datetime";
+    case PHYSICAL_TYPES.FLOAT:
+    case PHYSICAL_TYPES.DOUBLE:
+      return "float";
+    default:
+      return "binary";
+  }
+};
+
+// Divisor turning a raw INT64 timestamp into milliseconds
+export const timestampDivisor = (column: LeafColumn) => {
+  const timestamp = column.logicalType?.[8] as ThriftStruct | undefined;
+  // TimeUnit union: 1 millis, 2 micros, 3 nanos
+  const unit = timestamp?.[2] as ThriftStruct | undefined;
+  if (unit?.[2] || column.convertedType === CONVERTED_TYPES.TIMESTAMP_MICROS) {
+    return 1000n;
+  }
+  if (unit?.[3]) return 1000000n;
+  return 1n;
+};
+
+/**
+ * Decodes a plain-encoded statistics value. Returns null for types whose
+ * statistics we cannot present meaningfully, such as INT96 timestamps,
+ * opaque binary and fixed-length decimals.
+ */
+const decodeStatistic = (
+  column: LeafColumn,
+  value: Buffer
+): number | string | boolean | null => {
+  const { type } = column;
+  switch (column.physicalType) {
+    case PHYSICAL_TYPES.BOOLEAN:
+      return value.length ? value[0] !== 0 : null;
+    case PHYSICAL_TYPES.INT32: {
+      if (value.length < 4) return null;
+      const raw = value.readInt32LE(0);
+      if (type === "date") {
+        return new Date(raw * 86_400_000).toISOString().slice(0, 10);
+      }
+      return type === "float" ? raw / 10 ** column.scale : raw;
+    }
+    case PHYSICAL_TYPES.INT64: {
+      if (value.length < 8) return null;
+      const raw = value.readBigInt64LE(0);
+      if (type === "datetime") {
+        const date = new Date(Number(raw / timestampDivisor(column)));
+        return Number.isNaN(date.getTime()) ? null : date.toISOString();
+      }
+      return type === "float" ? Number(raw) / 10 ** column.scale : Number(raw);
+    }
+    case PHYSICAL_TYPES.FLOAT:
+      return value.length < 4 ? null : value.readFloatLE(0);
+    case PHYSICAL_TYPES.DOUBLE:
+      return value.length < 8 ? null : value.readDoubleLE(0);
+    case PHYSICAL_TYPES.BYTE_ARRAY:
+      return type === "string" || type === "json"
+        ? value.toString("utf8")
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Flattens the depth-first schema list into dotted leaf column paths
+const leafColumns = (schema: ThriftStruct[]) => {
+  const leaves: LeafColumn[] = [];
+  let index = 1;
+
+  const walk = (
+    prefix: string[],
+    count: number,
+    definitionLevel: number,
+    repetitionLevel: number
+  ) => {
+    for (let i = 0; i < count && index < schema.length; i++) {
+      const element = schema[index++];
+      const path = [...prefix, text(element[4])];
+      const children = toNumber(element[5]);
+      const repetition = toNumber(element[3]) ?? REPETITION.REQUIRED;
+      const maxDefinitionLevel =
+        definitionLevel + (repetition === REPETITION.REQUIRED ? 0 : 1);
+      const maxRepetitionLevel =
+        repetitionLevel + (repetition === REPETITION.REPEATED ? 1 : 0);
+
+      if (children) {
+        walk(path, children, maxDefinitionLevel, maxRepetitionLevel);
+        continue;
+      }
+
+      const leaf = {
+        path: path.join("."),
+        physicalType: toNumber(element[1]) ?? PHYSICAL_TYPES.BYTE_ARRAY,
+        convertedType: toNumber(element[6]) ?? undefined,
+        logicalType: element[10] as ThriftStruct | undefined,
+        scale: toNumber(element[7]) ?? 0,
+        typeLength: toNumber(element[2]) ?? 0,
+        maxDefinitionLevel,
+        maxRepetitionLevel,
+      };
+      leaves.push({ ...leaf, type: columnTypeOf(leaf) });
+    }
+  };
+
+  walk([], toNumber(schema[0]?.[5]) ?? 0, 0, 0);
+  return leaves;
+};
+
+/**
+ * Reads and decodes the footer through `readRange`, which returns the
+ * inclusive byte range of the file.
+ */
+export const readParquetMetadata = async (
+  size: number,
+  readRange: (start: number, end: number) => Promise<Buffer>
+): Promise<ParquetMetadata> => {
+  if (size < MAGIC.length * 2 + 4) {
+    throw new Error("File is too small to be Parquet");
+  }
+
+  const tail = await readRange(size - 8, size - 1);
+  if (tail.toString("ascii", 4, 8) !== MAGIC) {
+    throw new Error("Missing Parquet magic bytes");
+  }
+
+  const footerLength = tail.readUInt32LE(0);
+  if (footerLength > MAX_FOOTER_BYTES || footerLength > size - 12) {
+    throw new Error("Invalid Parquet footer length");
+  }
+
+  const metadata = new CompactReader(
+    await readRange(size - 8 - footerLength, size - 9)
+  ).readStruct();
+
+  const rowGroups = ((metadata[4] as ThriftStruct[] | undefined) ?? []).map(
+    (rowGroup) => {
+      const chunks = new Map<string, ParquetColumnChunk>();
+
+      for (const chunk of (rowGroup[1] as ThriftStruct[] | undefined) ?? []) {
+        const chunkMetadata = chunk[3] as ThriftStruct | undefined;
+        if (!chunkMetadata) continue;
+
+        const path = ((chunkMetadata[3] as ThriftValue[] | undefined) ?? [])
+          .map(text)
+          .join(".");
+        const dataPageOffset = toNumber(chunkMetadata[9]) ?? 0;
+        const dictionaryPageOffset = toNumber(chunkMetadata[11]);
+
+        chunks.set(path, {
+          codec: toNumber(chunkMetadata[4]) ?? 0,
+          numValues: toNumber(chunkMetadata[5]) ?? 0,
+          // The dictionary page, when there is one, precedes the data pages
+          start:
+            dictionaryPageOffset && dictionaryPageOffset < dataPageOffset
+              ? dictionaryPageOffset
+              : dataPageOffset,
+          length: toNumber(chunkMetadata[7]) ?? 0,
+          statistics: chunkMetadata[12] as ThriftStruct | undefined,
+        });
+      }
+
+      return { rowCount: toNumber(rowGroup[3]) ?? 0, chunks };
+    }
+  );
+
+  return {
+    rowCount: toNumber(metadata[3]) ?? 0,
+    columns: leafColumns((metadata[2] as ThriftStruct[] | undefined) ?? []),
+    rowGroups,
+  };
+};
+
+/**
+ * Reads the footer and merges column chunk statistics across row groups.
+ */
+export const readParquetFooter = async (
+  size: number,
+  readRange: (start: number, end: number) => Promise<Buffer>
+): Promise<ParquetFooter> =>
+  summarizeParquetMetadata(await readParquetMetadata(size, readRange));
+
+// Column chunk statistics merged across row groups
+export const summarizeParquetMetadata = ({
+  rowCount,
+  columns,
+  rowGroups,
+}: ParquetMetadata): ParquetFooter => {
+  const stats = columns.map(
+    (column): ParquetColumnStats => ({
+      name: column.path,
+      type: column.type,
+      nullCount: rowGroups.length ? 0 : null,
+      // Only meaningful when a single chunk covers the whole column
+      distinctCount: null,
+      min: null,
+      max: null,
+    })
+  );
+
+  for (const rowGroup of rowGroups) {
+    columns.forEach((column, i) => {
+      const columnStats = stats[i];
+      const statistics = rowGroup.chunks.get(column.path)?.statistics;
+
+      const nullCount = toNumber(statistics?.[3]);
+      columnStats.nullCount =
+        columnStats.nullCount === null || nullCount === null
+          ? null
+          : columnStats.nullCount + nullCount;
+
+      if (rowGroups.length === 1) {
+        columnStats.distinctCount = toNumber(statistics?.[4]);
+      }
+
+      // The deprecated min/max (fields 1 and 2) used signed byte ordering,
+      // which is only wrong for byte arrays
+      const legacyAllowed = column.physicalType !== PHYSICAL_TYPES.BYTE_ARRAY;
+      const rawMin = (statistics?.[6] ??
+        (legacyAllowed ? statistics?.[2] : undefined)) as Buffer | undefined;
+      const rawMax = (statistics?.[5] ??
+        (legacyAllowed ? statistics?.[1] : undefined)) as Buffer | undefined;
+
+      const min = rawMin ? decodeStatistic(column, rawMin) : null;
+      const max = rawMax ? decodeStatistic(column, rawMax) : null;
+
+      if (min !== null && (columnStats.min === null || min < columnStats.min)) {
+        columnStats.min = min;
+      }
+      if (max !== null && (columnStats.max === null || max > columnStats.max)) {
+        columnStats.max = max;
+      }
+    });
+  }
+
+  return { rowCount, columns: stats };
+};
@@ -0,0 +1,467 @@
+import zlib from "zlib";
+import {
+  CompactReader,
+  LeafColumn,
+  ParquetColumnChunk,
+  PHYSICAL_TYPES,
+  ThriftStruct,
+  ThriftValue,
+  timestampDivisor,
+} from "./parquetFooter";
+
+/**
+ * Decodes Parquet data pages for flat (non-repeated) columns. Covers what
+ * common writers produce by default: data page v1 and v2, PLAIN and
+ * dictionary encodings, and uncompressed, Snappy, gzip or Brotli pages.
+ */
+
+const PAGE_TYPES = {
+  DATA_PAGE: 0,
+  DICTIONARY_PAGE: 2,
+  DATA_PAGE_V2: 3,
+} as const;
+
+const ENCODINGS = {
+  PLAIN: 0,
+  PLAIN_DICTIONARY: 2,
+  RLE: 3,
+  RLE_DICTIONARY: 8,
+} as const;
+
+const CODECS = {
+  UNCOMPRESSED: 0,
+  SNAPPY: 1,
+  GZIP: 2,
+  BROTLI: 4,
+} as const;
+
+// Upper bound on one decompressed page whatever its header claims; writers
+// default to pages of about 1MB
+const MAX_PAGE_BYTES = 64 * 1024 * 1024;
+
+// Days between the Julian day epoch and the Unix epoch, for INT96 timestamps
+const JULIAN_UNIX_EPOCH_DAYS = 2_440_588;
+const DAY_MS = 86_400_000;
+
+type PrimitiveValue = boolean | number | bigint | Buffer;
+
+export type ParquetCellValue = boolean | number | string | null;
+
+export const isReadableColumn = (column: LeafColumn) =>
+  column.maxRepetitionLevel === 0;
+
+const truncated = (): never => {
+  throw new Error("Parquet page is truncated");
+};
+
+// Sizes and counts come from the file, so every read is bounds checked
+const ensureAvailable = (buffer: Buffer, offset: number, length: number) => {
+  if (offset + length > buffer.length) truncated();
+};
+
+const snappyDecompress = (input: Buffer, maxLength: number) => {
+  let offset = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    if (offset >= input.length || shift > 28) {
+      throw new Error("Corrupt Snappy page");
+    }
+    const byte = input[offset++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if (!(byte & 0x80)) break;
+  }
+  if (length > maxLength) {
+    throw new Error("Snappy page is larger than its header allows");
+  }
+
+  const output = Buffer.alloc(length);
+  let position = 0;
+
+  while (offset < input.length) {
+    const tag = input[offset++];
+
+    if ((tag & 0x03) === 0) {
+      let literalLength = tag >> 2;
+      if (literalLength >= 60) {
+        const bytes = literalLength - 59;
+        ensureAvailable(input, offset, bytes);
+        literalLength = input.readUIntLE(offset, bytes);
+        offset += bytes;
+      }
+      literalLength++;
+      ensureAvailable(input, offset, literalLength);
+      if (position + literalLength > length) {
+        throw new Error("Corrupt Snappy page");
+      }
+      input.copy(output, position, offset, offset + literalLength);
+      offset += literalLength;
+      position += literalLength;
+      continue;
+    }
+
+    let copyLength: number;
+    let copyOffset: number;
+    ensureAvailable(input, offset, [0, 1, 2, 4][tag & 0x03]);
+    if ((tag & 0x03) === 1) {
+      copyLength = ((tag >> 2) & 0x07) + 4;
+      copyOffset = ((tag >> 5) << 8) | input[offset++];
+    } else if ((tag & 0x03) === 2) {
+      copyLength = (tag >> 2) + 1;
+      copyOffset = input.readUInt16LE(offset);
+      offset += 2;
+    } else {
+      copyLength = (tag >> 2) + 1;
+      copyOffset = input.readUInt32LE(offset);
+      offset += 4;
+    }
+
+    if (
+      !copyOffset ||
+      copyOffset > position ||
+      position + copyLength > length
+    ) {
+      throw new Error("Corrupt Snappy page");
+    }
+    // Copies may overlap their own output, so go byte by byte
+    for (let i = 0; i < copyLength; i++) {
+      output[position] = output[position - copyOffset];
+      position++;
+    }
+  }
+
+  return output;
+};
+
+// Output is capped at the size the page header declares
+const decompress = (codec: number, data: Buffer, uncompressedSize: number) => {
+  const maxOutputLength = Math.min(
+    Math.max(uncompressedSize, 0),
+    MAX_PAGE_BYTES
+  );
+
+  switch (codec) {
+    case CODECS.UNCOMPRESSED:
+      if (data.length > maxOutputLength) {
+        throw new Error("Parquet page is larger than its header allows");
+      }
+      return data;
+    case CODECS.SNAPPY:
+      return snappyDecompress(data, maxOutputLength);
+    case CODECS.GZIP:
+      return zlib.gunzipSync(data, { maxOutputLength });
+    case CODECS.BROTLI:
+      return zlib.brotliDecompressSync(data, { maxOutputLength });
+    default:
+      throw new Error(`Unsupported Parquet compression codec ${codec}`);
+  }
+};
+
+const bitWidthOf = (maxValue: number) => 32 - Math.clz32(maxValue);
+
+// RLE / bit-packed hybrid encoding, used for levels and dictionary indices
+const decodeHybrid = (buffer: Buffer, bitWidth: number, count: number) => {
+  const values: number[] = [];
+  const byteWidth = Math.ceil(bitWidth / 8);
+  let offset = 0;
+
+  while (values.length < count && offset < buffer.length) {
+    let header = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (offset >= buffer.length || shift > 28) truncated();
+      const byte = buffer[offset++];
+      header += (byte & 0x7f) * 2 ** shift;
+      if (!(byte & 0x80)) break;
+    }
+
+    if (header % 2) {
+      // Bit-packed groups of eight values, least significant bit first
+      const groups = Math.floor(header / 2);
+      ensureAvailable(buffer, offset, groups * bitWidth);
+      const start = offset * 8;
+      for (let i = 0; i < groups * 8 && values.length < count; i++) {
+        let value = 0;
+        for (let bit = 0; bit < bitWidth; bit++) {
+          const position = start + i * bitWidth + bit;
+          value |= ((buffer[position >> 3] >> (position & 7)) & 1) << bit;
+        }
+        values.push(value);
+      }
+      offset += groups * bitWidth;
+    } else {
+      const run = Math.floor(header / 2);
+      ensureAvailable(buffer, offset, byteWidth);
+      const value = byteWidth ? buffer.readUIntLE(offset, byteWidth) : 0;
+      offset += byteWidth;
+      for (let i = 0; i < run && values.length < count; i++) {
+        values.push(value);
+      }
+    }
+  }
+
+  return values;
+};
+
+const decodePlain = (
+  column: LeafColumn,
+  buffer: Buffer,
+  count: number
+): PrimitiveValue[] => {
+  const values: PrimitiveValue[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    switch (column.physicalType) {
+      case PHYSICAL_TYPES.BOOLEAN:
+        ensureAvailable(buffer, i >> 3, 1);
+        values.push(((buffer[i >> 3] >> (i & 7)) & 1) === 1);
+        break;
+      case PHYSICAL_TYPES.INT32:
+        values.push(buffer.readInt32LE(offset));
+        offset += 4;
+        break;
+      case PHYSICAL_TYPES.INT64:
+        values.push(buffer.readBigInt64LE(offset));
+        offset += 8;
+        break;
+      case PHYSICAL_TYPES.INT96:
+        ensureAvailable(buffer, offset, 12);
+        values.push(buffer.subarray(offset, offset + 12));
+        offset += 12;
+        break;
+      case PHYSICAL_TYPES.FLOAT:
+        values.push(buffer.readFloatLE(offset));
+        offset += 4;
+        break;
+      case PHYSICAL_TYPES.DOUBLE:
+        values.push(buffer.readDoubleLE(offset));
+        offset += 8;
+        break;
+      case PHYSICAL_TYPES.BYTE_ARRAY: {
+        ensureAvailable(buffer, offset, 4);
+        const length = buffer.readUInt32LE(offset);
+        ensureAvailable(buffer, offset + 4, length);
+        values.push(buffer.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+        break;
+      }
+      default:
+        ensureAvailable(buffer, offset, column.typeLength);
+        values.push(buffer.subarray(offset, offset + column.typeLength));
+        offset += column.typeLength;
+    }
+  }
+
+  return values;
+};
+
+// Big-endian two's complement, as used by byte array decimals
+const bigIntFromBytes = (bytes: Buffer) => {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  const bits = BigInt(bytes.length * 8);
+  return bytes.length && bytes[0] & 0x80 ? value - (1n << bits) : value;
+};
+
+// Turns a decoded primitive into something JSON can carry
+const present = (
+  column: LeafColumn,
+  value: PrimitiveValue
+): ParquetCellValue => {
+  switch (column.type) {
+    case "string":
+    case "json":
+      return Buffer.isBuffer(value) ? value.toString("utf8") : String(value);
+    case "date":
+      return typeof value === "number"
+        ? new Date(value * DAY_MS).toISOString().slice(0, 10)
+        : null;
+    case "datetime": {
+      let millis: number | null = null;
+      if (typeof value === "bigint") {
+        millis = Number(value / timestampDivisor(column));
+      } else if (Buffer.isBuffer(value) && value.length === 12) {
+        const nanos = value.readBigInt64LE(0);
+        const julianDay = value.readInt32LE(8);
+        millis =
+          (julianDay - JULIAN_UNIX_EPOCH_DAYS) * DAY_MS +
+          Number(nanos / 1_000_000n);
+      }
+      const date = millis === null ? null : new Date(millis);
+      return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+    }
+    case "float":
+      if (typeof value === "number") {
+        return column.scale ? value / 10 ** column.scale : value;
+      }
+      if (typeof value === "bigint") return Number(value) / 10 ** column.scale;
+      if (Buffer.isBuffer(value)) {
+        return Number(bigIntFromBytes(value)) / 10 ** column.scale;
+      }
+      return null;
+  }
+
+  if (typeof value === "bigint") {
+    return Number.isSafeInteger(Number(value))
+      ? Number(value)
+      : value.toString();
+  }
+  if (Buffer.isBuffer(value)) return value.toString("base64");
+  return value;
+};
+
+const decodeValues = (
+  column: LeafColumn,
+  encoding: number,
+  buffer: Buffer,
+  count: number,
+  dictionary: PrimitiveValue[] | null
+): PrimitiveValue[] => {
+  switch (encoding) {
+    case ENCODINGS.PLAIN:
+      return decodePlain(column, buffer, count);
+    case ENCODINGS.PLAIN_DICTIONARY:
+    case ENCODINGS.RLE_DICTIONARY: {
+      if (!dictionary) throw new Error("Parquet dictionary page is missing");
+      return decodeHybrid(buffer.subarray(1), buffer[0], count).map(
+        (index) => dictionary[index]
+      );
+    }
+    case ENCODINGS.RLE:
+      if (column.physicalType === PHYSICAL_TYPES.BOOLEAN) {
+        ensureAvailable(buffer, 0, 4);
+        const length = buffer.readUInt32LE(0);
+        return decodeHybrid(buffer.subarray(4, 4 + length), 1, count).map(
+          (value) => value === 1
+        );
+      }
+  }
+
+  throw new Error(`Unsupported Parquet encoding ${encoding}`);
+};
+
+/**
+ * Decodes the first `maxRows` values of one column chunk; `buffer` holds the
+ * bytes from `chunk.start` for `chunk.length`. Nulls come back as null.
+ */
+export const decodeColumnChunk = (
+  column: LeafColumn,
+  chunk: ParquetColumnChunk,
+  buffer: Buffer,
+  maxRows: number
+): ParquetCellValue[] => {
+  if (!isReadableColumn(column)) {
+    throw new Error(`Repeated column ${column.path} is not supported`);
+  }
+
+  const values: ParquetCellValue[] = [];
+  const levelWidth = bitWidthOf(column.maxDefinitionLevel);
+  const rowLimit = Math.min(maxRows, chunk.numValues);
+  let dictionary: PrimitiveValue[] | null = null;
+  let offset = 0;
+
+  // A page never needs more values than the rows still wanted
+  const pageCount = (value: ThriftValue | undefined) =>
+    Math.min(
+      typeof value === "number" && value > 0 ? value : 0,
+      rowLimit - values.length
+    );
+
+  while (offset < buffer.length && values.length < rowLimit) {
+    const reader = new CompactReader(buffer.subarray(offset));
+    const header = reader.readStruct();
+    offset += reader.position;
+
+    const uncompressedSize = (header[2] as number | undefined) ?? 0;
+    const compressedSize = (header[3] as number | undefined) ?? 0;
+    ensureAvailable(buffer, offset, compressedSize);
+    const page = buffer.subarray(offset, offset + compressedSize);
+    offset += compressedSize;
+
+    const pageType = header[1] as number | undefined;
+
+    if (pageType === PAGE_TYPES.DICTIONARY_PAGE) {
+      const dictionaryHeader = header[7] as ThriftStruct;
+      const dictionaryData = decompress(chunk.codec, page, uncompressedSize);
+      // Every entry takes at least a byte; booleans are never dictionary encoded
+      dictionary = decodePlain(
+        column,
+        dictionaryData,
+        Math.min(
+          (dictionaryHeader[1] as number | undefined) ?? 0,
+          dictionaryData.length
+        )
+      );
+      continue;
+    }
+
+    let count: number;
+    let encoding: number;
+    let levels: number[] | null = null;
+    let data: Buffer;
+
+    if (pageType === PAGE_TYPES.DATA_PAGE) {
+      const dataHeader = header[5] as ThriftStruct;
+      count = pageCount(dataHeader[1]);
+      encoding = (dataHeader[2] as number | undefined) ?? ENCODINGS.PLAIN;
+      data = decompress(chunk.codec, page, uncompressedSize);
+
+      if (column.maxDefinitionLevel) {
+        ensureAvailable(data, 0, 4);
+        const length = data.readUInt32LE(0);
+        levels = decodeHybrid(data.subarray(4, 4 + length), levelWidth, count);
+        data = data.subarray(4 + length);
+      }
+    } else if (pageType === PAGE_TYPES.DATA_PAGE_V2) {
+      const dataHeader = header[8] as ThriftStruct;
+      count = pageCount(dataHeader[1]);
+      encoding = (dataHeader[4] as number | undefined) ?? ENCODINGS.PLAIN;
+      const definitionLength = (dataHeader[5] as number | undefined) ?? 0;
+      const repetitionLength = (dataHeader[6] as number | undefined) ?? 0;
+      const levelsEnd = repetitionLength + definitionLength;
+      ensureAvailable(page, 0, levelsEnd);
+
+      // Levels are never compressed in v2 pages
+      if (column.maxDefinitionLevel) {
+        levels = decodeHybrid(
+          page.subarray(repetitionLength, levelsEnd),
+          levelWidth,
+          count
+        );
+      }
+      data =
+        dataHeader[7] === false
+          ? page.subarray(levelsEnd)
+          : decompress(
+              chunk.codec,
+              page.subarray(levelsEnd),
+              uncompressedSize - levelsEnd
+            );
+    } else {
+      // Index pages carry nothing we need
+      continue;
+    }
+
+    // Only values at the max definition level are stored in the page
+    const storedCount = levels
+      ? levels.filter((level) => level === column.maxDefinitionLevel).length
+      : count;
+    const decoded = decodeValues(
+      column,
+      encoding,
+      data,
+      storedCount,
+      dictionary
+    );
+
+    let next = 0;
+    for (let i = 0; i < count && values.length < maxRows; i++) {
+      values.push(
+        !levels || levels[i] === column.maxDefinitionLevel
+          ? present(column, decoded[next++])
+          : null
+      );
+    }
+  }
+
+  return values;
+};
@@ -0,0 +1,504 @@
+import { AppError } from "./errorHandler";
+import {
+  BinaryOperator,
+  OrderItem,
+  ParsedQuery,
+  QueryExpression,
+  SelectItem,
+} from "@/types/dataset/query";
+
+/**
+ * Parser for the restricted SQL dialect accepted by dataset queries:
+ *
+ *   SELECT expr [AS alias], ... | *
+ *   [FROM file] [WHERE expr] [GROUP BY expr, ...]
+ *   [ORDER BY expr [ASC|DESC], ...] [LIMIT n]
+ *
+ * Expressions support literals, columns, arithmetic, comparisons, AND/OR/NOT,
+ * IS [NOT] NULL, [NOT] IN (...), [NOT] LIKE, scalar functions and the
+ * COUNT/SUM/AVG/MIN/MAX aggregates. There are no joins or subqueries.
+ */
+
+export const AGGREGATE_FUNCTIONS = new Set([
+  "COUNT",
+  "SUM",
+  "AVG",
+  "MIN",
+  "MAX",
+]);
+
+// Name -> allowed argument counts
+export const SCALAR_FUNCTIONS: Record<string, [number, number]> = {
+  LOWER: [1, 1],
+  UPPER: [1, 1],
+  LENGTH: [1, 1],
+  ABS: [1, 1],
+  ROUND: [1, 2],
+  COALESCE: [1, 16],
+};
+
+const KEYWORDS = new Set([
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "BY",
+  "ORDER",
+  "ASC",
+  "DESC",
+  "LIMIT",
+  "AND",
+  "OR",
+  "NOT",
+  "AS",
+  "IS",
+  "NULL",
+  "IN",
+  "LIKE",
+  "TRUE",
+  "FALSE",
+]);
+
+const COMPARISON_OPERATORS = new Set(["=", "!=", "<>", "<", "<=", ">", ">="]);
+
+interface Token {
+  type: "number" | "string" | "identifier" | "keyword" | "operator" | "end";
+  value: string;
+  position: number;
+}
+
+const syntaxError = (message: string, token?: Token) =>
+  new AppError(
+    token ? `${message} at position ${token.position + 1}` : message,
+    400
+  );
+
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (sql.startsWith("--", i)) {
+      while (i < sql.length && sql[i] !== "\n") i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(sql.slice(i));
+    if (number) {
+      tokens.push({ type: "number", value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    // Strings use single quotes, identifiers double quotes or backticks;
+    // the quote is escaped by doubling it
+    if (char === "'" || char === '"' || char === "`") {
+      const start = i;
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= sql.length) {
+          throw syntaxError(
+            `Unterminated quote starting at position ${start + 1}`
+          );
+        }
+        if (sql[i] === char) {
+          if (sql[i + 1] === char) {
+            value += char;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({
+        type: char === "'" ? "string" : "identifier",
+        value,
+        position: start,
+      });
+      continue;
+    }
+
+    // Dots are part of identifiers so nested Parquet paths and file names
+    // such as train.csv can be written bare
+    const word = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(sql.slice(i));
+    if (word) {
+      const upper = word[0].toUpperCase();
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { type: "keyword", value: upper, position: i }
+          : { type: "identifier", value: word[0], position: i }
+      );
+      i += word[0].length;
+      continue;
+    }
+
+    const operator = /^(<=|>=|<>|!=|[=<>+\-*/(),])/.exec(sql.slice(i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator[0], position: i });
+      i += operator[0].length;
+      continue;
+    }
+
+    throw syntaxError(`Unexpected character "${char}" at position ${i + 1}`);
+  }
+
+  tokens.push({ type: "end", value: "", position: sql.length });
+  return tokens;
+};
+
+// Canonical text of an expression, used for default column names and to
+// match select expressions against GROUP BY
+export const formatExpression = (expression: QueryExpression): string => {
+  switch (expression.kind) {
+    case "literal":
+      return typeof expression.value === "string"
+        ? `'${expression.value.replace(/'/g, "''")}'`
+        : String(expression.value).toUpperCase();
+    case "column":
+      return expression.name;
+    case "unary":
+      return expression.operator === "NOT"
+        ? `NOT ${formatExpression(expression.operand)}`
+        : `-${formatExpression(expression.operand)}`;
+    case "binary":
+      return `(${formatExpression(expression.left)} ${
+        expression.operator
+      } ${formatExpression(expression.right)})`;
+    case "isNull":
+      return `${formatExpression(expression.operand)} IS ${
+        expression.negated ? "NOT " : ""
+      }NULL`;
+    case "in":
+      return `${formatExpression(expression.operand)} ${
+        expression.negated ? "NOT " : ""
+      }IN (${expression.values.map(formatExpression).join(", ")})`;
+    case "like":
+      return `${formatExpression(expression.operand)} ${
+        expression.negated ? "NOT " : ""
+      }LIKE ${formatExpression(expression.pattern)}`;
+    case "call":
+      return `${expression.name}(${
+        expression.args.length
+          ? expression.args.map(formatExpression).join(", ")
+          : "*"
+      })`;
+  }
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private get current() {
+    return this.tokens[this.index];
+  }
+
+  private advance() {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(...keywords: string[]) {
+    return (
+      this.current.type === "keyword" && keywords.includes(this.current.value)
+    );
+  }
+
+  private isOperator(...operators: string[]) {
+    return (
+      this.current.type === "operator" && operators.includes(this.current.value)
+    );
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.isKeyword(keyword)) {
+      throw syntaxError(`Expected ${keyword}`, this.current);
+    }
+    this.advance();
+  }
+
+  private expectOperator(operator: string) {
+    if (!this.isOperator(operator)) {
+      throw syntaxError(`Expected "${operator}"`, this.current);
+    }
+    this.advance();
+  }
+
+  parseQuery(): ParsedQuery {
+    this.expectKeyword("SELECT");
+
+    let select: SelectItem[] | null = null;
+    if (this.isOperator("*")) {
+      this.advance();
+    } else {
+      select = this.parseList(() => this.parseSelectItem());
+    }
+
+    let from: string | undefined;
+    if (this.isKeyword("FROM")) {
+      this.advance();
+      const token = this.advance();
+      if (token.type !== "identifier" && token.type !== "string") {
+        throw syntaxError("Expected a file name after FROM", token);
+      }
+      from = token.value;
+    }
+
+    let where: QueryExpression | undefined;
+    if (this.isKeyword("WHERE")) {
+      this.advance();
+      where = this.parseExpression();
+    }
+
+    let groupBy: QueryExpression[] = [];
+    if (this.isKeyword("GROUP")) {
+      this.advance();
+      this.expectKeyword("BY");
+      groupBy = this.parseList(() => this.parseExpression());
+    }
+
+    let orderBy: OrderItem[] = [];
+    if (this.isKeyword("ORDER")) {
+      this.advance();
+      this.expectKeyword("BY");
+      orderBy = this.parseList(() => {
+        const expression = this.parseExpression();
+        let descending = false;
+        if (this.isKeyword("ASC", "DESC")) {
+          descending = this.advance().value === "DESC";
+        }
+        return { expression, descending };
+      });
+    }
+
+    let limit: number | undefined;
+    if (this.isKeyword("LIMIT")) {
+      this.advance();
+      const token = this.advance();
+      if (token.type !== "number" || !/^\d+$/.test(token.value)) {
+        throw syntaxError("LIMIT must be a whole number", token);
+      }
+      limit = Number(token.value);
+    }
+
+    if (this.current.type !== "end") {
+      throw syntaxError(`Unexpected "${this.current.value}"`, this.current);
+    }
+
+    return { select, from, where, groupBy, orderBy, limit };
+  }
+
+  private parseList<T>(parseItem: () => T) {
+    const items = [parseItem()];
+    while (this.isOperator(",")) {
+      this.advance();
+      items.push(parseItem());
+    }
+    return items;
+  }
+
+  private parseSelectItem(): SelectItem {
+    const expression = this.parseExpression();
+    let alias = formatExpression(expression);
+
+    if (this.isKeyword("AS")) {
+      this.advance();
+      const token = this.advance();
+      if (token.type !== "identifier") {
+        throw syntaxError("Expected an alias after AS", token);
+      }
+      alias = token.value;
+    } else if (this.current.type === "identifier") {
+      alias = this.advance().value;
+    }
+
+    return { expression, alias };
+  }
+
+  private parseExpression(): QueryExpression {
+    return this.parseOr();
+  }
+
+  private parseOr(): QueryExpression {
+    let left = this.parseAnd();
+    while (this.isKeyword("OR")) {
+      this.advance();
+      left = { kind: "binary", operator: "OR", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): QueryExpression {
+    let left = this.parseNot();
+    while (this.isKeyword("AND")) {
+      this.advance();
+      left = { kind: "binary", operator: "AND", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): QueryExpression {
+    if (this.isKeyword("NOT")) {
+      this.advance();
+      return { kind: "unary", operator: "NOT", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): QueryExpression {
+    const left = this.parseAdditive();
+
+    if (
+      this.current.type === "operator" &&
+      COMPARISON_OPERATORS.has(this.current.value)
+    ) {
+      const value = this.advance().value;
+      return {
+        kind: "binary",
+        operator: (value === "<>" ? "!=" : value) as BinaryOperator,
+        left,
+        right: this.parseAdditive(),
+      };
+    }
+
+    if (this.isKeyword("IS")) {
+      this.advance();
+      const negated = this.isKeyword("NOT");
+      if (negated) this.advance();
+      this.expectKeyword("NULL");
+      return { kind: "isNull", operand: left, negated };
+    }
+
+    const negated = this.isKeyword("NOT");
+    if (negated) this.advance();
+
+    if (this.isKeyword("IN")) {
+      this.advance();
+      this.expectOperator("(");
+      const values = this.parseList(() => this.parseAdditive());
+      this.expectOperator(")");
+      return { kind: "in", operand: left, values, negated };
+    }
+
+    if (this.isKeyword("LIKE")) {
+      this.advance();
+      return {
+        kind: "like",
+        operand: left,
+        pattern: this.parseAdditive(),
+        negated,
+      };
+    }
+
+    if (negated) throw syntaxError("Expected IN or LIKE", this.current);
+    return left;
+  }
+
+  private parseAdditive(): QueryExpression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator("+", "-")) {
+      const operator = this.advance().value as BinaryOperator;
+      left = {
+        kind: "binary",
+        operator,
+        left,
+        right: this.parseMultiplicative(),
+      };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): QueryExpression {
+    let left = this.parseUnary();
+    while (this.isOperator("*", "/")) {
+      const operator = this.advance().value as BinaryOperator;
+      left = { kind: "binary", operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): QueryExpression {
+    if (this.isOperator("-")) {
+      this.advance();
+      return { kind: "unary", operator: "-", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryExpression {
+    const token = this.advance();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "keyword":
+        if (token.value === "NULL") return { kind: "literal", value: null };
+        if (token.value === "TRUE") return { kind: "literal", value: true };
+        if (token.value === "FALSE") return { kind: "literal", value: false };
+        break;
+      case "operator":
+        if (token.value === "(") {
+          const expression = this.parseExpression();
+          this.expectOperator(")");
+          return expression;
+        }
+        break;
+      case "identifier":
+        if (this.isOperator("(")) return this.parseCall(token);
+        return { kind: "column", name: token.value };
+    }
+
+    throw syntaxError(
+      token.type === "end"
+        ? "Unexpected end of query"
+        : `Unexpected "${token.value}"`,
+      token
+    );
+  }
+
+  private parseCall(nameToken: Token): QueryExpression {
+    const name = nameToken.value.toUpperCase();
+    this.expectOperator("(");
+
+    let args: QueryExpression[] = [];
+    if (name === "COUNT" && this.isOperator("*")) {
+      this.advance();
+    } else {
+      args = this.parseList(() => this.parseExpression());
+    }
+    this.expectOperator(")");
+
+    if (AGGREGATE_FUNCTIONS.has(name)) {
+      if (name !== "COUNT" && args.length !== 1) {
+        throw syntaxError(`${name} takes one argument`, nameToken);
+      }
+      if (name === "COUNT" && args.length > 1) {
+        throw syntaxError("COUNT takes one argument or *", nameToken);
+      }
+    } else if (name in SCALAR_FUNCTIONS) {
+      const [min, max] = SCALAR_FUNCTIONS[name];
+      if (args.length < min || args.length > max) {
+        throw syntaxError(`Wrong number of arguments for ${name}`, nameToken);
+      }
+    } else {
+      throw syntaxError(`Unknown function ${nameToken.value}`, nameToken);
+    }
+
+    return { kind: "call", name, args };
+  }
+}
+
+export const parseQuery = (sql: string): ParsedQuery =>
+  new Parser(tokenize(sql)).parseQuery();
@@ -281,6 +281,8 @@ export const validation = {
 
   isValidEmail: (email: string): boolean => EMAIL_REGEX.test(email),
 
+  isValidObjectId: (id: string): boolean => /^[a-fA-F0-9]{24}$/.test(id),
+
   isValidUsername: (username: string): boolean =>
     /^[a-zA-Z0-9_-]{3,30}$/.test(username),
 
@@ -0,0 +1,170 @@
+import { expect, test, describe } from "bun:test";
+import "./mocks";
+
+const { AutoModService } = await import("../src/services/autoModService");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const subject = (overrides: Record<string, unknown> = {}) => ({
+  kind: "post" as const,
+  id: "post",
+  communityId: "community",
+  authorId: "author",
+  title: "Selling cheap tokens",
+  content: "Visit example.com for a great deal",
+  url: null,
+  createdAt: new Date("2024-06-10"),
+  author: {
+    createdAt: new Date("2024-06-08"),
+    reputation: 5,
+    communityReputation: 1,
+  },
+  ...overrides,
+});
+
+const matches = (type: string, config: unknown, overrides = {}) =>
+  AutoModService.matches(
+    AutoModService.parseCondition(type, config),
+    subject(overrides)
+  );
+
+describe("AutoModService.parseCondition", () => {
+  test("normalizes keyword rules", () => {
+    expect(
+      AutoModService.parseCondition("keyword", {
+        keywords: ["  spam "],
+        fields: ["title", "title"],
+      })
+    ).toEqual({
+      type: "keyword",
+      config: {
+        keywords: ["spam"],
+        fields: ["title"],
+        caseSensitive: undefined,
+        wholeWord: undefined,
+      },
+    });
+  });
+
+  test("parses nested combinators", () => {
+    const condition = AutoModService.parseCondition("all", {
+      conditions: [
+        { type: "user_age", config: { minDays: 7 } },
+        {
+          type: "not",
+          config: {
+            condition: { type: "karma_threshold", config: { minKarma: 0 } },
+          },
+        },
+      ],
+    });
+
+    expect(condition.type).toBe("all");
+  });
+
+  test.each([
+    ["unknown", {}, 'unknown rule type "unknown"'],
+    ["keyword", { keywords: [] }, "keywords must be 1-200 non-empty strings"],
+    ["keyword", { keywords: ["a"], fields: ["body"] }, "fields must be a list"],
+    ["regex", { pattern: "" }, "pattern must be a string"],
+    ["regex", { pattern: "a", flags: "g" }, "flags may only contain"],
+    ["regex", { pattern: "(a)\\1" }, "pattern is not supported"],
+    ["regex", { pattern: "a(?=b)" }, "pattern is not supported"],
+    ["user_age", { minDays: -1 }, "minDays must be a non-negative number"],
+    ["karma_threshold", { minKarma: 1, scope: "site" }, "scope must be"],
+    ["any", { conditions: [] }, "any needs 1-20 conditions"],
+    ["not", { condition: "user_age" }, "not needs a condition"],
+  ])("rejects %s %j", (type, config, message) => {
+    expect(() => AutoModService.parseCondition(type, config)).toThrow(message);
+  });
+
+  test("rejects conditions nested too deeply", () => {
+    let config: Record<string, unknown> = { minDays: 1 };
+    let type = "user_age";
+    for (let i = 0; i < 7; i++) {
+      config = { condition: { type, config } };
+      type = "not";
+    }
+
+    expect(() => AutoModService.parseCondition(type, config)).toThrow(
+      "conditions are nested too deeply"
+    );
+  });
+});
+
+describe("AutoModService.matches", () => {
+  test("matches keywords case-insensitively unless asked not to", () => {
+    expect(matches("keyword", { keywords: ["CHEAP"] })).toBe(true);
+    expect(
+      matches("keyword", { keywords: ["CHEAP"], caseSensitive: true })
+    ).toBe(false);
+  });
+
+  test("matches whole words only when asked to", () => {
+    expect(matches("keyword", { keywords: ["token"] })).toBe(true);
+    expect(matches("keyword", { keywords: ["token"], wholeWord: true })).toBe(
+      false
+    );
+  });
+
+  test("only reads the configured fields", () => {
+    expect(
+      matches("keyword", { keywords: ["example.com"], fields: ["title"] })
+    ).toBe(false);
+    expect(
+      matches("keyword", { keywords: ["example.com"], fields: ["content"] })
+    ).toBe(true);
+  });
+
+  test("matches regex rules with flags", () => {
+    expect(matches("regex", { pattern: "^selling" })).toBe(false);
+    expect(matches("regex", { pattern: "^selling", flags: "i" })).toBe(true);
+    expect(matches("regex", { pattern: "^visit", flags: "im" })).toBe(true);
+  });
+
+  test("runs patterns that backtrack badly in linear time", () => {
+    const started = Date.now();
+
+    expect(
+      matches(
+        "regex",
+        { pattern: "(a+)+$" },
+        { content: `${"a".repeat(30_000)}!` }
+      )
+    ).toBe(false);
+    expect(
+      matches("regex", { pattern: ".*.*=.*x" }, { content: "=".repeat(60_000) })
+    ).toBe(false);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  test("compares account age at the time the content was written", () => {
+    expect(matches("user_age", { minDays: 3 })).toBe(true);
+    expect(matches("user_age", { minDays: 2 })).toBe(false);
+    expect(
+      matches(
+        "user_age",
+        { minDays: 3 },
+        { createdAt: new Date(Date.parse("2024-06-08") + 5 * DAY_MS) }
+      )
+    ).toBe(false);
+  });
+
+  test("checks global or community karma", () => {
+    expect(matches("karma_threshold", { minKarma: 3 })).toBe(false);
+    expect(
+      matches("karma_threshold", { minKarma: 3, scope: "community" })
+    ).toBe(true);
+  });
+
+  test("combines conditions", () => {
+    const young = { type: "user_age", config: { minDays: 3 } };
+    const rich = { type: "karma_threshold", config: { minKarma: 100 } };
+    const spammy = { type: "keyword", config: { keywords: ["casino"] } };
+
+    expect(matches("all", { conditions: [young, rich] })).toBe(true);
+    expect(matches("all", { conditions: [young, spammy] })).toBe(false);
+    expect(matches("any", { conditions: [spammy, young] })).toBe(true);
+    expect(matches("not", { condition: spammy })).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { expect, test, describe, beforeEach, afterEach, spyOn } from "bun:test";
+import "./mocks";
+
+const { JsonRpcChainProvider } = await import(
+  "../src/services/chainRpcProvider"
+);
+
+const query = {
+  chainId: "0x1",
+  tokenAddress: "0x00000000000000000000000000000000000000aa",
+  walletAddress: "0x00000000000000000000000000000000000000bb",
+  standard: "erc721" as const,
+};
+
+const realFetch = globalThis.fetch;
+const realTimeout = AbortSignal.timeout;
+
+beforeEach(() => {
+  process.env.CHAIN_RPC_URL_1 = "http://rpc.test";
+  spyOn(AbortSignal, "timeout").mockImplementation(() => realTimeout(20));
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  (AbortSignal.timeout as any).mockRestore();
+  delete process.env.CHAIN_RPC_URL_1;
+});
+
+describe("JsonRpcChainProvider", () => {
+  test("reads balances from eth_call", async () => {
+    globalThis.fetch = (async () =>
+      Response.json({ jsonrpc: "2.0", id: 1, result: "0x3" })) as any;
+
+    expect(await new JsonRpcChainProvider().getTokenBalance(query)).toBe(3);
+  });
+
+  test("gives up on a node that does not answer", async () => {
+    globalThis.fetch = ((_url: string, init: RequestInit) =>
+      new Promise((_, reject) =>
+        init.signal!.addEventListener("abort", () =>
+          reject(init.signal!.reason)
+        )
+      )) as any;
+
+    await expect(
+      new JsonRpcChainProvider().getTokenBalance(query)
+    ).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
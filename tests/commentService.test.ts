@@ -0,0 +1,164 @@
+import { expect, test, describe, beforeEach, afterEach, spyOn } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const { CommentService } = await import("../src/services/commentService");
+const { AutoModService } = await import("../src/services/autoModService");
+const { fingerprintContent, spamFilter } = await import(
+  "../src/services/spamFilterService"
+);
+const { ModerationService } = await import("../src/services/moderationService");
+
+const postId = "64b7f0c2e4b0a1a2b3c4d5e6";
+const commentId = "64b7f0c2e4b0a1a2b3c4d5e8";
+
+let comment: Record<string, any>;
+let created: Record<string, any>[];
+
+beforeEach(() => {
+  resetPrisma();
+  comment = {
+    id: commentId,
+    postId,
+    authorId: "author",
+    content: "Thanks for sharing the station data",
+    status: "spam",
+  };
+  created = [];
+
+  prisma.post = {
+    findUnique: async () => ({
+      id: postId,
+      communityId: "community",
+      status: "active",
+      isLocked: false,
+    }),
+  };
+  prisma.community = {
+    findUniqueOrThrow: async () => ({
+      id: "community",
+      creatorId: "creator",
+      isArchived: false,
+      autoSpamFilter: false,
+      minimumKarma: 10,
+    }),
+  };
+  prisma.communityMember = {
+    findUnique: async () => ({ hasTokenAccess: true }),
+  };
+  prisma.communityModerator = { findUnique: async () => null };
+  prisma.bannedUser = { findFirst: async () => null };
+  prisma.mutedUser = { findFirst: async () => null };
+  prisma.user = { findUniqueOrThrow: async () => ({ reputation: 3 }) };
+  prisma.comment = {
+    findUnique: async () => comment,
+    create: async ({ data }: any) => created.push(data),
+    updateMany: async ({ where, data }: any) => {
+      if (comment.status !== where.status) return { count: 0 };
+      comment = { ...comment, ...data };
+      return { count: 1 };
+    },
+  };
+  prisma.moderationAction = {
+    create: async ({ data }: any) => ({ id: "action", ...data }),
+  };
+});
+
+describe("CommentService.createComment", () => {
+  test("holds comments to the community karma floor", async () => {
+    await expect(
+      CommentService.createComment("newcomer", postId, {
+        content: "First comment",
+      })
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(created).toEqual([]);
+  });
+});
+
+describe("CommentService.updateComment", () => {
+  let spamCheck: ReturnType<typeof spyOn>;
+  let autoMod: ReturnType<typeof spyOn>;
+
+  const edit = (content: string) =>
+    CommentService.updateComment("author", commentId, content);
+
+  beforeEach(() => {
+    comment.status = "active";
+    comment.fingerprint = fingerprintContent(comment.content);
+    prisma.comment.update = async ({ data }: any) =>
+      (comment = { ...comment, ...data });
+
+    spamCheck = spyOn(spamFilter, "check").mockResolvedValue({
+      fingerprint: "edited",
+      spamScore: 0.9,
+      isSpam: true,
+    });
+    autoMod = spyOn(AutoModService, "runOnComment").mockResolvedValue({
+      removed: false,
+    } as any);
+  });
+
+  afterEach(() => {
+    spamCheck.mockRestore();
+    autoMod.mockRestore();
+  });
+
+  test("runs the spam filter on new content", async () => {
+    const updated = await edit("Cheap tokens at example.com, limited offer");
+
+    expect(spamCheck).toHaveBeenCalledTimes(1);
+    expect(updated.status).toBe("spam");
+    expect(comment).toMatchObject({ spamScore: 0.9, fingerprint: "edited" });
+  });
+
+  test("skips the spam filter for light edits", async () => {
+    await edit("Thanks for sharing the station data!");
+
+    expect(spamCheck).not.toHaveBeenCalled();
+    expect(autoMod).toHaveBeenCalledTimes(1);
+  });
+
+  test("applies AutoMod removals to the edit", async () => {
+    autoMod.mockResolvedValue({ removed: true } as any);
+
+    expect((await edit("Thanks, this helped")).status).toBe("removed");
+  });
+
+  test("rejects edits from muted users", async () => {
+    prisma.mutedUser.findFirst = async () => ({
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(edit("Thanks, this helped")).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    expect(comment.content).toBe("Thanks for sharing the station data");
+  });
+});
+
+describe("ModerationService.approveComment", () => {
+  test("restores a comment hidden as spam", async () => {
+    const action = await ModerationService.approveComment("creator", commentId);
+
+    expect(comment.status).toBe("active");
+    expect(action).toMatchObject({
+      type: "approve_comment",
+      metadata: { previousStatus: "spam", postId },
+    });
+  });
+
+  test("only restores comments awaiting review", async () => {
+    comment.status = "removed";
+
+    await expect(
+      ModerationService.approveComment("creator", commentId)
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(comment.status).toBe("removed");
+  });
+
+  test("requires a moderator", async () => {
+    await expect(
+      ModerationService.approveComment("someone", commentId)
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(comment.status).toBe("spam");
+  });
+});
@@ -0,0 +1,173 @@
+import { expect, test, describe, beforeEach, spyOn } from "bun:test";
+import { Prisma } from "@prisma/client";
+import { prisma, resetPrisma } from "./mocks";
+
+const { CommunityMembershipService } = await import(
+  "../src/services/communityMembershipService"
+);
+const { notificationService } = await import(
+  "../src/types/notifications/notificaitons"
+);
+
+let community: Record<string, any>;
+let members: Map<string, Record<string, any>>;
+let moderators: Set<string>;
+
+const prismaError = (code: string) =>
+  new Prisma.PrismaClientKnownRequestError("Request failed", {
+    code,
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+beforeEach(() => {
+  resetPrisma();
+  community = {
+    id: "64b7f0c2e4b0a1a2b3c4d5e6",
+    slug: "weather",
+    creatorId: "creator",
+    isArchived: false,
+    isPrivate: false,
+    tokenGated: false,
+    memberCount: 1,
+  };
+  members = new Map([["creator", { id: "member-creator" }]]);
+  moderators = new Set(["creator"]);
+
+  prisma.community = {
+    findUnique: async () => community,
+    update: async ({ data }: any) => {
+      community.memberCount +=
+        data.memberCount.increment ?? -data.memberCount.decrement;
+    },
+  };
+  prisma.communityMember = {
+    findUnique: async ({ where }: any) =>
+      members.get(where.communityId_userId.userId) ?? null,
+    create: async ({ data }: any) => {
+      if (members.has(data.userId)) throw prismaError("P2002");
+      const member = { id: `member-${data.userId}`, ...data };
+      members.set(data.userId, member);
+      return member;
+    },
+    delete: async ({ where }: any) => {
+      for (const [userId, member] of members) {
+        if (member.id === where.id) return members.delete(userId);
+      }
+      throw prismaError("P2025");
+    },
+  };
+  prisma.communityModerator = {
+    findUnique: async ({ where }: any) =>
+      moderators.has(where.communityId_userId.userId) ? { id: "mod" } : null,
+    deleteMany: async ({ where }: any) => ({
+      count: Number(moderators.delete(where.userId)),
+    }),
+  };
+  prisma.bannedUser = { findFirst: async () => null };
+});
+
+describe("CommunityMembershipService", () => {
+  test("counts members who join and leave", async () => {
+    expect(
+      (await CommunityMembershipService.joinCommunity("alice", "weather"))
+        .status
+    ).toBe("joined");
+    expect(community.memberCount).toBe(2);
+
+    await CommunityMembershipService.leaveCommunity("alice", "weather");
+    expect(community.memberCount).toBe(1);
+    expect(members.has("alice")).toBe(false);
+  });
+
+  test("returns 409 when a concurrent join created the membership", async () => {
+    // The membership check passes, then the insert loses the race
+    prisma.communityMember.findUnique = async () => null;
+    members.set("alice", { id: "member-alice" });
+
+    await expect(
+      CommunityMembershipService.joinCommunity("alice", "weather")
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      message: "Already a member of this community",
+    });
+    expect(community.memberCount).toBe(1);
+  });
+
+  test("rejects joining twice", async () => {
+    await CommunityMembershipService.joinCommunity("alice", "weather");
+
+    await expect(
+      CommunityMembershipService.joinCommunity("alice", "weather")
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(community.memberCount).toBe(2);
+  });
+
+  test("keeps the creator in the community", async () => {
+    await expect(
+      CommunityMembershipService.leaveCommunity("creator", "weather")
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(community.memberCount).toBe(1);
+  });
+
+  test("does not count leaving a community you are not in", async () => {
+    await expect(
+      CommunityMembershipService.leaveCommunity("alice", "weather")
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(community.memberCount).toBe(1);
+  });
+
+  test("returns 404 when a concurrent leave removed the membership", async () => {
+    await CommunityMembershipService.joinCommunity("alice", "weather");
+    // The membership check passes, then the delete loses the race
+    prisma.communityMember.findUnique = async () => ({ id: "member-alice" });
+    members.delete("alice");
+
+    await expect(
+      CommunityMembershipService.leaveCommunity("alice", "weather")
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(community.memberCount).toBe(2);
+  });
+
+  test("takes moderator powers away from members who leave", async () => {
+    await CommunityMembershipService.joinCommunity("alice", "weather");
+    moderators.add("alice");
+
+    await CommunityMembershipService.leaveCommunity("alice", "weather");
+
+    expect(moderators.has("alice")).toBe(false);
+  });
+});
+
+describe("CommunityMembershipService.reviewJoinRequest", () => {
+  let request: Record<string, any>;
+
+  beforeEach(() => {
+    request = { id: "request", userId: "alice", status: "pending" };
+    prisma.communityJoinRequest = {
+      findFirst: async () => request,
+      update: async ({ data }: any) => (request = { ...request, ...data }),
+    };
+  });
+
+  test("keeps an approval when the notification fails", async () => {
+    const notify = spyOn(
+      notificationService,
+      "createNotification"
+    ).mockRejectedValue(new Error("Notifications are down"));
+
+    try {
+      const reviewed = await CommunityMembershipService.reviewJoinRequest(
+        "creator",
+        "weather",
+        "request",
+        true
+      );
+
+      expect(reviewed.status).toBe("approved");
+      expect(members.has("alice")).toBe(true);
+      expect(community.memberCount).toBe(2);
+    } finally {
+      notify.mockRestore();
+    }
+  });
+});
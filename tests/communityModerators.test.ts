@@ -0,0 +1,140 @@
+import { expect, test, describe, beforeEach, mock } from "bun:test";
+import type { Elysia } from "elysia";
+import { prisma, resetPrisma } from "./mocks";
+
+// Signs requests in as the user named by the x-user header
+mock.module("@/middleware/authPlugin", () => ({
+  AuthError: class AuthError extends Error {
+    constructor(public statusCode: number, message: string) {
+      super(message);
+      this.name = "AuthError";
+    }
+  },
+  authPlugin: (app: Elysia) =>
+    app.derive(({ headers }) => ({
+      authenticatedUser: headers["x-user"] ? { id: headers["x-user"] } : null,
+    })),
+}));
+
+const { communityModeratorsRouter } = await import(
+  "../src/api/v1/communities/moderators"
+);
+
+const community = {
+  id: "64b7f0c2e4b0a1a2b3c4d5e6",
+  slug: "weather",
+  name: "Weather",
+  creatorId: "creator",
+};
+
+let moderators: Map<string, Record<string, any>>;
+let notified: string[];
+
+const addModerator = (userId: string, permissions: Record<string, boolean>) =>
+  moderators.set(userId, {
+    id: `moderator-${userId}`,
+    communityId: community.id,
+    userId,
+    permissions,
+    addedBy: "creator",
+  });
+
+const removeModerator = async (actorId: string, userId: string) => {
+  const response = await communityModeratorsRouter.handle(
+    new Request(`http://localhost/communities/weather/moderators/${userId}`, {
+      method: "DELETE",
+      headers: { "x-user": actorId },
+    })
+  );
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(() => {
+  resetPrisma();
+  moderators = new Map();
+  notified = [];
+
+  prisma.community = {
+    findUnique: async ({ where }: any) =>
+      where.slug === community.slug ? community : null,
+  };
+  prisma.communityModerator = {
+    findUnique: async ({ where }: any) =>
+      moderators.get(where.communityId_userId.userId) ?? null,
+    delete: async ({ where }: any) => {
+      for (const [userId, moderator] of moderators) {
+        if (moderator.id === where.id) moderators.delete(userId);
+      }
+    },
+  };
+  prisma.moderationAction = {
+    create: async ({ data }: any) => ({ id: "action", ...data }),
+  };
+  prisma.user = {
+    findUniqueOrThrow: async () => ({
+      email: null,
+      notificationPreferences: null,
+    }),
+  };
+  prisma.userNotification = {
+    create: async ({ data }: any) => {
+      notified.push(data.userId);
+      return { id: "notification", ...data };
+    },
+  };
+});
+
+describe("DELETE /communities/:slug/moderators/:userId", () => {
+  test("lets a moderator without canManageModerators step down", async () => {
+    addModerator("alice", { canManagePosts: true });
+
+    const { status } = await removeModerator("alice", "alice");
+
+    expect(status).toBe(200);
+    expect(moderators.has("alice")).toBe(false);
+    expect(notified).toEqual([]);
+  });
+
+  test("requires canManageModerators to remove someone else", async () => {
+    addModerator("alice", { canManagePosts: true });
+    addModerator("bob", { canManagePosts: true });
+
+    const { status, body } = await removeModerator("alice", "bob");
+
+    expect(status).toBe(403);
+    expect(body.error).toBe("Missing required permission: canManageModerators");
+    expect(moderators.has("bob")).toBe(true);
+  });
+
+  test("requires holding every permission of the removed moderator", async () => {
+    addModerator("alice", { canManageModerators: true });
+    addModerator("bob", { canManagePosts: true });
+
+    const { status, body } = await removeModerator("alice", "bob");
+
+    expect(status).toBe(403);
+    expect(body.error).toBe("Missing required permission: canManagePosts");
+    expect(moderators.has("bob")).toBe(true);
+  });
+
+  test("notifies a moderator removed by someone else", async () => {
+    addModerator("bob", { canManagePosts: true });
+
+    const { status } = await removeModerator("creator", "bob");
+
+    expect(status).toBe(200);
+    expect(moderators.has("bob")).toBe(false);
+    expect(notified).toEqual(["bob"]);
+  });
+
+  test("keeps the creator's moderator role", async () => {
+    addModerator("creator", { canManagePosts: true });
+
+    expect((await removeModerator("creator", "creator")).status).toBe(403);
+    expect(moderators.has("creator")).toBe(true);
+  });
+
+  test("rejects anonymous requests", async () => {
+    expect((await removeModerator("", "alice")).status).toBe(401);
+  });
+});
@@ -0,0 +1,105 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const { CommunityService } = await import("../src/services/communityService");
+
+const communityId = "64b7f0c2e4b0a1a2b3c4d5e6";
+
+let community: Record<string, any>;
+let members: string[];
+let created: Record<string, any>[];
+
+beforeEach(() => {
+  resetPrisma();
+  community = {
+    id: communityId,
+    slug: "weather",
+    name: "Weather",
+    creatorId: "creator",
+    isPrivate: false,
+    isArchived: false,
+  };
+  members = [];
+  created = [];
+
+  prisma.community = {
+    findUnique: async ({ where }: any) =>
+      where.slug === community.slug ? community : null,
+    findUniqueOrThrow: async () => community,
+    create: async ({ data }: any) => {
+      created.push(data);
+      return { id: communityId, ...data };
+    },
+    update: async ({ data }: any) => (community = { ...community, ...data }),
+  };
+  prisma.communityMember = {
+    findUnique: async ({ where }: any) =>
+      members.includes(where.communityId_userId.userId) ? { id: "m" } : null,
+    create: async () => ({}),
+  };
+  prisma.communityModerator = {
+    findUnique: async () => null,
+    create: async () => ({}),
+  };
+});
+
+describe("CommunityService community names", () => {
+  const input = (name: string) => ({ slug: "weather-data", name } as any);
+
+  test("strips markup from names", async () => {
+    await CommunityService.createCommunity("creator", input("<b>Weather</b>"));
+
+    expect(created[0].name).toBe("Weather");
+  });
+
+  test("rejects names that are only markup", async () => {
+    await expect(
+      CommunityService.createCommunity("creator", input("<img src=x>"))
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(created).toEqual([]);
+  });
+
+  test("rejects renaming to markup only", async () => {
+    await expect(
+      CommunityService.updateCommunity("creator", "weather", {
+        name: "<script></script>",
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(community.name).toBe("Weather");
+  });
+});
+
+describe("CommunityService.getVisibleCommunity", () => {
+  const view = (viewerId: string) =>
+    CommunityService.getVisibleCommunity(viewerId, "weather");
+
+  test("shows public communities to anyone", async () => {
+    expect(await view("someone")).toMatchObject({ id: communityId });
+  });
+
+  test("hides private communities from non-members", async () => {
+    community.isPrivate = true;
+
+    await expect(view("someone")).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  test("shows private communities to members", async () => {
+    community.isPrivate = true;
+    members.push("member");
+
+    expect(await view("member")).toMatchObject({ id: communityId });
+  });
+
+  test("hides archived communities from members", async () => {
+    community.isArchived = true;
+    members.push("member");
+
+    await expect(view("member")).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  test("shows archived communities to their moderators", async () => {
+    community.isArchived = true;
+
+    expect(await view("creator")).toMatchObject({ id: communityId });
+  });
+});
@@ -0,0 +1,71 @@
+import { expect, test, describe } from "bun:test";
+import { CsvParser, csvEscape } from "../src/utils/csvParser";
+
+// Feeds the text in chunks of `size` characters
+const parse = (text: string, size = text.length, delimiter = ",") => {
+  const parser = new CsvParser(delimiter);
+  const records: string[][] = [];
+  for (let i = 0; i < text.length; i += size) {
+    records.push(...parser.push(text.slice(i, i + size)));
+  }
+  return [...records, ...parser.end()];
+};
+
+describe("CsvParser", () => {
+  test("splits records and fields", () => {
+    expect(parse("a,b\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  test("returns the last record without a trailing line break", () => {
+    expect(parse("a,b\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  test("handles quoted delimiters, line breaks and escaped quotes", () => {
+    expect(parse('name,note\n"Smith, J","said ""hi""\nthen left"\n')).toEqual([
+      ["name", "note"],
+      ["Smith, J", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  test("gives the same records whatever the chunk size", () => {
+    const text = 'a,b\r\n"x,""y""",2\r\n\r\nlast,"row"';
+    const expected = parse(text);
+
+    for (const size of [1, 2, 3, 5, 8]) {
+      expect(parse(text, size)).toEqual(expected);
+    }
+    expect(expected).toEqual([
+      ["a", "b"],
+      ['x,"y"', "2"],
+      ["last", "row"],
+    ]);
+  });
+
+  test("treats CRLF as one line break and skips blank lines", () => {
+    expect(parse("a\r\n\r\nb\n\nc\r")).toEqual([["a"], ["b"], ["c"]]);
+  });
+
+  test("keeps empty fields", () => {
+    expect(parse(",x,\n")).toEqual([["", "x", ""]]);
+  });
+
+  test("uses the given delimiter", () => {
+    expect(parse("a\tb,c\n", undefined, "\t")).toEqual([["a", "b,c"]]);
+  });
+});
+
+describe("csvEscape", () => {
+  test("quotes only values that need it", () => {
+    expect(csvEscape("plain")).toBe("plain");
+    expect(csvEscape('a "b", c')).toBe('"a ""b"", c"');
+    expect(csvEscape("two\nlines")).toBe('"two\nlines"');
+    expect(csvEscape(null)).toBe("");
+    expect(csvEscape(1.5)).toBe("1.5");
+  });
+});
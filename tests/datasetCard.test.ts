@@ -0,0 +1,92 @@
+import { expect, test, describe } from "bun:test";
+import "./mocks";
+
+const { DatasetCardService } = await import(
+  "../src/services/datasetCardService"
+);
+
+const citation = "@misc{doe2024, title = {Bird {Songs}}, year = {2024}}";
+
+describe("DatasetCardService.normalize", () => {
+  test("fills missing fields with empty values", () => {
+    expect(DatasetCardService.normalize({})).toEqual({
+      license: null,
+      taskCategories: [],
+      languages: [],
+      sizeCategory: null,
+      collectionProcess: null,
+      knownBiases: [],
+      citation: null,
+    });
+  });
+
+  test("dedupes lists and normalizes text", () => {
+    expect(
+      DatasetCardService.normalize({
+        license: "mit",
+        taskCategories: ["summarization", "summarization"],
+        languages: ["en", "pt-BR", "EN", "pt-br"],
+        collectionProcess: "   ",
+        knownBiases: [" Urban skew ", "urban SKEW", "  "],
+        citation: `  ${citation}\n`,
+      })
+    ).toEqual({
+      license: "mit",
+      taskCategories: ["summarization"],
+      languages: ["en", "pt-br"],
+      sizeCategory: null,
+      collectionProcess: null,
+      knownBiases: ["Urban skew"],
+      citation,
+    });
+  });
+
+  test.each([
+    ["title = {x}", "Citation must be a BibTeX entry"],
+    ["@misc{key, title = {x}", "Citation has unbalanced braces"],
+    ["@misc{key, title = {x}} @misc{other,}", "a single BibTeX entry"],
+    ["@misc{key, note = {```}}", "Citation cannot contain code fences"],
+  ])("rejects the citation %p", (value, message) => {
+    expect(() => DatasetCardService.normalize({ citation: value })).toThrow(
+      message
+    );
+  });
+
+  test("skips escaped braces when balancing", () => {
+    const escaped = "@misc{key, title = {50\\% \\{off\\}}}";
+
+    expect(DatasetCardService.normalize({ citation: escaped }).citation).toBe(
+      escaped
+    );
+  });
+});
+
+describe("DatasetCardService.parse", () => {
+  test("returns an empty card for missing or malformed values", () => {
+    expect(DatasetCardService.parse(null)).toEqual(
+      DatasetCardService.normalize({})
+    );
+    expect(DatasetCardService.parse(["mit"]).license).toBeNull();
+  });
+
+  test("drops values no longer in the vocabularies", () => {
+    expect(
+      DatasetCardService.parse({
+        license: "retired-license",
+        taskCategories: ["summarization", "telepathy", 3],
+        languages: ["en", null],
+        sizeCategory: "n<1K",
+        knownBiases: "not a list",
+        citation,
+      })
+    ).toEqual({
+      license: null,
+      taskCategories: ["summarization"],
+      languages: ["en"],
+      sizeCategory: "n<1K",
+      collectionProcess: null,
+      knownBiases: [],
+      citation,
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma, s3 } from "./mocks";
+import { rangeReader, writeParquet } from "./parquetWriter";
+
+const { DatasetProfiler, parseTextValue } = await import(
+  "../src/services/datasetProfiler"
+);
+
+const datasetId = "64b7f0c2e4b0a1a2b3c4d5e6";
+const fileId = "64b7f0c2e4b0a1a2b3c4d5e7";
+
+let files: Map<string, Record<string, any>>;
+let contents: Map<string, Buffer>;
+
+const addFile = (name: string, content: string | Buffer, metadata = {}) => {
+  const bytes = Buffer.from(content);
+  files.set(fileId, {
+    id: fileId,
+    datasetId,
+    name,
+    contentType: "application/octet-stream",
+    storageKey: `datasets/${name}`,
+    size: bytes.length,
+    metadata,
+  });
+  contents.set(`datasets/${name}`, bytes);
+};
+
+// Profiling runs in the background; wait for it to store a result
+const storedProfile = async () => {
+  for (let i = 0; i < 100; i++) {
+    const profile = files.get(fileId)?.metadata?.profile;
+    if (profile && profile.status !== "pending") return profile;
+    await Bun.sleep(5);
+  }
+  throw new Error("Profile was not stored");
+};
+
+beforeEach(() => {
+  resetPrisma();
+  files = new Map();
+  contents = new Map();
+
+  prisma.file = {
+    findUnique: async ({ where }: any) => files.get(where.id) ?? null,
+    findFirst: async ({ where }: any) => {
+      const file = files.get(where.id);
+      return file?.datasetId === where.datasetId ? file : null;
+    },
+    update: async ({ where, data }: any) =>
+      Object.assign(files.get(where.id)!, data),
+  };
+
+  s3.streamText = async function* (key: string) {
+    yield contents.get(key)!.toString("utf8");
+  };
+  s3.getObjectSize = async (key: string) => contents.get(key)!.length;
+  s3.getObjectRange = async (key: string, start: number, end: number) =>
+    rangeReader(contents.get(key)!)(start, end);
+});
+
+describe("parseTextValue", () => {
+  test.each([
+    ["42", "integer", 42],
+    ["-3.5e2", "float", -350],
+    ["TRUE", "boolean", true],
+    ["2024-02-29", "date", "2024-02-29"],
+    ["2024-02-29T10:00:00Z", "datetime", "2024-02-29T10:00:00Z"],
+    ["N/A", "null", null],
+    ["  ", "null", null],
+    ["2024-13-45", "string", "2024-13-45"],
+    ["hello", "string", "hello"],
+  ])("reads %p as %s", (raw, type, value) => {
+    expect(parseTextValue(raw)).toEqual({ type, value } as any);
+  });
+});
+
+describe("DatasetProfiler", () => {
+  test("profiles CSV columns", async () => {
+    addFile(
+      "train.csv",
+      "id,score,label\n1,0.5,cat\n2,,dog\n3,1.5,cat\n4,2,\n"
+    );
+    const profiler = new DatasetProfiler();
+
+    await profiler.enqueue([fileId]);
+    const { status, result } = await storedProfile();
+
+    expect(status).toBe("complete");
+    expect(result).toMatchObject({
+      format: "csv",
+      rowCount: 4,
+      sampled: false,
+    });
+    const [id, score, label] = result.columns;
+    expect(id).toMatchObject({ type: "integer", min: 1, max: 4, mean: 2.5 });
+    expect(score).toMatchObject({
+      type: "float",
+      nullCount: 1,
+      nullRatio: 0.25,
+      mean: 1.33333333333,
+    });
+    expect(
+      score.histogram.reduce((total: number, bin: any) => total + bin.count, 0)
+    ).toBe(3);
+    expect(label).toMatchObject({
+      type: "string",
+      distinctCount: 2,
+      min: "cat",
+      max: "dog",
+      mean: null,
+      histogram: null,
+    });
+  });
+
+  test("profiles JSON Lines with mixed numeric types", async () => {
+    addFile(
+      "data.jsonl",
+      '{"a": 1, "b": "x"}\n{"a": 2.5}\n{"a": null, "b": "y"}\n'
+    );
+    const profiler = new DatasetProfiler();
+
+    await profiler.enqueue([fileId]);
+    const { result } = await storedProfile();
+
+    expect(result.rowCount).toBe(3);
+    expect(result.columns[0]).toMatchObject({
+      name: "a",
+      type: "float",
+      typeCounts: { integer: 1, float: 1 },
+      nullCount: 1,
+      mean: 1.75,
+    });
+    expect(result.columns[1]).toMatchObject({ name: "b", nullCount: 1 });
+  });
+
+  test("computes Parquet means and histograms from the data pages", async () => {
+    addFile(
+      "data.parquet",
+      writeParquet(
+        [
+          { name: "id", type: "int32", values: [10, 20, null, 40, 50] },
+          {
+            name: "name",
+            type: "utf8",
+            values: ["a", "b", "a", null, "c"],
+            dictionary: true,
+          },
+        ],
+        2
+      )
+    );
+    const profiler = new DatasetProfiler();
+
+    await profiler.enqueue([fileId]);
+    const { result } = await storedProfile();
+
+    expect(result).toMatchObject({ format: "parquet", rowCount: 5 });
+    const [id, name] = result.columns;
+    expect(id).toMatchObject({ type: "integer", mean: 30 });
+    expect(id.histogram[0]).toEqual({ lower: 10, upper: 14, count: 1 });
+    expect(id.histogram.at(-1)).toEqual({ lower: 46, upper: 50, count: 1 });
+    expect(name).toMatchObject({ type: "string", mean: null, histogram: null });
+  });
+
+  test("marks files it cannot read as unsupported", async () => {
+    addFile("image.png", "not tabular");
+    const profiler = new DatasetProfiler();
+
+    await profiler.enqueue([fileId]);
+
+    expect((await storedProfile()).status).toBe("unsupported");
+  });
+
+  test("re-queues a pending profile left by a lost queue", async () => {
+    addFile("train.csv", "a\n1\n", {
+      profile: { status: "pending", updatedAt: "2024-01-01T00:00:00.000Z" },
+    });
+    const profiler = new DatasetProfiler();
+
+    expect(await profiler.getProfile(datasetId, fileId)).toMatchObject({
+      status: "pending",
+    });
+    expect((await storedProfile()).status).toBe("complete");
+  });
+
+  test("leaves a recently queued profile alone", async () => {
+    const profile = { status: "pending", updatedAt: new Date().toISOString() };
+    addFile("train.csv", "a\n1\n", { profile });
+    let updates = 0;
+    prisma.file.update = async () => updates++;
+
+    expect(await new DatasetProfiler().getProfile(datasetId, fileId)).toEqual(
+      profile
+    );
+    expect(updates).toBe(0);
+  });
+
+  test("returns null for files of other datasets", async () => {
+    addFile("train.csv", "a\n1\n");
+
+    expect(
+      await new DatasetProfiler().getProfile("64b7f0c2e4b0a1a2b3c4d5e8", fileId)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma, s3 } from "./mocks";
+
+const { DatasetQueryService } = await import(
+  "../src/services/datasetQueryService"
+);
+
+const datasetId = "64b7f0c2e4b0a1a2b3c4d5e6";
+
+const useFile = (name: string, chunks: string[], size?: number) => {
+  prisma.file = {
+    findMany: async () => [
+      {
+        id: "64b7f0c2e4b0a1a2b3c4d5e7",
+        datasetId,
+        name,
+        contentType: "application/octet-stream",
+        storageKey: `datasets/${name}`,
+        size: size ?? chunks.join("").length,
+        version: "1.0.0",
+        createdAt: new Date("2024-01-01"),
+      },
+    ],
+  };
+  s3.streamText = async function* () {
+    yield* chunks;
+  };
+};
+
+const csv = [
+  "label,score,note\n",
+  "cat,0.9,good\n",
+  "dog,0.4,\n",
+  "cat,0.7,ok\n",
+  "bird,0.2,bad\n",
+];
+
+describe("DatasetQueryService.runQuery", () => {
+  beforeEach(() => resetPrisma());
+
+  test("filters, groups and orders CSV rows", async () => {
+    useFile("train.csv", csv);
+
+    const result = await DatasetQueryService.runQuery(
+      datasetId,
+      "SELECT label, COUNT(*) AS n, AVG(score) AS mean FROM train " +
+        "WHERE score > 0.3 GROUP BY label ORDER BY n DESC"
+    );
+
+    expect(result.columns).toEqual(["label", "n", "mean"]);
+    expect(result.rows).toEqual([
+      ["cat", 2, 0.8],
+      ["dog", 1, 0.4],
+    ]);
+    expect(result.stats).toMatchObject({ scannedRows: 4, truncated: false });
+  });
+
+  test("reads null CSV cells as NULL", async () => {
+    useFile("train.csv", csv);
+
+    const result = await DatasetQueryService.runQuery(
+      datasetId,
+      "SELECT label WHERE note IS NULL"
+    );
+
+    expect(result.rows).toEqual([["dog"]]);
+  });
+
+  test("matches LIKE patterns in linear time", async () => {
+    useFile("notes.csv", ["note\n", `${"a".repeat(5000)}\n`, "a_b%c\n"]);
+    const started = Date.now();
+
+    const result = await DatasetQueryService.runQuery(
+      datasetId,
+      "SELECT note WHERE note LIKE '%a%a%a%a%a%a%a%a%b' OR note LIKE 'a_b%'"
+    );
+
+    expect(result.rows).toEqual([["a_b%c"]]);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  test("reads JSON Lines split across chunks", async () => {
+    useFile("data.jsonl", ['{"a": 1}\n{"a"', ": 2}\n", '{"a": 3}']);
+
+    const result = await DatasetQueryService.runQuery(
+      datasetId,
+      "SELECT SUM(a) AS total"
+    );
+
+    expect(result.rows).toEqual([[6]]);
+  });
+
+  test("rejects JSON lines past the length limit", async () => {
+    useFile("data.jsonl", [
+      '{"a": 1}\n',
+      ...Array.from({ length: 9 }, () => "x".repeat(1024 * 1024)),
+    ]);
+
+    await expect(
+      DatasetQueryService.runQuery(datasetId, "SELECT *")
+    ).rejects.toMatchObject({ statusCode: 413 });
+  });
+
+  test("reads only the leading bytes of oversized text files", async () => {
+    let range: unknown;
+    useFile("train.csv", csv, 600 * 1024 * 1024);
+    s3.streamText = async function* (_key: string, requested: unknown) {
+      range = requested;
+      // The range ends part way through the last record
+      yield* [...csv.slice(0, -1), "bird,0."];
+    };
+
+    const result = await DatasetQueryService.runQuery(
+      datasetId,
+      "SELECT label"
+    );
+
+    expect(range).toEqual({ start: 0, end: 512 * 1024 * 1024 - 1 });
+    expect(result.rows).toEqual([["cat"], ["dog"], ["cat"]]);
+    expect(result.stats).toMatchObject({
+      truncated: true,
+      reason: "byte_budget",
+    });
+  });
+
+  test("does not report the byte budget when LIMIT ends the scan", async () => {
+    useFile("train.csv", csv, 600 * 1024 * 1024);
+
+    const result = await DatasetQueryService.runQuery(
+      datasetId,
+      "SELECT label LIMIT 1"
+    );
+
+    expect(result.rows).toEqual([["cat"]]);
+    expect(result.stats.truncated).toBe(false);
+  });
+
+  test("rejects unknown columns in CSV files", async () => {
+    useFile("train.csv", csv);
+
+    await expect(
+      DatasetQueryService.runQuery(datasetId, "SELECT missing")
+    ).rejects.toThrow("Unknown columns: missing");
+  });
+});
+
+describe("DatasetQueryService.toCsv", () => {
+  test("quotes values that need it", () => {
+    expect(
+      DatasetQueryService.toCsv({
+        columns: ["name", "note"],
+        rows: [
+          ["a,b", 'say "hi"'],
+          [null, 1],
+        ],
+        stats: {
+          file: "train.csv",
+          version: null,
+          scannedRows: 2,
+          elapsedMs: 0,
+          truncated: false,
+        },
+      })
+    ).toBe('name,note\n"a,b","say ""hi"""\n,1');
+  });
+});
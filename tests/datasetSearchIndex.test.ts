@@ -0,0 +1,190 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const { DatasetSearchIndex, buildDatasetDocument } = await import(
+  "../src/services/datasetSearchIndex"
+);
+
+type TestDataset = Parameters<typeof buildDatasetDocument>[0];
+
+const dataset = (
+  id: string,
+  fields: Partial<TestDataset> = {}
+): TestDataset => ({
+  id,
+  title: "",
+  description: null,
+  tags: [],
+  fileType: null,
+  accessibility: "PUBLIC",
+  metadata: null,
+  card: null,
+  userWalletAddress: "0xowner",
+  files: [],
+  ...fields,
+});
+
+let datasets: TestDataset[];
+let stored: string[];
+
+const search = (
+  query: string,
+  options: { viewerAddress?: string; filters?: Record<string, string> } = {}
+) =>
+  new DatasetSearchIndex().search({
+    query,
+    viewerAddress: options.viewerAddress,
+    filters: options.filters ?? {},
+    page: 1,
+    limit: 10,
+  });
+
+const ids = (result: Awaited<ReturnType<typeof search>>) =>
+  result.datasets.map((found) => found.id);
+
+beforeEach(() => {
+  resetPrisma();
+  datasets = [];
+  stored = [];
+
+  prisma.datasetSearchDocument = {
+    findMany: async () => [],
+    deleteMany: async () => ({ count: 0 }),
+    upsert: async ({ where }: any) => stored.push(where.datasetId),
+  };
+  prisma.dataset = {
+    findMany: async ({ where }: any) =>
+      where?.id?.in
+        ? datasets.filter((candidate) => where.id.in.includes(candidate.id))
+        : datasets,
+  };
+});
+
+describe("buildDatasetDocument", () => {
+  test("weights terms by the field they appear in", () => {
+    const document = buildDatasetDocument(
+      dataset("a", {
+        title: "Bird songs",
+        description: "Recorded bird calls",
+        tags: ["audio"],
+        files: [{ name: "songs.wav", contentType: "audio/wav" }],
+      })
+    );
+
+    expect(document.terms).toEqual({
+      bird: 4,
+      songs: 4.5,
+      recorded: 1,
+      calls: 1,
+      audio: 2,
+      wav: 1.5,
+    });
+    expect(document.length).toBe(14);
+    expect(document.fileTypes).toEqual(["wav"]);
+  });
+
+  test("prefers the card license over legacy metadata", () => {
+    expect(
+      buildDatasetDocument(
+        dataset("a", {
+          card: { license: "mit" },
+          metadata: JSON.stringify({ license: "cc0-1.0" }),
+        })
+      ).license
+    ).toBe("mit");
+    expect(
+      buildDatasetDocument(
+        dataset("a", { metadata: JSON.stringify({ license: "cc0-1.0" }) })
+      ).license
+    ).toBe("cc0-1.0");
+  });
+});
+
+describe("DatasetSearchIndex.search", () => {
+  test("indexes datasets missing from the store on load", async () => {
+    datasets = [dataset("a", { title: "weather" })];
+
+    await search("weather");
+
+    expect(stored).toEqual(["a"]);
+  });
+
+  test("ranks title matches above description matches", async () => {
+    datasets = [
+      dataset("described", {
+        title: "Daily readings",
+        description: "Weather station data",
+      }),
+      dataset("titled", { title: "Weather station data" }),
+    ];
+
+    expect(ids(await search("weather"))).toEqual(["titled", "described"]);
+  });
+
+  test("weighs rare terms above common ones", async () => {
+    datasets = [
+      dataset("common", { title: "images" }),
+      dataset("rare", { title: "satellite" }),
+      dataset("other", { title: "images" }),
+    ];
+
+    expect(ids(await search("images satellite"))[0]).toBe("rare");
+  });
+
+  test("ranks shorter documents first for the same term frequency", async () => {
+    datasets = [
+      dataset("long", {
+        title: "traffic",
+        description: "counts collected across many city intersections daily",
+      }),
+      dataset("short", { title: "traffic" }),
+    ];
+
+    const result = await search("traffic");
+
+    expect(ids(result)).toEqual(["short", "long"]);
+    expect(result.datasets[0].score).toBeGreaterThan(result.datasets[1].score);
+  });
+
+  test("hides private datasets from everyone but the owner", async () => {
+    datasets = [
+      dataset("public", { title: "genomes" }),
+      dataset("private", { title: "genomes", accessibility: "private" }),
+    ];
+
+    expect(ids(await search("genomes"))).toEqual(["public"]);
+    expect(
+      ids(await search("genomes", { viewerAddress: "0xowner" })).sort()
+    ).toEqual(["private", "public"]);
+  });
+
+  test("counts facets over filtered matches", async () => {
+    datasets = [
+      dataset("a", {
+        title: "text corpus",
+        tags: ["nlp"],
+        files: [{ name: "train.csv", contentType: "text/csv" }],
+      }),
+      dataset("b", {
+        title: "text corpus",
+        tags: ["nlp", "legal"],
+        card: { license: "mit" },
+        files: [{ name: "train.parquet", contentType: "" }],
+      }),
+      dataset("c", { title: "images", tags: ["vision"] }),
+    ];
+
+    const all = await search("");
+    expect(all.pagination.total).toBe(3);
+    expect(all.facets.tag).toEqual({ nlp: 2, legal: 1, vision: 1 });
+
+    const filtered = await search("corpus", { filters: { tag: "LEGAL" } });
+    expect(ids(filtered)).toEqual(["b"]);
+    expect(filtered.facets).toEqual({
+      fileType: { parquet: 1 },
+      tag: { nlp: 1, legal: 1 },
+      license: { mit: 1 },
+      accessibility: { public: 1 },
+    });
+  });
+});
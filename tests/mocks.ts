@@ -0,0 +1,37 @@
+import { mock } from "bun:test";
+
+/**
+ * Module mocks shared by the service tests. Import this first and load
+ * modules from src with a dynamic import() after it, since static imports
+ * are linked before these mocks are registered. Services then run against
+ * the in-memory stubs below instead of starting the server, writing log
+ * files or connecting to MongoDB and S3.
+ */
+
+// Models are filled in per test, e.g. prisma.post = { findUnique: mock() }
+export const prisma: Record<string, any> = {};
+
+export const resetPrisma = () => {
+  for (const key of Object.keys(prisma)) delete prisma[key];
+  prisma.$transaction = async (run: (tx: typeof prisma) => unknown) =>
+    await run(prisma);
+};
+
+resetPrisma();
+
+// Methods are filled in per test, e.g. s3.streamText = async function* () {}
+export const s3: Record<string, any> = {};
+
+const noop = () => {};
+
+mock.module("@/middleware/prismaclient", () => ({ default: prisma }));
+mock.module("@/services/s3DatasetService", () => ({ s3DatasetService: s3 }));
+mock.module("@/index", () => ({
+  createPerformanceTracker: () => ({ end: () => 0 }),
+}));
+mock.module("@/utils/monitor", () => ({
+  logger: { info: noop, warn: noop, error: noop, debug: noop, http: noop },
+  stringifyForLog: (value: unknown) => JSON.stringify(value),
+  maskSensitiveData: (value: unknown) => value,
+  logError: noop,
+}));
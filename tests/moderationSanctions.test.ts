@@ -0,0 +1,143 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const { ModerationService } = await import("../src/services/moderationService");
+const { PostService } = await import("../src/services/postService");
+
+const userId = "64b7f0c2e4b0a1a2b3c4d5e9";
+
+const community = {
+  id: "64b7f0c2e4b0a1a2b3c4d5e6",
+  creatorId: "creator",
+  isPrivate: true,
+} as any;
+
+let members: Map<string, Record<string, any>>;
+let bans: Record<string, any>[];
+let actions: Record<string, any>[];
+let memberCount: number;
+
+beforeEach(() => {
+  resetPrisma();
+  members = new Map([
+    [
+      userId,
+      {
+        id: "member",
+        userId,
+        role: "contributor",
+        reputation: 12,
+        joinedAt: new Date("2024-01-01"),
+        hasTokenAccess: true,
+        tokenVerifiedAt: null,
+      },
+    ],
+  ]);
+  bans = [];
+  actions = [];
+  memberCount = 2;
+
+  prisma.user = {
+    findUnique: async ({ where }: any) =>
+      where.id === userId ? { id: userId } : { isAdmin: false },
+  };
+  prisma.community = {
+    findUniqueOrThrow: async () => community,
+    findMany: async () => [{ id: community.id }],
+    update: async ({ data }: any) => {
+      memberCount += data.memberCount.increment ?? -data.memberCount.decrement;
+    },
+  };
+  prisma.communityModerator = {
+    findUnique: async () => null,
+    findMany: async () => [],
+  };
+  prisma.communityMember = {
+    findUnique: async ({ where }: any) =>
+      members.get(where.communityId_userId.userId) ?? null,
+    delete: async () => members.delete(userId),
+    create: async ({ data }: any) => members.set(data.userId, data),
+  };
+  prisma.bannedUser = {
+    findUnique: async () => bans[0] ?? null,
+    findFirst: async ({ where }: any) =>
+      bans.find((ban) => ban.userId === where.userId) ?? null,
+    create: async ({ data }: any) => {
+      const ban = { id: "ban", ...data };
+      bans.push(ban);
+      return ban;
+    },
+    deleteMany: async ({ where }: any) => {
+      const count = bans.filter((ban) => ban.id === where.id).length;
+      bans = bans.filter((ban) => ban.id !== where.id);
+      return { count };
+    },
+  };
+  prisma.moderationAction = {
+    create: async ({ data }: any) => {
+      const action = { id: "64b7f0c2e4b0a1a2b3c4d5ea", ...data };
+      actions.push(action);
+      return action;
+    },
+    findUnique: async () => actions[0],
+    findUniqueOrThrow: async () => actions[0],
+    updateMany: async () => ({ count: 1 }),
+  };
+});
+
+describe("ModerationService.banUser", () => {
+  test("takes away the banned user's membership", async () => {
+    await ModerationService.banUser("creator", community, userId, "spam");
+
+    expect(members.has(userId)).toBe(false);
+    expect(memberCount).toBe(1);
+    expect(actions[0].metadata).toMatchObject({
+      banId: "ban",
+      membership: { role: "contributor", reputation: 12 },
+    });
+  });
+
+  test("gives the membership back when the ban is undone", async () => {
+    const { action } = await ModerationService.banUser(
+      "creator",
+      community,
+      userId,
+      "spam"
+    );
+
+    await ModerationService.undoAction("creator", action.id);
+
+    expect(bans).toEqual([]);
+    expect(members.get(userId)).toMatchObject({
+      role: "contributor",
+      reputation: 12,
+      joinedAt: new Date("2024-01-01"),
+    });
+    expect(memberCount).toBe(2);
+  });
+
+  test("bans users who are not members", async () => {
+    members.clear();
+
+    await ModerationService.banUser("creator", community, userId, "spam");
+
+    expect(bans).toHaveLength(1);
+    expect(memberCount).toBe(2);
+  });
+});
+
+describe("PostService.assertCanView", () => {
+  test("keeps banned users out of private communities", async () => {
+    bans.push({ id: "ban", userId, expiresAt: null });
+
+    await expect(
+      PostService.assertCanView(userId, community)
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  test("lets members in", async () => {
+    await expect(
+      PostService.assertCanView(userId, community)
+    ).resolves.toBeUndefined();
+  });
+});
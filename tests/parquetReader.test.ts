@@ -0,0 +1,129 @@
+import { expect, test, describe } from "bun:test";
+import { TestColumn, rangeReader, writeParquet } from "./parquetWriter";
+
+const { readParquetFooter, readParquetMetadata } = await import(
+  "../src/utils/parquetFooter"
+);
+const { decodeColumnChunk } = await import("../src/utils/parquetReader");
+
+// Every column of the first row group, decoded
+const decodeAll = async (file: Buffer, maxRows = Infinity) => {
+  const readRange = rangeReader(file);
+  const metadata = await readParquetMetadata(file.length, readRange);
+  const group = metadata.rowGroups[0];
+
+  const columns: Record<string, unknown[]> = {};
+  for (const column of metadata.columns) {
+    const chunk = group.chunks.get(column.path)!;
+    columns[column.path] = decodeColumnChunk(
+      column,
+      chunk,
+      await readRange(chunk.start, chunk.start + chunk.length - 1),
+      Math.min(maxRows, group.rowCount)
+    );
+  }
+  return columns;
+};
+
+const ids: TestColumn = {
+  name: "id",
+  type: "int32",
+  values: [10, 20, null, 40],
+};
+const names: TestColumn = {
+  name: "name",
+  type: "utf8",
+  values: ["alice", null, "bob", "bob"],
+  dictionary: true,
+};
+const scores: TestColumn = {
+  name: "score",
+  type: "double",
+  values: [0.5, 1.25, -2, null],
+};
+
+describe("decodeColumnChunk", () => {
+  test.each(["uncompressed", "snappy", "gzip"] as const)(
+    "decodes PLAIN and dictionary pages (%s)",
+    async (codec) => {
+      const file = writeParquet(
+        [ids, names, scores].map((column) => ({ ...column, codec }))
+      );
+
+      expect(await decodeAll(file)).toEqual({
+        id: [10, 20, null, 40],
+        name: ["alice", null, "bob", "bob"],
+        score: [0.5, 1.25, -2, null],
+      });
+    }
+  );
+
+  test("stops at maxRows", async () => {
+    expect(await decodeAll(writeParquet([ids, names]), 2)).toEqual({
+      id: [10, 20],
+      name: ["alice", null],
+    });
+  });
+
+  test("caps a page's value count at the rows in the chunk", async () => {
+    const file = writeParquet([{ ...ids, pageHeader: { numValues: 1e9 } }]);
+
+    expect(await decodeAll(file)).toEqual({ id: [10, 20, null, 40] });
+  });
+
+  test("rejects pages larger than their declared size", async () => {
+    const file = writeParquet([
+      { ...ids, codec: "gzip", pageHeader: { uncompressedSize: 4 } },
+    ]);
+
+    await expect(decodeAll(file)).rejects.toThrow();
+  });
+
+  test("rejects Snappy pages that claim more than the header allows", async () => {
+    const file = writeParquet([
+      { ...names, codec: "snappy", pageHeader: { uncompressedSize: 8 } },
+    ]);
+
+    await expect(decodeAll(file)).rejects.toThrow(
+      "Snappy page is larger than its header allows"
+    );
+  });
+
+  test("rejects chunks cut short", async () => {
+    const file = writeParquet([ids]);
+    const readRange = rangeReader(file);
+    const metadata = await readParquetMetadata(file.length, readRange);
+    const chunk = metadata.rowGroups[0].chunks.get("id")!;
+
+    expect(() =>
+      decodeColumnChunk(
+        metadata.columns[0],
+        chunk,
+        file.subarray(chunk.start, chunk.start + chunk.length - 4),
+        4
+      )
+    ).toThrow("Parquet page is truncated");
+  });
+});
+
+describe("readParquetMetadata", () => {
+  test("reads the schema and row groups", async () => {
+    const file = writeParquet([ids, names], 3);
+    const metadata = await readParquetMetadata(file.length, rangeReader(file));
+
+    expect(metadata.rowCount).toBe(4);
+    expect(metadata.columns.map(({ path, type }) => ({ path, type }))).toEqual([
+      { path: "id", type: "integer" },
+      { path: "name", type: "string" },
+    ]);
+    expect(metadata.rowGroups.map((group) => group.rowCount)).toEqual([3, 1]);
+  });
+
+  test("rejects files without the Parquet magic", async () => {
+    const file = Buffer.from("id,name\n1,alice\n2,bob\n");
+
+    await expect(
+      readParquetFooter(file.length, rangeReader(file))
+    ).rejects.toThrow("Missing Parquet magic bytes");
+  });
+});
@@ -0,0 +1,317 @@
+import zlib from "zlib";
+
+/**
+ * Minimal Parquet writer for tests: flat columns, one v1 data page per
+ * column chunk, PLAIN or dictionary encoding, and uncompressed, Snappy
+ * (literals only) or gzip pages. Page headers can be overridden to build
+ * files whose declared sizes and counts lie.
+ */
+
+export interface TestColumn {
+  name: string;
+  type: "int32" | "double" | "utf8";
+  values: (number | string | null)[];
+  dictionary?: boolean;
+  codec?: "uncompressed" | "snappy" | "gzip";
+  // Replaces fields of every data page header of the column
+  pageHeader?: { numValues?: number; uncompressedSize?: number };
+}
+
+const THRIFT = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 } as const;
+const PHYSICAL = { int32: 1, double: 5, utf8: 6 } as const;
+const CODEC = { uncompressed: 0, snappy: 1, gzip: 2 } as const;
+const ENCODING = { PLAIN: 0, RLE: 3, RLE_DICTIONARY: 8 } as const;
+const PAGE = { DATA: 0, DICTIONARY: 2 } as const;
+
+type Field = [id: number, type: number, value: unknown];
+
+const varint = (value: number) => {
+  const bytes: number[] = [];
+  do {
+    let byte = value % 128;
+    value = Math.floor(value / 128);
+    if (value) byte |= 0x80;
+    bytes.push(byte);
+  } while (value);
+  return bytes;
+};
+
+const zigzag = (value: number) =>
+  varint(value < 0 ? -2 * value - 1 : 2 * value);
+
+const thriftValue = (type: number, value: unknown): number[] => {
+  switch (type) {
+    case THRIFT.I32:
+    case THRIFT.I64:
+      return zigzag(value as number);
+    case THRIFT.BINARY: {
+      const bytes =
+        typeof value === "string" ? Buffer.from(value) : (value as Buffer);
+      return [...varint(bytes.length), ...bytes];
+    }
+    case THRIFT.LIST: {
+      const [itemType, items] = value as [number, unknown[]];
+      const header =
+        items.length < 15
+          ? [(items.length << 4) | itemType]
+          : [0xf0 | itemType, ...varint(items.length)];
+      return [
+        ...header,
+        ...items.flatMap((item) => thriftValue(itemType, item)),
+      ];
+    }
+    case THRIFT.STRUCT:
+      return thriftStruct(value as Field[]);
+  }
+  throw new Error(`Unsupported thrift type ${type}`);
+};
+
+const thriftStruct = (fields: Field[]): number[] => {
+  const bytes: number[] = [];
+  let lastId = 0;
+  for (const [id, type, value] of fields) {
+    if (value === undefined) continue;
+    bytes.push(((id - lastId) << 4) | type, ...thriftValue(type, value));
+    lastId = id;
+  }
+  bytes.push(0);
+  return bytes;
+};
+
+const snappy = (data: Buffer) => {
+  const bytes = [...varint(data.length)];
+  for (let offset = 0; offset < data.length; offset += 65536) {
+    const literal = data.subarray(offset, offset + 65536);
+    const length = literal.length - 1;
+    if (length < 60) bytes.push(length << 2);
+    else if (length < 256) bytes.push(60 << 2, length);
+    else bytes.push(61 << 2, length & 0xff, length >> 8);
+    bytes.push(...literal);
+  }
+  return Buffer.from(bytes);
+};
+
+const compress = (codec: TestColumn["codec"], data: Buffer) =>
+  codec === "snappy"
+    ? snappy(data)
+    : codec === "gzip"
+    ? zlib.gzipSync(data)
+    : data;
+
+const plain = (type: TestColumn["type"], values: (number | string)[]) =>
+  Buffer.concat(
+    values.map((value) => {
+      if (type === "utf8") {
+        const text = Buffer.from(String(value));
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(text.length);
+        return Buffer.concat([length, text]);
+      }
+      const bytes = Buffer.alloc(type === "int32" ? 4 : 8);
+      if (type === "int32") bytes.writeInt32LE(value as number);
+      else bytes.writeDoubleLE(value as number);
+      return bytes;
+    })
+  );
+
+// RLE/bit-packed hybrid as one RLE run per value
+const hybrid = (values: number[], bitWidth: number) =>
+  Buffer.from(
+    values.flatMap((value) => [
+      2,
+      ...Array.from(
+        { length: Math.ceil(bitWidth / 8) },
+        (_, i) => (value >> (8 * i)) & 0xff
+      ),
+    ])
+  );
+
+const withLength = (data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(data.length);
+  return Buffer.concat([length, data]);
+};
+
+const page = (
+  type: number,
+  uncompressedSize: number,
+  compressed: Buffer,
+  header: Field
+) =>
+  Buffer.concat([
+    Buffer.from(
+      thriftStruct([
+        [1, THRIFT.I32, type],
+        [2, THRIFT.I32, uncompressedSize],
+        [3, THRIFT.I32, compressed.length],
+        header,
+      ])
+    ),
+    compressed,
+  ]);
+
+// Column chunk bytes, with the offset of its data page within them
+const writeChunk = (column: TestColumn, values: TestColumn["values"]) => {
+  const present = values.filter((value) => value !== null) as (
+    | number
+    | string
+  )[];
+  const pages: Buffer[] = [];
+
+  let encoded: Buffer;
+  if (column.dictionary) {
+    const entries = [...new Set(present)];
+    const dictionary = plain(column.type, entries);
+    pages.push(
+      page(
+        PAGE.DICTIONARY,
+        dictionary.length,
+        compress(column.codec, dictionary),
+        [
+          7,
+          THRIFT.STRUCT,
+          [
+            [1, THRIFT.I32, entries.length],
+            [2, THRIFT.I32, ENCODING.PLAIN],
+          ],
+        ]
+      )
+    );
+    const bitWidth = Math.max(32 - Math.clz32(entries.length - 1), 1);
+    encoded = Buffer.concat([
+      Buffer.from([bitWidth]),
+      hybrid(
+        present.map((value) => entries.indexOf(value)),
+        bitWidth
+      ),
+    ]);
+  } else {
+    encoded = plain(column.type, present);
+  }
+
+  const data = Buffer.concat([
+    withLength(
+      hybrid(
+        values.map((value) => (value === null ? 0 : 1)),
+        1
+      )
+    ),
+    encoded,
+  ]);
+  const compressed = compress(column.codec, data);
+  const dataOffset = pages.reduce((total, bytes) => total + bytes.length, 0);
+
+  pages.push(
+    page(
+      PAGE.DATA,
+      column.pageHeader?.uncompressedSize ?? data.length,
+      compressed,
+      [
+        5,
+        THRIFT.STRUCT,
+        [
+          [1, THRIFT.I32, column.pageHeader?.numValues ?? values.length],
+          [
+            2,
+            THRIFT.I32,
+            column.dictionary ? ENCODING.RLE_DICTIONARY : ENCODING.PLAIN,
+          ],
+          [3, THRIFT.I32, ENCODING.RLE],
+          [4, THRIFT.I32, ENCODING.RLE],
+        ],
+      ]
+    )
+  );
+
+  return {
+    bytes: Buffer.concat(pages),
+    dataOffset,
+    hasDictionary: dataOffset > 0,
+  };
+};
+
+/**
+ * Builds a file with every column optional, split into row groups of
+ * `rowGroupSize` rows.
+ */
+export const writeParquet = (
+  columns: TestColumn[],
+  rowGroupSize = Infinity
+) => {
+  const rowCount = Math.max(...columns.map((column) => column.values.length));
+  const parts: Buffer[] = [Buffer.from("PAR1")];
+  let position = 4;
+  const rowGroups: Field[][] = [];
+
+  for (let start = 0; start < rowCount; start += rowGroupSize) {
+    const end = Math.min(start + rowGroupSize, rowCount);
+    const chunks: Field[][] = [];
+
+    for (const column of columns) {
+      const chunk = writeChunk(column, column.values.slice(start, end));
+      parts.push(chunk.bytes);
+
+      chunks.push([
+        [2, THRIFT.I64, position],
+        [
+          3,
+          THRIFT.STRUCT,
+          [
+            [1, THRIFT.I32, PHYSICAL[column.type]],
+            [2, THRIFT.LIST, [THRIFT.I32, [ENCODING.PLAIN, ENCODING.RLE]]],
+            [3, THRIFT.LIST, [THRIFT.BINARY, [column.name]]],
+            [4, THRIFT.I32, CODEC[column.codec ?? "uncompressed"]],
+            [5, THRIFT.I64, end - start],
+            [6, THRIFT.I64, chunk.bytes.length],
+            [7, THRIFT.I64, chunk.bytes.length],
+            [9, THRIFT.I64, position + chunk.dataOffset],
+            [11, THRIFT.I64, chunk.hasDictionary ? position : undefined],
+          ],
+        ],
+      ]);
+      position += chunk.bytes.length;
+    }
+
+    rowGroups.push([
+      [1, THRIFT.LIST, [THRIFT.STRUCT, chunks]],
+      [2, THRIFT.I64, 0],
+      [3, THRIFT.I64, end - start],
+    ]);
+  }
+
+  const footer = Buffer.from(
+    thriftStruct([
+      [1, THRIFT.I32, 1],
+      [
+        2,
+        THRIFT.LIST,
+        [
+          THRIFT.STRUCT,
+          [
+            [
+              [4, THRIFT.BINARY, "schema"],
+              [5, THRIFT.I32, columns.length],
+            ],
+            ...columns.map((column): Field[] => [
+              [1, THRIFT.I32, PHYSICAL[column.type]],
+              [3, THRIFT.I32, 1],
+              [4, THRIFT.BINARY, column.name],
+              [6, THRIFT.I32, column.type === "utf8" ? 0 : undefined],
+            ]),
+          ],
+        ],
+      ],
+      [3, THRIFT.I64, rowCount],
+      [4, THRIFT.LIST, [THRIFT.STRUCT, rowGroups]],
+    ])
+  );
+
+  const footerLength = Buffer.alloc(4);
+  footerLength.writeUInt32LE(footer.length);
+  return Buffer.concat([...parts, footer, footerLength, Buffer.from("PAR1")]);
+};
+
+// readRange for readParquetMetadata over an in-memory file
+export const rangeReader =
+  (file: Buffer) => async (start: number, end: number) =>
+    file.subarray(start, end + 1);
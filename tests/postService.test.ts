@@ -0,0 +1,336 @@
+import { expect, test, describe, beforeEach, afterEach, spyOn } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const { PostService } = await import("../src/services/postService");
+const { ModerationService } = await import("../src/services/moderationService");
+const { AutoModService } = await import("../src/services/autoModService");
+const { fingerprintContent, spamFilter } = await import(
+  "../src/services/spamFilterService"
+);
+
+const postId = "64b7f0c2e4b0a1a2b3c4d5e6";
+const communityId = "64b7f0c2e4b0a1a2b3c4d5e7";
+
+let post: Record<string, any>;
+let postCount: number;
+
+// Status filters as written by the services: a value, { in } or { notIn }
+const matchesStatus = (status: any) =>
+  status === undefined ||
+  (typeof status === "string"
+    ? post.status === status
+    : (status.in?.includes(post.status) ?? true) &&
+      !status.notIn?.includes(post.status));
+
+beforeEach(() => {
+  resetPrisma();
+  post = {
+    id: postId,
+    communityId,
+    authorId: "author",
+    title: "Weather readings",
+    content: "Hourly readings from the station",
+    status: "active",
+  };
+  postCount = 1;
+
+  prisma.post = {
+    findUnique: async ({ where }: any) => (where.id === postId ? post : null),
+    update: async ({ data }: any) => (post = { ...post, ...data }),
+    updateMany: async ({ where, data }: any) => {
+      if (
+        where.id !== postId ||
+        !matchesStatus(where.status) ||
+        ["isLocked", "isPinned"].some(
+          (field) => field in where && where[field] !== !!post[field]
+        )
+      ) {
+        return { count: 0 };
+      }
+      post = { ...post, ...data };
+      return { count: 1 };
+    },
+  };
+  prisma.community = {
+    findUniqueOrThrow: async () => ({ id: communityId, creatorId: "creator" }),
+    update: async ({ data }: any) => {
+      postCount += data.postCount.increment ?? -data.postCount.decrement;
+    },
+  };
+  prisma.moderationAction = {
+    create: async ({ data }: any) => ({ id: "action", ...data }),
+  };
+});
+
+describe("PostService.deletePost", () => {
+  test("takes the post out of the community count", async () => {
+    await PostService.deletePost("author", postId);
+
+    expect(post).toMatchObject({ status: "deleted", content: "" });
+    expect(postCount).toBe(0);
+  });
+
+  test("does not count a removed post twice", async () => {
+    await ModerationService.applyPostRemoval("moderator", post as any, "spam");
+    expect(postCount).toBe(0);
+
+    await PostService.deletePost("author", postId);
+
+    expect(post.status).toBe("deleted");
+    expect(postCount).toBe(0);
+  });
+
+  test("only lets the author delete", async () => {
+    await expect(
+      PostService.deletePost("someone", postId)
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(postCount).toBe(1);
+  });
+
+  test("does not uncount a post removed while deleting", async () => {
+    const stale = { ...post };
+    prisma.post.findUnique = async () => stale;
+    await ModerationService.applyPostRemoval("moderator", post as any, "spam");
+
+    await expect(
+      PostService.deletePost("author", postId)
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(post.status).toBe("removed");
+    expect(postCount).toBe(0);
+  });
+
+  test("treats deleted posts as missing", async () => {
+    await PostService.deletePost("author", postId);
+
+    await expect(
+      PostService.deletePost("author", postId)
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(postCount).toBe(0);
+  });
+});
+
+describe("ModerationService.approvePost", () => {
+  beforeEach(() => {
+    post.status = "pending";
+    postCount = 0;
+  });
+
+  test("publishes a held post and counts it", async () => {
+    const action = await ModerationService.approvePost("creator", postId);
+
+    expect(post.status).toBe("active");
+    expect(postCount).toBe(1);
+    expect(action).toMatchObject({
+      type: "approve_post",
+      targetId: postId,
+      metadata: { previousStatus: "pending" },
+    });
+  });
+
+  test("restores a post hidden as spam", async () => {
+    post.status = "spam";
+
+    await ModerationService.approvePost("creator", postId);
+
+    expect(post.status).toBe("active");
+    expect(postCount).toBe(1);
+  });
+
+  test("only approves posts awaiting review", async () => {
+    post.status = "active";
+
+    await expect(
+      ModerationService.approvePost("creator", postId)
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(postCount).toBe(0);
+  });
+
+  test("requires a moderator", async () => {
+    prisma.communityModerator = { findUnique: async () => null };
+
+    await expect(
+      ModerationService.approvePost("someone", postId)
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(post.status).toBe("pending");
+  });
+
+  test("does not uncount a held post when it is removed", async () => {
+    await ModerationService.applyPostRemoval("creator", post as any, "spam");
+
+    expect(post.status).toBe("removed");
+    expect(postCount).toBe(0);
+  });
+});
+
+describe("ModerationService.applyPostRemoval", () => {
+  test("refuses to remove a post twice", async () => {
+    await ModerationService.applyPostRemoval("moderator", post as any, "spam");
+
+    await expect(
+      ModerationService.applyPostRemoval("moderator", post as any, "spam")
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(postCount).toBe(0);
+  });
+
+  test("does not uncount a post removed concurrently", async () => {
+    const stale = { ...post };
+    await ModerationService.applyPostRemoval("moderator", post as any, "spam");
+
+    await expect(
+      ModerationService.applyPostRemoval("moderator", stale as any, "spam")
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(postCount).toBe(0);
+  });
+});
+
+describe("ModerationService.undoAction", () => {
+  let action: Record<string, any>;
+
+  const undo = () =>
+    ModerationService.undoAction("creator", "64b7f0c2e4b0a1a2b3c4d5ea");
+
+  beforeEach(() => {
+    prisma.user = { findUnique: async () => ({ isAdmin: false }) };
+    prisma.community.findMany = async () => [{ id: communityId }];
+    prisma.communityModerator = { findMany: async () => [] };
+    prisma.moderationAction = {
+      create: async ({ data }: any) =>
+        (action = { id: "64b7f0c2e4b0a1a2b3c4d5ea", ...data }),
+      findUnique: async () => action,
+      findUniqueOrThrow: async () => action,
+      updateMany: async ({ data }: any) => {
+        action = { ...action, ...data };
+        return { count: 1 };
+      },
+    };
+  });
+
+  test("unlocks a locked post", async () => {
+    await ModerationService.lockPost("creator", postId, true);
+
+    await undo();
+
+    expect(post.isLocked).toBe(false);
+  });
+
+  test("refuses to undo a lock that was already lifted", async () => {
+    await ModerationService.lockPost("creator", postId, true);
+    const lock = action;
+    await ModerationService.lockPost("creator", postId, false);
+    action = lock;
+
+    await expect(undo()).rejects.toMatchObject({ statusCode: 409 });
+    expect(post.isLocked).toBe(false);
+  });
+
+  test("refuses to undo an unpin after the post was pinned again", async () => {
+    post.isPinned = true;
+    await ModerationService.pinPost("creator", postId, false);
+    const unpin = action;
+    await ModerationService.pinPost("creator", postId, true);
+    action = unpin;
+
+    await expect(undo()).rejects.toMatchObject({ statusCode: 409 });
+    expect(post.isPinned).toBe(true);
+  });
+});
+
+describe("PostService.updatePost", () => {
+  let spamCheck: ReturnType<typeof spyOn>;
+  let autoMod: ReturnType<typeof spyOn>;
+
+  const edit = (content: string) =>
+    PostService.updatePost("author", postId, { content });
+
+  beforeEach(() => {
+    post.fingerprint = fingerprintContent(`${post.title}\n${post.content}`);
+    prisma.community.findUniqueOrThrow = async () => ({
+      id: communityId,
+      creatorId: "creator",
+      autoSpamFilter: true,
+      isNSFW: false,
+    });
+    prisma.communityModerator = { findUnique: async () => null };
+    prisma.bannedUser = { findFirst: async () => null };
+    prisma.mutedUser = { findFirst: async () => null };
+
+    spamCheck = spyOn(spamFilter, "check").mockResolvedValue({
+      fingerprint: "edited",
+      spamScore: 0.9,
+      isSpam: true,
+    });
+    autoMod = spyOn(AutoModService, "runOnPost").mockResolvedValue({
+      removed: false,
+    } as any);
+  });
+
+  afterEach(() => {
+    spamCheck.mockRestore();
+    autoMod.mockRestore();
+  });
+
+  test("runs the spam filter on new content", async () => {
+    const updated = await edit("Cheap tokens at example.com, limited offer");
+
+    expect(spamCheck).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: "Weather readings",
+        content: "Cheap tokens at example.com, limited offer",
+      }),
+      true
+    );
+    expect(updated).toMatchObject({
+      status: "spam",
+      spamScore: 0.9,
+      fingerprint: "edited",
+    });
+  });
+
+  test("skips the spam filter for light edits", async () => {
+    const updated = await edit("Hourly readings from the station!");
+
+    expect(spamCheck).not.toHaveBeenCalled();
+    expect(autoMod).toHaveBeenCalledTimes(1);
+    expect(updated.status).toBe("active");
+  });
+
+  test("applies AutoMod removals to the edit", async () => {
+    autoMod.mockResolvedValue({ removed: true } as any);
+
+    expect((await edit("Daily readings from the station")).status).toBe(
+      "removed"
+    );
+  });
+
+  test("takes a post flagged on edit out of the count", async () => {
+    await edit("Cheap tokens at example.com, limited offer");
+
+    expect(postCount).toBe(0);
+  });
+
+  test("leaves the checks alone when the content is unchanged", async () => {
+    await PostService.updatePost("author", postId, { flair: "data" });
+
+    expect(spamCheck).not.toHaveBeenCalled();
+    expect(autoMod).not.toHaveBeenCalled();
+  });
+
+  test("rejects edits from muted users", async () => {
+    prisma.mutedUser.findFirst = async () => ({
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(edit("Something else entirely")).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    expect(post.content).toBe("Hourly readings from the station");
+  });
+
+  test("refuses edits to posts held as spam", async () => {
+    post.status = "spam";
+
+    await expect(edit("Something else entirely")).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { expect, test, describe } from "bun:test";
+import "./mocks";
+
+const { formatExpression, parseQuery } = await import(
+  "../src/utils/queryParser"
+);
+
+describe("parseQuery", () => {
+  test("parses every clause", () => {
+    const query = parseQuery(
+      "SELECT label, COUNT(*) AS n FROM train.csv WHERE score >= 0.5 " +
+        "GROUP BY label ORDER BY n DESC, label LIMIT 10"
+    );
+
+    expect(query.select?.map((item) => item.alias)).toEqual(["label", "n"]);
+    expect(query.from).toBe("train.csv");
+    expect(query.where).toEqual({
+      kind: "binary",
+      operator: ">=",
+      left: { kind: "column", name: "score" },
+      right: { kind: "literal", value: 0.5 },
+    });
+    expect(query.groupBy).toEqual([{ kind: "column", name: "label" }]);
+    expect(query.orderBy.map((item) => item.descending)).toEqual([true, false]);
+    expect(query.limit).toBe(10);
+  });
+
+  test("SELECT * has no select list", () => {
+    expect(parseQuery("select * from 'data.jsonl'")).toEqual({
+      select: null,
+      from: "data.jsonl",
+      where: undefined,
+      groupBy: [],
+      orderBy: [],
+      limit: undefined,
+    });
+  });
+
+  test("binds AND tighter than OR and * tighter than +", () => {
+    const { where } = parseQuery(
+      "SELECT * WHERE a = 1 OR b = 2 AND c + 1 * 2 > 3"
+    );
+
+    expect(formatExpression(where!)).toBe(
+      "((a = 1) OR ((b = 2) AND ((c + (1 * 2)) > 3)))"
+    );
+  });
+
+  test("parses IS NULL, NOT IN and NOT LIKE", () => {
+    const { where } = parseQuery(
+      "SELECT * WHERE a IS NOT NULL AND b NOT IN (1, 2) AND c NOT LIKE 'x%'"
+    );
+
+    expect(formatExpression(where!)).toBe(
+      "((a IS NOT NULL AND b NOT IN (1, 2)) AND c NOT LIKE 'x%')"
+    );
+  });
+
+  test("unescapes doubled quotes in strings and identifiers", () => {
+    const query = parseQuery(`SELECT "odd""name" WHERE note = 'it''s'`);
+
+    expect(query.select?.[0].expression).toEqual({
+      kind: "column",
+      name: 'odd"name',
+    });
+    expect(query.where).toMatchObject({
+      right: { kind: "literal", value: "it's" },
+    });
+  });
+
+  test("normalizes <> to != and function names to upper case", () => {
+    const query = parseQuery("SELECT lower(name) WHERE a <> 1");
+
+    expect(query.select?.[0].alias).toBe("LOWER(name)");
+    expect(query.where).toMatchObject({ operator: "!=" });
+  });
+
+  test("ignores line comments", () => {
+    expect(parseQuery("SELECT a -- all of it\nLIMIT 5").limit).toBe(5);
+  });
+
+  test.each([
+    ["UPDATE t SET a = 1", "Expected SELECT at position 1"],
+    ["SELECT a FROM t JOIN u", 'Unexpected "JOIN" at position 17'],
+    ["SELECT 'open", "Unterminated quote starting at position 8"],
+    ["SELECT a LIMIT 1.5", "LIMIT must be a whole number at position 16"],
+    ["SELECT SLEEP(1)", "Unknown function SLEEP at position 8"],
+    ["SELECT SUM(a, b)", "SUM takes one argument at position 8"],
+    ["SELECT ROUND()", 'Unexpected ")" at position 14'],
+    ["SELECT a WHERE", "Unexpected end of query at position 15"],
+    ["SELECT a; DROP", 'Unexpected character ";" at position 9'],
+  ])("rejects %s", (sql, message) => {
+    expect(() => parseQuery(sql)).toThrow(message);
+  });
+
+  test("rejects errors with status 400", () => {
+    try {
+      parseQuery("SELECT");
+      throw new Error("expected a syntax error");
+    } catch (error) {
+      expect(error).toMatchObject({ statusCode: 400 });
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const { ReportService } = await import("../src/services/reportService");
+
+const communityId = "64b7f0c2e4b0a1a2b3c4d5e6";
+const reportId = "64b7f0c2e4b0a1a2b3c4d5e7";
+
+let reports: Record<string, any>[];
+let staff: boolean;
+
+beforeEach(() => {
+  resetPrisma();
+  reports = [];
+  staff = false;
+
+  prisma.community = {
+    findUnique: async () => ({ id: communityId }),
+    // The reviewer created the reported community
+    findMany: async () => [{ id: communityId }],
+  };
+  prisma.communityModerator = { findMany: async () => [] };
+  prisma.user = {
+    findUnique: async () => ({ isAdmin: staff, isModerator: false }),
+  };
+  prisma.report = {
+    findFirst: async () => null,
+    create: async ({ data }: any) => {
+      const report = { id: reportId, status: "pending", ...data };
+      reports.push(report);
+      return report;
+    },
+    findUnique: async () => reports[0] ?? null,
+    findUniqueOrThrow: async () => reports[0],
+    updateMany: async ({ data }: any) => {
+      Object.assign(reports[0], data);
+      return { count: 1 };
+    },
+  };
+  prisma.moderationAction = {
+    create: async ({ data }: any) => ({ id: "action", ...data }),
+  };
+});
+
+describe("ReportService community reports", () => {
+  const report = () =>
+    ReportService.submitReport("reporter", {
+      type: "community",
+      targetId: communityId,
+      reason: "Scam community",
+    });
+
+  test("are routed to site staff", async () => {
+    const submitted = await report();
+
+    expect(submitted.targetCommunityId).toBe(communityId);
+    expect(submitted.communityId).toBeUndefined();
+  });
+
+  test("cannot be reviewed by the community's own moderators", async () => {
+    await report();
+
+    await expect(
+      ReportService.reviewReport("creator", reportId, "rejected", "Nothing")
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(reports[0].status).toBe("pending");
+  });
+
+  test("are reviewed by site staff", async () => {
+    await report();
+    staff = true;
+
+    const { report: reviewed } = await ReportService.reviewReport(
+      "admin",
+      reportId,
+      "resolved",
+      "Community archived"
+    );
+
+    expect(reviewed.status).toBe("resolved");
+  });
+});
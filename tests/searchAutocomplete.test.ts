@@ -0,0 +1,80 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const { SearchService } = await import("../src/services/searchService");
+
+let history: { query: string }[];
+let searches: { query: string; userId: string }[];
+
+const searchedBy = (query: string, users: number) => {
+  for (let i = 0; i < users; i++) {
+    searches.push({ query, userId: `user-${i}` });
+  }
+};
+
+const suggest = () => SearchService.autocomplete("viewer", "wea", 5);
+
+beforeEach(() => {
+  resetPrisma();
+  history = [];
+  searches = [];
+
+  prisma.user = {
+    findUniqueOrThrow: async () => ({ walletAddress: "0xviewer" }),
+    findMany: async () => [],
+  };
+  prisma.communityMember = { findMany: async () => [] };
+  prisma.blockedUser = { findMany: async () => [] };
+  prisma.searchHistory = {
+    findMany: async () => history,
+    // One row per distinct combination of the grouped fields
+    groupBy: async ({ by }: { by: ("query" | "userId")[] }) => [
+      ...new Map(
+        searches.map((search) => [
+          by.map((field) => search[field]).join("\0"),
+          search,
+        ])
+      ).values(),
+    ],
+  };
+  prisma.community = { findMany: async () => [] };
+  prisma.dataset = { findMany: async () => [] };
+});
+
+describe("SearchService.autocomplete", () => {
+  test("suggests queries searched by enough distinct users", async () => {
+    searchedBy("weather stations", 5);
+    searchedBy("weather private notes", 4);
+
+    expect(await suggest()).toEqual([
+      { text: "weather stations", source: "popular" },
+    ]);
+  });
+
+  test("ranks popular queries by how many users searched them", async () => {
+    searchedBy("weather radar", 5);
+    searchedBy("weather stations", 8);
+
+    expect((await suggest()).map((suggestion) => suggestion.text)).toEqual([
+      "weather stations",
+      "weather radar",
+    ]);
+  });
+
+  test("does not count one user's repeated searches as popularity", async () => {
+    for (let i = 0; i < 20; i++) {
+      searches.push({ query: "weather at my address", userId: "user-0" });
+    }
+
+    expect(await suggest()).toEqual([]);
+  });
+
+  test("lists the viewer's own history first", async () => {
+    history = [{ query: "Weather stations" }];
+    searchedBy("weather stations", 5);
+
+    expect(await suggest()).toEqual([
+      { text: "Weather stations", source: "history" },
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { prisma, resetPrisma } from "./mocks";
+
+const {
+  SpamFilterService,
+  accountAgeSignal,
+  duplicateContentSignal,
+  fingerprintContent,
+  linkDensitySignal,
+} = await import("../src/services/spamFilterService");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const subject = (overrides = {}) => ({
+  kind: "post" as const,
+  authorId: "author",
+  communityId: "community",
+  text: "A perfectly ordinary post about datasets",
+  links: [] as string[],
+  fingerprint: "fingerprint",
+  author: { createdAt: new Date(Date.now() - 365 * DAY_MS), reputation: 10 },
+  ...overrides,
+});
+
+const signal = (name: string, weight: number, value: number | Error) => ({
+  name,
+  weight,
+  score: () => {
+    if (value instanceof Error) throw value;
+    return value;
+  },
+});
+
+beforeEach(() => resetPrisma());
+
+describe("fingerprintContent", () => {
+  test("ignores case, punctuation and spacing", () => {
+    expect(fingerprintContent("Buy CHEAP tokens now!!! Limited offer")).toBe(
+      fingerprintContent("buy cheap   tokens now, limited... offer")
+    );
+  });
+
+  test("differs for different words", () => {
+    expect(fingerprintContent("Buy cheap tokens now, limited offer")).not.toBe(
+      fingerprintContent("Buy cheap tokens later, limited offer")
+    );
+  });
+
+  test("skips text too short to be meaningful", () => {
+    expect(fingerprintContent("thanks!")).toBeNull();
+  });
+});
+
+describe("signals", () => {
+  test("link density grows with links per word", () => {
+    expect(linkDensitySignal.score(subject()) as number).toBe(0);
+    expect(
+      linkDensitySignal.score(
+        subject({ text: "see a.io b.io", links: ["a.io", "b.io"] })
+      )
+    ).toBe(1);
+    expect(
+      linkDensitySignal.score(
+        subject({
+          text: `${"word ".repeat(39)}https://a.io`,
+          links: ["https://a.io"],
+        })
+      )
+    ).toBe(0.25);
+  });
+
+  test("account age fades out over thirty days", () => {
+    const aged = (days: number) =>
+      accountAgeSignal.score(
+        subject({
+          author: {
+            createdAt: new Date(Date.now() - days * DAY_MS),
+            reputation: 0,
+          },
+        })
+      ) as number;
+
+    expect(aged(0)).toBeCloseTo(1);
+    expect(aged(15)).toBeCloseTo(0.5);
+    expect(aged(60)).toBe(0);
+  });
+
+  test("duplicates weigh more when they span communities", async () => {
+    prisma.post = {
+      findMany: async () => [
+        { communityId: "community" },
+        { communityId: "other" },
+      ],
+    };
+    prisma.comment = {
+      findMany: async () => [{ post: { communityId: "third" } }],
+    };
+
+    expect(await duplicateContentSignal.score(subject())).toBeCloseTo(0.8);
+
+    prisma.post.findMany = async () => [];
+    prisma.comment.findMany = async () => [];
+    expect(await duplicateContentSignal.score(subject())).toBe(0);
+  });
+});
+
+describe("SpamFilterService.score", () => {
+  test("combines signals as a noisy-or", async () => {
+    const filter = new SpamFilterService([
+      signal("a", 0.5, 1),
+      signal("b", 0.4, 0.5),
+    ]);
+
+    expect(await filter.score(subject())).toEqual({
+      score: 0.6,
+      isSpam: false,
+      signals: { a: 1, b: 0.5 },
+    });
+  });
+
+  test("flags content once the score reaches the threshold", async () => {
+    const filter = new SpamFilterService([signal("strong", 0.8, 1)]);
+
+    expect((await filter.score(subject())).isSpam).toBe(true);
+  });
+
+  test("clamps signal values and skips signals that fail", async () => {
+    const filter = new SpamFilterService([
+      signal("broken", 1, new Error("unavailable")),
+      signal("loud", 0.5, 7),
+    ]);
+
+    expect(await filter.score(subject())).toEqual({
+      score: 0.5,
+      isSpam: false,
+      signals: { loud: 1 },
+    });
+  });
+
+  test("replaces signals registered under the same name", async () => {
+    const filter = new SpamFilterService([signal("a", 0.9, 1)]);
+    filter.registerSignal(signal("a", 0.1, 1));
+    filter.registerSignal(signal("b", 0.2, 0));
+
+    expect((await filter.score(subject())).score).toBe(0.1);
+
+    filter.removeSignal("a");
+    expect((await filter.score(subject())).signals).toEqual({ b: 0 });
+  });
+});
+
+describe("SpamFilterService.check", () => {
+  test("fingerprints without scoring when the filter is off", async () => {
+    const filter = new SpamFilterService([signal("strong", 1, 1)]);
+
+    expect(
+      await filter.check(
+        {
+          kind: "post",
+          authorId: "author",
+          communityId: "community",
+          title: "Buy cheap tokens",
+          content: "Visit our site for a limited offer",
+        },
+        false
+      )
+    ).toEqual({
+      fingerprint: fingerprintContent(
+        "Buy cheap tokens\nVisit our site for a limited offer"
+      ),
+      spamScore: null,
+      isSpam: false,
+    });
+  });
+
+  test("scores with the author's account facts when enabled", async () => {
+    prisma.user = {
+      findUniqueOrThrow: async () => ({
+        createdAt: new Date(),
+        reputation: 0,
+      }),
+    };
+    const filter = new SpamFilterService([accountAgeSignal]);
+
+    const result = await filter.check(
+      {
+        kind: "comment",
+        authorId: "author",
+        communityId: "community",
+        content: "First!",
+      },
+      true
+    );
+
+    expect(result.fingerprint).toBeNull();
+    expect(result.spamScore).toBeCloseTo(0.3);
+    expect(result.isSpam).toBe(false);
+  });
+});
+
+describe("SpamFilterService.assertMinimumKarma", () => {
+  test("rejects authors below the community minimum", async () => {
+    prisma.user = { findUniqueOrThrow: async () => ({ reputation: 4 }) };
+    const filter = new SpamFilterService([]);
+
+    await expect(
+      filter.assertMinimumKarma("author", { minimumKarma: 5 })
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await expect(
+      filter.assertMinimumKarma("author", { minimumKarma: 4 })
+    ).resolves.toBeUndefined();
+  });
+});
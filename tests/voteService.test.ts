@@ -0,0 +1,196 @@
+import { expect, test, describe, beforeEach } from "bun:test";
+import { Prisma } from "@prisma/client";
+import { prisma, resetPrisma } from "./mocks";
+
+const { VoteService } = await import("../src/services/voteService");
+
+const postId = "64b7f0c2e4b0a1a2b3c4d5e6";
+
+let community: Record<string, any>;
+let membership: Record<string, any> | null;
+let post: Record<string, any>;
+let votes: Record<string, any>[];
+let reputation: Record<string, number>;
+
+const increment = (record: Record<string, any>, data: Record<string, any>) => {
+  for (const [key, change] of Object.entries(data)) {
+    record[key] = (record[key] ?? 0) + change.increment;
+  }
+};
+
+beforeEach(() => {
+  resetPrisma();
+  community = {
+    id: "64b7f0c2e4b0a1a2b3c4d5e7",
+    isPrivate: false,
+    isArchived: false,
+    tokenGated: false,
+  };
+  membership = { hasTokenAccess: true };
+  post = {
+    id: postId,
+    communityId: community.id,
+    authorId: "author",
+    status: "active",
+    isLocked: false,
+    score: 0,
+    upvotes: 0,
+    downvotes: 0,
+  };
+  votes = [];
+  reputation = {};
+
+  prisma.post = {
+    findUnique: async () => post,
+    findUniqueOrThrow: async () => ({
+      score: post.score,
+      upvotes: post.upvotes,
+      downvotes: post.downvotes,
+    }),
+    update: async ({ data }: any) => increment(post, data),
+  };
+  prisma.community = { findUniqueOrThrow: async () => community };
+  prisma.communityMember = {
+    findUnique: async () => membership,
+    updateMany: async () => ({ count: 1 }),
+  };
+  prisma.bannedUser = { findFirst: async () => null };
+  prisma.mutedUser = { findFirst: async () => null };
+  prisma.user = {
+    update: async ({ where, data }: any) =>
+      (reputation[where.id] =
+        (reputation[where.id] ?? 0) + data.reputation.increment),
+  };
+  prisma.vote = {
+    findFirst: async ({ where }: any) =>
+      votes.find((vote) => vote.userId === where.userId) ?? null,
+    create: async ({ data }: any) =>
+      votes.push({ id: `vote-${votes.length}`, ...data }),
+    update: async ({ where, data }: any) =>
+      Object.assign(votes.find((vote) => vote.id === where.id)!, data),
+    delete: async ({ where }: any) =>
+      (votes = votes.filter((vote) => vote.id !== where.id)),
+  };
+});
+
+describe("VoteService.castVote", () => {
+  test("keeps post counters and author reputation in step", async () => {
+    await VoteService.castVote("voter", "post", postId, 1);
+    expect(await VoteService.castVote("voter", "post", postId, -1)).toEqual({
+      value: -1,
+      score: -1,
+      upvotes: 0,
+      downvotes: 1,
+    });
+    expect(reputation).toEqual({ author: -1 });
+
+    await VoteService.castVote("voter", "post", postId, 0);
+    expect(post).toMatchObject({ score: 0, upvotes: 0, downvotes: 0 });
+    expect(reputation).toEqual({ author: 0 });
+    expect(votes).toEqual([]);
+  });
+
+  test("does not change anything when the vote is repeated", async () => {
+    await VoteService.castVote("voter", "post", postId, 1);
+    await VoteService.castVote("voter", "post", postId, 1);
+
+    expect(post.score).toBe(1);
+    expect(reputation).toEqual({ author: 1 });
+  });
+
+  test("does not award reputation for voting on your own post", async () => {
+    await VoteService.castVote("author", "post", postId, 1);
+
+    expect(post.score).toBe(1);
+    expect(reputation).toEqual({});
+  });
+
+  test("rejects votes on locked posts", async () => {
+    post.isLocked = true;
+
+    await expect(
+      VoteService.castVote("voter", "post", postId, 1)
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test("rejects votes from muted users", async () => {
+    prisma.mutedUser.findFirst = async () => ({
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(
+      VoteService.castVote("voter", "post", postId, 1)
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(votes).toEqual([]);
+  });
+
+  describe("on write conflicts", () => {
+    let conflicts: number;
+
+    beforeEach(() => {
+      const findFirst = prisma.vote.findFirst;
+      prisma.vote.findFirst = async (args: any) => {
+        if (conflicts-- > 0) {
+          throw new Prisma.PrismaClientKnownRequestError("Write conflict", {
+            code: "P2034",
+            clientVersion: Prisma.prismaVersion.client,
+          });
+        }
+        return findFirst(args);
+      };
+    });
+
+    test("retries the vote", async () => {
+      conflicts = 1;
+
+      expect(
+        (await VoteService.castVote("voter", "post", postId, 1)).score
+      ).toBe(1);
+    });
+
+    test("returns 409 when the conflicts persist", async () => {
+      conflicts = Infinity;
+
+      await expect(
+        VoteService.castVote("voter", "post", postId, 1)
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(post.score).toBe(0);
+    });
+  });
+
+  describe("in token gated communities", () => {
+    beforeEach(() => {
+      community.tokenGated = true;
+    });
+
+    test("requires membership", async () => {
+      membership = null;
+
+      await expect(
+        VoteService.castVote("voter", "post", postId, 1)
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        message: "Join the community to participate",
+      });
+      expect(votes).toEqual([]);
+    });
+
+    test("requires a passing token balance", async () => {
+      membership = { hasTokenAccess: false };
+
+      await expect(
+        VoteService.castVote("voter", "post", postId, 1)
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        message: "Your token balance no longer meets the community requirement",
+      });
+      expect(votes).toEqual([]);
+    });
+
+    test("accepts votes from members with token access", async () => {
+      expect(
+        (await VoteService.castVote("voter", "post", postId, 1)).score
+      ).toBe(1);
+    });
+  });
+});